@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { io } from 'socket.io-client';
+import { useState, useEffect, useRef } from 'react';
+import { io, Socket } from 'socket.io-client';
 import './App.css';
 
 // Utils de base URL
@@ -41,7 +41,8 @@ interface AnalysisResult {
   overallScore: number;
   complianceLevel: string;
   categories: {
-    [key: string]: {
+    [categoryId: string]: {
+      label: string;
       score: number;
       status: 'passed' | 'warning' | 'failed';
     };
@@ -53,38 +54,116 @@ interface AnalysisResult {
 
 interface ProgressUpdate {
   analysisId: string;
-  status: 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   currentTest: string | null;
   completedTests: number;
   totalTests: number;
+  queuePosition?: number;
   error?: string;
+  test?: TestProgress;
+}
+
+interface TestProgress {
+  categoryId: string;
+  testName: string;
+  status: 'running' | 'passed' | 'warning' | 'failed' | 'skipped';
+  score: number | null;
+  pageUrl?: string;
+}
+
+interface SuppressionMark {
+  id: number;
+  justification: string;
+  author: string;
+  expires_at: string;
+  expired: boolean;
+}
+
+interface RemediationGuidance {
+  code: string;
+  title: string;
+  explanation: string;
+  example: string | null;
+  effort: 'low' | 'medium' | 'high';
+  nortic: { id: string; title: string }[];
+  wcag: { id: string; title: string; url: string }[];
 }
 
 interface TestResult {
+  page_id?: number | null;
   test_name: string;
   category: string;
+  category_id?: string | null;
   status: 'passed' | 'warning' | 'failed';
   score: number;
   message: string;
   details: any;
+  suppression?: SuppressionMark | null;
+  guidance?: RemediationGuidance[];
+}
+
+interface AnalysisPage {
+  id: number;
+  url: string;
+  depth: number;
+  status: 'completed' | 'failed';
+  score: number | null;
+  error: string | null;
+  failedTests: string[];
+  warningTests: string[];
+  violationCount: number;
+}
+
+interface ScoringProfile {
+  id: string;
+  name: string;
+  is_default: boolean;
+}
+
+interface CategoryScore {
+  category_id: string;
+  label: string;
+  score: number;
+  status: 'passed' | 'warning' | 'failed';
 }
 
 interface DetailedResults {
   analysis: any;
+  categories?: CategoryScore[];
   testResults: TestResult[];
   violations: any[];
+  pages?: AnalysisPage[];
 }
 
 interface AnalysisRecord {
   id: string;
   url: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   overall_score?: number;
   compliance_level?: string;
   created_at: string;
   updated_at: string;
-  institution_name: string;
+  institution_id?: number | null;
+  institution_name: string | null;
+  institution_acronym?: string | null;
+  batch_id?: string | null;
+}
+
+interface Institution {
+  id: number;
+  name: string;
+  acronym: string | null;
+  sector: string | null;
+  domains: string[];
+  analysis_count: number;
+}
+
+interface BatchSummary {
+  id: string;
+  name: string | null;
+  created_at: string;
+  total: number;
 }
 
 interface PaginatedHistory {
@@ -99,10 +178,84 @@ interface PaginatedHistory {
   };
 }
 
+interface ScoreDelta {
+  base: number | null;
+  target: number | null;
+  delta: number | null;
+}
+
+interface TestChange {
+  change: 'fixed' | 'regressed' | 'new' | 'removed';
+  categoryId: string;
+  category: string;
+  testName: string;
+  page: string | null;
+  baseStatus: string | null;
+  targetStatus: string | null;
+}
+
+interface ViolationChange {
+  ruleId: string;
+  impact: string;
+  description: string;
+  selector: string | null;
+  page: string | null;
+}
+
+interface AnalysisComparison {
+  base: { analysisId: string; url: string; endTime: string | null };
+  target: { analysisId: string; url: string; endTime: string | null };
+  overall: ScoreDelta;
+  categories: (ScoreDelta & { categoryId: string; label: string })[];
+  tests: {
+    summary: { fixed: number; regressed: number; new: number; removed: number; unchanged: number };
+    changes: TestChange[];
+  };
+  violations: {
+    summary: { added: number; resolved: number; unchanged: number };
+    added: ViolationChange[];
+    resolved: ViolationChange[];
+  };
+}
+
+interface TrendPoint {
+  period: string;
+  start: string;
+  analysisCount: number;
+  overallScore: number | null;
+  categories: { [categoryId: string]: number };
+}
+
+interface ScoreTrend {
+  groupBy: 'day' | 'week' | 'month';
+  categories: { categoryId: string; label: string }[];
+  points: TrendPoint[];
+}
+
+interface RankingRow {
+  position: number;
+  positionChange: number | null;
+  institutionId: number;
+  name: string;
+  acronym: string | null;
+  sector: string | null;
+  url: string;
+  overallScore: number | null;
+  complianceLevel: string | null;
+  completedAt: string;
+}
+
+interface Ranking {
+  cutoff: string;
+  previousCutoff: string;
+  rankings: RankingRow[];
+}
+
 interface HistoryFilters {
   url: string;
   status: string;
-  institution: string;
+  institutionId: string;
+  batchId: string;
   dateFrom: string;
   dateTo: string;
 }
@@ -112,8 +265,131 @@ interface HistorySorting {
   direction: 'ASC' | 'DESC';
 }
 
+// Hallazgo aceptado: vigente no cuenta en la puntuación; vencido vuelve a contar como fallo
+function SuppressionBadge({ suppression }: { suppression?: SuppressionMark | null }) {
+  if (!suppression) return null;
+  return (
+    <p className={`text-xs mt-1 ${suppression.expired ? 'text-red-700' : 'text-gray-600'}`}>
+      <span className={`px-2 py-0.5 mr-2 font-medium rounded-full ${suppression.expired ? 'bg-red-100 text-red-800' : 'bg-gray-200 text-gray-700'}`}>
+        {suppression.expired ? 'Supresión vencida' : 'Suprimida'}
+      </span>
+      {suppression.justification} ({suppression.author}, hasta {suppression.expires_at})
+    </p>
+  );
+}
+
+const EFFORT_LABELS: { [effort in RemediationGuidance['effort']]: { label: string; className: string } } = {
+  low: { label: 'Esfuerzo bajo', className: 'bg-green-100 text-green-800' },
+  medium: { label: 'Esfuerzo medio', className: 'bg-yellow-100 text-yellow-800' },
+  high: { label: 'Esfuerzo alto', className: 'bg-red-100 text-red-800' }
+};
+
+function RemediationCard({ guidance }: { guidance: RemediationGuidance }) {
+  const effort = EFFORT_LABELS[guidance.effort];
+  return (
+    <div className="p-3 bg-white rounded border border-green-200">
+      <div className="flex justify-between items-start gap-2 mb-1">
+        <h5 className="text-sm font-medium text-gray-900">{guidance.title}</h5>
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${effort.className}`}>{effort.label}</span>
+      </div>
+      <p className="text-sm text-gray-700">{guidance.explanation}</p>
+      {guidance.example && (
+        <pre className="mt-2 p-2 text-xs bg-gray-900 text-gray-100 rounded whitespace-pre-wrap overflow-x-auto custom-scrollbar">{guidance.example}</pre>
+      )}
+      {(guidance.nortic.length > 0 || guidance.wcag.length > 0) && (
+        <p className="mt-2 text-xs text-gray-500">
+          {guidance.nortic.map(requirement => (
+            <span key={requirement.id} className="mr-3">NORTIC {requirement.id}: {requirement.title}</span>
+          ))}
+          {guidance.wcag.map(criterion => (
+            <a key={criterion.id} href={criterion.url} target="_blank" rel="noopener noreferrer" className="mr-3 link-btn">
+              WCAG {criterion.id} {criterion.title}
+            </a>
+          ))}
+        </p>
+      )}
+    </div>
+  );
+}
+
+const TREND_COLORS = ['#2563eb', '#16a34a', '#d97706', '#dc2626', '#7c3aed', '#0891b2', '#db2777'];
+
+// Gráfico de líneas 0-100: la puntuación general en trazo grueso y una línea por categoría
+function ScoreTrendChart({ trend }: { trend: ScoreTrend }) {
+  const width = 640;
+  const height = 240;
+  const padding = { top: 12, right: 12, bottom: 28, left: 32 };
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const x = (index: number) =>
+    padding.left + (trend.points.length > 1 ? (index / (trend.points.length - 1)) * plotWidth : plotWidth / 2);
+  const y = (score: number) => padding.top + plotHeight - (score / 100) * plotHeight;
+
+  const series = [
+    { key: 'overall', label: 'General', color: '#111827', strokeWidth: 3, value: (point: TrendPoint) => point.overallScore },
+    ...trend.categories.map((category, index) => ({
+      key: category.categoryId,
+      label: category.label,
+      color: TREND_COLORS[index % TREND_COLORS.length],
+      strokeWidth: 1.5,
+      value: (point: TrendPoint) => point.categories[category.categoryId] ?? null
+    }))
+  ];
+
+  // Con muchos períodos se etiqueta solo una parte del eje X
+  const labelEvery = Math.max(1, Math.ceil(trend.points.length / 8));
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Tendencia de puntuación">
+        {[0, 25, 50, 75, 100].map(score => (
+          <g key={score}>
+            <line x1={padding.left} x2={width - padding.right} y1={y(score)} y2={y(score)} stroke="#e5e7eb" />
+            <text x={padding.left - 6} y={y(score) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{score}</text>
+          </g>
+        ))}
+        {trend.points.map((point, index) => index % labelEvery === 0 && (
+          <text key={point.period} x={x(index)} y={height - 8} textAnchor="middle" fontSize="10" fill="#6b7280">{point.period}</text>
+        ))}
+        {series.map(line => {
+          const coordinates = trend.points
+            .map((point, index) => ({ index, score: line.value(point) }))
+            .filter((coordinate): coordinate is { index: number; score: number } => coordinate.score !== null);
+          return (
+            <g key={line.key}>
+              <polyline
+                points={coordinates.map(coordinate => `${x(coordinate.index)},${y(coordinate.score)}`).join(' ')}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={line.strokeWidth}
+              />
+              {coordinates.map(coordinate => (
+                <circle key={coordinate.index} cx={x(coordinate.index)} cy={y(coordinate.score)} r={line.strokeWidth + 1} fill={line.color}>
+                  <title>{`${line.label} (${trend.points[coordinate.index].period}): ${coordinate.score}`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-gray-600">
+        {series.map(line => (
+          <span key={line.key} className="inline-flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm" style={{ backgroundColor: line.color }} />
+            {line.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function App() {
   const [url, setUrl] = useState('');
+  const [crawlEnabled, setCrawlEnabled] = useState(false);
+  const [crawlMaxPages, setCrawlMaxPages] = useState(10);
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>([]);
+  const [scoringProfileId, setScoringProfileId] = useState('');
   const [historyData, setHistoryData] = useState<PaginatedHistory>({
     analyses: [],
     pagination: {
@@ -134,6 +410,13 @@ function App() {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [showProgressDialog, setShowProgressDialog] = useState(false);
   const [progressUpdate, setProgressUpdate] = useState<ProgressUpdate | null>(null);
+  const [currentAnalysisId, setCurrentAnalysisId] = useState<string | null>(null);
+  // Lista de pruebas del análisis en curso, en el orden en que se ejecutan
+  const [liveTests, setLiveTests] = useState<TestProgress[]>([]);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const socketRef = useRef<Socket | null>(null);
+  // Análisis cuyo progreso se sigue; el servidor solo envía eventos de los análisis suscritos
+  const subscribedAnalysisRef = useRef<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // New state for filtering and sorting
@@ -141,7 +424,8 @@ function App() {
   const [filters, setFilters] = useState<HistoryFilters>({
     url: '',
     status: '',
-    institution: '',
+    institutionId: '',
+    batchId: '',
     dateFrom: '',
     dateTo: ''
   });
@@ -149,9 +433,18 @@ function App() {
     field: 'created_at',
     direction: 'DESC'
   });
-  const [institutions, setInstitutions] = useState<string[]>([]);
+  const [institutions, setInstitutions] = useState<Institution[]>([]);
+  const [batches, setBatches] = useState<BatchSummary[]>([]);
 
   // Delete confirmation state
+  // Primer análisis elegido para comparar; el segundo se elige desde el historial
+  const [compareBaseId, setCompareBaseId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<AnalysisComparison | null>(null);
+  const [selectedInstitution, setSelectedInstitution] = useState<Institution | null>(null);
+  const [trendGroupBy, setTrendGroupBy] = useState<ScoreTrend['groupBy']>('month');
+  const [trend, setTrend] = useState<ScoreTrend | null>(null);
+  const [ranking, setRanking] = useState<Ranking | null>(null);
+  const [rankingFilters, setRankingFilters] = useState({ sector: '', dateTo: '', period: 'month' });
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [analysisToDelete, setAnalysisToDelete] = useState<string | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -162,10 +455,37 @@ function App() {
     const newSocket = io(socketUrl, {
       transports: ['websocket', 'polling'],
     });
+    socketRef.current = newSocket;
+
+    // Las salas se pierden al reconectar: se vuelve a suscribir y el servidor repite el último estado
+    newSocket.on('connect', () => {
+      if (subscribedAnalysisRef.current) {
+        newSocket.emit('subscribe-analysis', subscribedAnalysisRef.current);
+      }
+    });
 
     newSocket.on('analysis-progress', (update: ProgressUpdate) => {
+      if (update.analysisId !== subscribedAnalysisRef.current) return;
+
       console.log('Progress update received:', update);
       setProgressUpdate(update);
+
+      const test = update.test;
+      if (test) {
+        // En modo rastreo cada prueba se repite por página; se muestra su último resultado
+        setLiveTests(prev => {
+          const index = prev.findIndex(t => t.categoryId === test.categoryId && t.testName === test.testName);
+          if (index === -1) return [...prev, test];
+          const next = [...prev];
+          next[index] = test;
+          return next;
+        });
+      }
+
+      if (update.status === 'completed' || update.status === 'failed' || update.status === 'cancelled') {
+        newSocket.emit('unsubscribe-analysis', update.analysisId);
+        subscribedAnalysisRef.current = null;
+      }
       
       if (update.status === 'completed') {
         setIsAnalyzing(false);
@@ -176,17 +496,24 @@ function App() {
         setIsAnalyzing(false);
         setShowProgressDialog(false);
         setError(update.error || 'Error durante el análisis');
+      } else if (update.status === 'cancelled') {
+        setIsAnalyzing(false);
+        setShowProgressDialog(false);
+        cargarProyectos();
       }
     });
 
     return () => {
       newSocket.disconnect();
+      socketRef.current = null;
     };
   }, []);
 
   useEffect(() => {
     cargarProyectos();
     loadInstitutions();
+    loadBatches();
+    loadScoringProfiles();
   }, []);
 
   // Load data when filters or sorting change
@@ -201,7 +528,8 @@ function App() {
     
     if (filters.url) params.append('url', filters.url);
     if (filters.status) params.append('status', filters.status);
-    if (filters.institution) params.append('institution', filters.institution);
+    if (filters.institutionId) params.append('institutionId', filters.institutionId);
+    if (filters.batchId) params.append('batchId', filters.batchId);
     if (filters.dateFrom) params.append('dateFrom', filters.dateFrom);
     if (filters.dateTo) params.append('dateTo', filters.dateTo);
     
@@ -211,6 +539,15 @@ function App() {
     return params.toString();
   };
 
+  // Exports take the same filters and sorting as the list, without pagination
+  const historyExportUrl = (file: 'export.csv' | 'export.xlsx', sheet?: 'tests') => {
+    const params = new URLSearchParams(buildQueryParams());
+    params.delete('page');
+    params.delete('limit');
+    if (sheet) params.append('sheet', sheet);
+    return `${getApiBaseUrl()}/api/nortic-analysis/${file}?${params.toString()}`;
+  };
+
   const cargarProyectos = async (page: number = currentPage) => {
     try {
       const queryParams = buildQueryParams(page);
@@ -227,7 +564,7 @@ function App() {
 
   const loadInstitutions = async () => {
     try {
-      const response = await apiFetch('/api/nortic-analysis/institutions');
+      const response = await apiFetch('/api/institutions');
       if (response.ok) {
         const data = await response.json();
         setInstitutions(data.institutions);
@@ -237,6 +574,30 @@ function App() {
     }
   };
 
+  const loadBatches = async () => {
+    try {
+      const response = await apiFetch('/api/batches');
+      if (response.ok) {
+        const data = await response.json();
+        setBatches(data.batches);
+      }
+    } catch (error) {
+      console.error('Error loading batches:', error);
+    }
+  };
+
+  const loadScoringProfiles = async () => {
+    try {
+      const response = await apiFetch('/api/scoring-profiles');
+      if (response.ok) {
+        const data = await response.json();
+        setScoringProfiles(data.profiles);
+      }
+    } catch (error) {
+      console.error('Error loading scoring profiles:', error);
+    }
+  };
+
   const loadAnalysisResult = async (analysisId: string) => {
     try {
       const response = await apiFetch(`/api/nortic-analysis/${analysisId}/results`);
@@ -257,6 +618,8 @@ function App() {
     setIsAnalyzing(true);
     setShowProgressDialog(true);
     setProgressUpdate(null);
+    setLiveTests([]);
+    setCurrentAnalysisId(null);
     setError(null);
     setAnalysisResult(null);
     setDetailedResults(null);
@@ -269,7 +632,13 @@ function App() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }),
+        body: JSON.stringify({
+          url,
+          options: {
+            ...(crawlEnabled ? { crawl: { maxPages: crawlMaxPages } } : {}),
+            ...(scoringProfileId ? { scoringProfile: scoringProfileId } : {})
+          }
+        }),
       });
 
       if (!response.ok) {
@@ -279,6 +648,9 @@ function App() {
 
       const data = await response.json();
       console.log('Analysis started:', data);
+      setCurrentAnalysisId(data.analysisId);
+      subscribedAnalysisRef.current = data.analysisId;
+      socketRef.current?.emit('subscribe-analysis', data.analysisId);
     } catch (error: any) {
       setIsAnalyzing(false);
       setShowProgressDialog(false);
@@ -309,6 +681,86 @@ function App() {
     }
   };
 
+  const seleccionarParaComparar = async (analysisId: string) => {
+    if (!compareBaseId || compareBaseId === analysisId) {
+      setCompareBaseId(compareBaseId === analysisId ? null : analysisId);
+      return;
+    }
+
+    try {
+      const response = await apiFetch(`/api/nortic-analysis/compare?base=${compareBaseId}&target=${analysisId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Error al comparar los análisis');
+      }
+      setComparison(data);
+      setCompareBaseId(null);
+    } catch (error) {
+      console.error('Error comparing analyses:', error);
+      setError(error instanceof Error ? error.message : 'Error al comparar los análisis');
+    }
+  };
+
+  useEffect(() => {
+    if (!selectedInstitution) {
+      setTrend(null);
+      return;
+    }
+
+    const loadTrend = async () => {
+      try {
+        const response = await apiFetch(`/api/trends?institutionId=${selectedInstitution.id}&groupBy=${trendGroupBy}`);
+        if (response.ok) {
+          setTrend(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading trend:', error);
+      }
+    };
+    loadTrend();
+  }, [selectedInstitution, trendGroupBy]);
+
+  useEffect(() => {
+    const loadRanking = async () => {
+      try {
+        const params = new URLSearchParams({ period: rankingFilters.period });
+        if (rankingFilters.sector) params.append('sector', rankingFilters.sector);
+        if (rankingFilters.dateTo) params.append('dateTo', rankingFilters.dateTo);
+        const response = await apiFetch(`/api/rankings?${params.toString()}`);
+        if (response.ok) {
+          setRanking(await response.json());
+        }
+      } catch (error) {
+        console.error('Error loading ranking:', error);
+      }
+    };
+    loadRanking();
+  }, [rankingFilters]);
+
+  // CSV con BOM para que Excel respete los acentos
+  const exportarRanking = () => {
+    if (!ranking) return;
+
+    const escape = (value: string | number | null) => {
+      const text = value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    const rows = [
+      ['Posicion', 'Cambio', 'Institucion', 'Siglas', 'Sector', 'Puntuacion', 'Nivel', 'URL', 'Fecha del analisis'],
+      ...ranking.rankings.map(row => [
+        row.position, row.positionChange, row.name, row.acronym, row.sector,
+        row.overallScore, row.complianceLevel, row.url, row.completedAt
+      ])
+    ];
+    const csv = '\uFEFF' + rows.map(row => row.map(escape).join(',')).join('\r\n');
+
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    link.download = `ranking-${ranking.cutoff.slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
   const closeError = () => {
     setError(null);
   };
@@ -326,6 +778,30 @@ function App() {
     setProgressUpdate(null);
   };
 
+  const cancelarAnalisis = async () => {
+    const analysisId = currentAnalysisId || progressUpdate?.analysisId;
+    if (!analysisId) return;
+
+    setIsCancelling(true);
+    try {
+      const response = await apiFetch(`/api/nortic-analysis/${analysisId}/cancel`, {
+        method: 'POST'
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'No se pudo cancelar el análisis');
+      }
+
+      setIsAnalyzing(false);
+      closeProgressDialog();
+    } catch (error: any) {
+      setError(error.message || 'No se pudo cancelar el análisis');
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
   const toggleDetailedResults = () => {
     setShowDetailedResults(!showDetailedResults);
   };
@@ -360,10 +836,14 @@ function App() {
     return CATEGORY_GROUPS[key] || (key.charAt(0).toUpperCase() + key.slice(1));
   };
 
-  const buildGroupedResults = (tests: TestResult[]) => {
+  const buildGroupedResults = (tests: TestResult[], categories: CategoryScore[] = []) => {
+    const labelById: Record<string, string> = {};
+    for (const c of categories) labelById[c.category_id] = c.label;
+
     const grouped: Record<string, TestResult[]> = {};
     for (const t of tests) {
-      const group = normalizeCategory(t.category || 'Otros');
+      // Los análisis antiguos no guardan category_id: se agrupan por el nombre
+      const group = (t.category_id && labelById[t.category_id]) || normalizeCategory(t.category || 'Otros');
       if (!grouped[group]) grouped[group] = [];
       grouped[group].push(t);
     }
@@ -393,7 +873,8 @@ function App() {
     setFilters({
       url: '',
       status: '',
-      institution: '',
+      institutionId: '',
+      batchId: '',
       dateFrom: '',
       dateTo: ''
     });
@@ -557,7 +1038,9 @@ function App() {
                     <>
                       <div className="mb-4">
                         <div className="text-sm text-gray-600 mb-2">
-                          {progressUpdate.currentTest || 'Preparando análisis...'}
+                          {progressUpdate.status === 'pending'
+                            ? `En cola${progressUpdate.queuePosition ? ` (posición ${progressUpdate.queuePosition})` : ''}`
+                            : progressUpdate.currentTest || 'Preparando análisis...'}
                         </div>
                         <div className="w-full bg-gray-200 rounded-full h-2">
                           <div 
@@ -569,15 +1052,53 @@ function App() {
                           {progressUpdate.progress}% completado ({progressUpdate.completedTests}/{progressUpdate.totalTests} pruebas)
                         </div>
                       </div>
+
+                      {liveTests.length > 0 && (
+                        <ul className="mb-4 max-h-56 overflow-y-auto text-left text-sm divide-y divide-gray-100 border border-gray-200 rounded-lg bg-white/70">
+                          {liveTests.map(test => (
+                            <li key={`${test.categoryId}-${test.testName}`} className="flex items-center justify-between px-3 py-1.5">
+                              <span className="flex items-center gap-2 text-gray-700">
+                                <span
+                                  className={`inline-block w-4 text-center font-bold ${
+                                    test.status === 'running' ? 'text-blue-500 animate-pulse' :
+                                    test.status === 'passed' ? 'text-green-600' :
+                                    test.status === 'warning' ? 'text-yellow-600' :
+                                    test.status === 'skipped' ? 'text-gray-400' : 'text-red-600'
+                                  }`}
+                                  aria-hidden="true"
+                                >
+                                  {test.status === 'running' ? '•' :
+                                   test.status === 'passed' ? '✓' :
+                                   test.status === 'warning' ? '!' :
+                                   test.status === 'skipped' ? '–' : '✗'}
+                                </span>
+                                {test.testName}
+                              </span>
+                              <span className="text-xs text-gray-500">
+                                {test.status === 'running' ? 'En curso' : test.score !== null ? `${test.score}/100` : ''}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
                     </>
                   )}
                   
-                  <button
-                    onClick={closeProgressDialog}
-                    className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
-                  >
-                    Cerrar
-                  </button>
+                  <div className="flex gap-3 justify-center">
+                    <button
+                      onClick={closeProgressDialog}
+                      className="px-4 py-2 bg-gray-600 text-white rounded hover:bg-gray-700 transition-colors"
+                    >
+                      Cerrar
+                    </button>
+                    <button
+                      onClick={cancelarAnalisis}
+                      disabled={isCancelling || !(currentAnalysisId || progressUpdate?.analysisId)}
+                      className="px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:bg-red-400"
+                    >
+                      {isCancelling ? 'Cancelando...' : 'Cancelar análisis'}
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
@@ -678,8 +1199,226 @@ function App() {
                 {isAnalyzing ? 'Analizando...' : 'Analizar'}
               </button>
             </div>
+            <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-700">
+              <label className="inline-flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={crawlEnabled}
+                  onChange={(e) => setCrawlEnabled(e.target.checked)}
+                  disabled={isAnalyzing}
+                />
+                Analizar todo el portal (enlaces y sitemap.xml)
+              </label>
+              {crawlEnabled && (
+                <label className="inline-flex items-center gap-2">
+                  Máximo de páginas
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={crawlMaxPages}
+                    onChange={(e) => setCrawlMaxPages(Math.max(1, Math.min(100, parseInt(e.target.value) || 1)))}
+                    disabled={isAnalyzing}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded-md"
+                  />
+                </label>
+              )}
+              {scoringProfiles.length > 1 && (
+                <label className="inline-flex items-center gap-2">
+                  Perfil de puntuación
+                  <select
+                    value={scoringProfileId}
+                    onChange={(e) => setScoringProfileId(e.target.value)}
+                    disabled={isAnalyzing}
+                    className="px-2 py-1 border border-gray-300 rounded-md"
+                  >
+                    {scoringProfiles.map((profile) => (
+                      <option key={profile.id} value={profile.is_default ? '' : profile.id}>
+                        {profile.name}{profile.is_default ? ' (predeterminado)' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              )}
+            </div>
           </div>
 
+          {/* Institution detail with score trend */}
+          {selectedInstitution && (
+            <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-md p-6 mb-8 border border-white/60">
+              <div className="flex justify-between items-start mb-6">
+                <div>
+                  <h2 className="text-2xl font-semibold text-gray-900">
+                    {selectedInstitution.acronym ? `${selectedInstitution.acronym} - ` : ''}{selectedInstitution.name}
+                  </h2>
+                  <div className="mt-2 text-sm text-gray-600 space-y-1">
+                    {selectedInstitution.sector && <div>Sector: {selectedInstitution.sector}</div>}
+                    <div>Dominios: {selectedInstitution.domains.join(', ') || 'ninguno'}</div>
+                    <div>{selectedInstitution.analysis_count} análisis registrados</div>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setSelectedInstitution(null)}
+                  className="text-gray-400 hover:text-gray-600 text-xl font-bold"
+                  title="Cerrar"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Evolución de la puntuación</h3>
+                <select
+                  value={trendGroupBy}
+                  onChange={(e) => setTrendGroupBy(e.target.value as ScoreTrend['groupBy'])}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+                >
+                  <option value="day">Por día</option>
+                  <option value="week">Por semana</option>
+                  <option value="month">Por mes</option>
+                </select>
+              </div>
+
+              {trend && trend.points.length > 0 ? (
+                <>
+                  <ScoreTrendChart trend={trend} />
+                  <table className="w-full text-sm mt-6">
+                    <thead>
+                      <tr className="text-left text-gray-600 border-b border-gray-200">
+                        <th className="py-2">Período</th>
+                        <th className="py-2">Análisis</th>
+                        <th className="py-2">General</th>
+                        {trend.categories.map(category => (
+                          <th key={category.categoryId} className="py-2">{category.label}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {trend.points.map(point => (
+                        <tr key={point.period} className="border-b border-gray-100">
+                          <td className="py-2">{point.period}</td>
+                          <td className="py-2">{point.analysisCount}</td>
+                          <td className="py-2 font-medium">{point.overallScore ?? '–'}</td>
+                          {trend.categories.map(category => (
+                            <td key={category.categoryId} className="py-2">{point.categories[category.categoryId] ?? '–'}</td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">Esta institución aún no tiene análisis completados.</p>
+              )}
+            </div>
+          )}
+
+          {/* Comparison between two analyses */}
+          {comparison && (
+            <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-md p-6 mb-8 border border-white/60">
+              <div className="flex justify-between items-start mb-6">
+                <div>
+                  <h2 className="text-2xl font-semibold text-gray-900">Comparación de análisis</h2>
+                  <div className="mt-2 text-sm text-gray-600 space-y-1">
+                    <div>
+                      <span className="font-medium">Base:</span> {comparison.base.url}
+                      {comparison.base.endTime && ` (${formatDate(comparison.base.endTime)})`}
+                    </div>
+                    <div>
+                      <span className="font-medium">Comparado:</span> {comparison.target.url}
+                      {comparison.target.endTime && ` (${formatDate(comparison.target.endTime)})`}
+                    </div>
+                  </div>
+                </div>
+                <button
+                  onClick={() => setComparison(null)}
+                  className="text-gray-400 hover:text-gray-600 text-xl font-bold"
+                  title="Cerrar"
+                >
+                  ✕
+                </button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {[
+                  { label: 'Puntuación general', value: comparison.overall },
+                  ...comparison.categories.map(category => ({ label: category.label, value: category as ScoreDelta }))
+                ].map(({ label, value }) => (
+                  <div key={label} className="text-center kpi-card">
+                    <div className="text-xs uppercase tracking-wide text-gray-600 mb-1">{label}</div>
+                    <div className="text-lg font-bold text-gray-900">
+                      {value.base ?? '–'} → {value.target ?? '–'}
+                    </div>
+                    {value.delta !== null && (
+                      <div className={`text-sm font-semibold ${
+                        value.delta > 0 ? 'text-green-600' : value.delta < 0 ? 'text-red-600' : 'text-gray-500'
+                      }`}>
+                        {value.delta > 0 ? `+${value.delta}` : value.delta}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Pruebas que cambiaron</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                {comparison.tests.summary.fixed} corregidas • {comparison.tests.summary.regressed} con regresión • {comparison.tests.summary.new} nuevas • {comparison.tests.summary.removed} eliminadas • {comparison.tests.summary.unchanged} sin cambios
+              </p>
+              {comparison.tests.changes.length > 0 ? (
+                <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg mb-6">
+                  {comparison.tests.changes.map(change => (
+                    <li key={`${change.categoryId}-${change.testName}-${change.page}`} className="flex items-center justify-between px-4 py-2 text-sm">
+                      <div>
+                        <span className="font-medium text-gray-900">{change.testName}</span>
+                        <span className="text-gray-500"> • {change.category}{change.page && ` • ${change.page}`}</span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-xs text-gray-500">{change.baseStatus ?? '–'} → {change.targetStatus ?? '–'}</span>
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                          change.change === 'fixed' ? 'bg-green-100 text-green-800' :
+                          change.change === 'regressed' ? 'bg-red-100 text-red-800' :
+                          change.change === 'new' ? 'bg-blue-100 text-blue-800' :
+                          'bg-gray-100 text-gray-800'
+                        }`}>
+                          {change.change === 'fixed' ? 'Corregida' :
+                           change.change === 'regressed' ? 'Regresión' :
+                           change.change === 'new' ? 'Nueva' : 'Eliminada'}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-500 mb-6">Ninguna prueba cambió de estado.</p>
+              )}
+
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">Violaciones de accesibilidad</h3>
+              <p className="text-sm text-gray-600 mb-3">
+                {comparison.violations.summary.resolved} resueltas • {comparison.violations.summary.added} nuevas • {comparison.violations.summary.unchanged} sin cambios
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {[
+                  { title: 'Resueltas', items: comparison.violations.resolved, color: 'text-green-700' },
+                  { title: 'Nuevas', items: comparison.violations.added, color: 'text-red-700' }
+                ].map(({ title, items, color }) => (
+                  <div key={title} className="border border-gray-200 rounded-lg p-4">
+                    <div className={`font-medium mb-2 ${color}`}>{title} ({items.length})</div>
+                    <ul className="space-y-2 text-sm">
+                      {items.map(violation => (
+                        <li key={`${violation.ruleId}-${violation.selector}-${violation.page}`}>
+                          <span className="font-medium text-gray-900">{violation.ruleId}</span>
+                          <span className="text-gray-500"> ({violation.impact})</span>
+                          {violation.selector && <code className="block text-xs text-gray-600 truncate">{violation.selector}</code>}
+                          {violation.page && <span className="block text-xs text-gray-500">{violation.page}</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Results Section - Grouped with original header */}
           {showResults && analysisResult && (
             <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-md p-6 mb-8 border border-white/60">
@@ -745,7 +1484,7 @@ function App() {
                   {Object.entries(analysisResult.categories).map(([category, result]) => (
                     <div key={category} className="bg-gray-50 rounded-lg p-4 border border-gray-200 card-hover">
                       <div className="text-sm font-medium text-gray-900 mb-1">
-                        {category.charAt(0).toUpperCase() + category.slice(1)}
+                        {result.label || category.charAt(0).toUpperCase() + category.slice(1)}
                       </div>
                       <div className="text-2xl font-bold text-blue-600 mb-1">
                         {result.score}
@@ -769,15 +1508,78 @@ function App() {
                 >
                   {showDetailedResults ? 'Cerrar' : 'Ver'} Resultados Detallados
                 </button>
+
+                {/* Reports are plain links so the browser handles the download */}
+                <div className="flex gap-3 mt-3">
+                  <a
+                    href={`${getApiBaseUrl()}/api/nortic-analysis/${analysisResult.analysisId}/report.pdf`}
+                    className="flex-1 text-center px-4 py-2 primary-btn"
+                  >
+                    Descargar informe PDF
+                  </a>
+                  <a
+                    href={`${getApiBaseUrl()}/api/nortic-analysis/${analysisResult.analysisId}/report.html?lang=es&download=true`}
+                    className="flex-1 text-center px-4 py-2 ghost-btn"
+                  >
+                    Descargar informe HTML
+                  </a>
+                </div>
               </div>
 
               {/* Detailed Results - Collapsible */}
               {showDetailedResults && detailedResults && (
                 <div className="border-t border-gray-200 pt-6">
                   <h3 className="text-xl font-semibold text-gray-900 mb-4">Resultados Detallados</h3>
+
+                  {/* Pages visited in crawl mode */}
+                  {detailedResults.pages && detailedResults.pages.length > 0 && (
+                    <div className="mb-6">
+                      <h4 className="text-lg font-semibold text-gray-900 mb-3">
+                        Páginas analizadas ({detailedResults.pages.length})
+                      </h4>
+                      <div className="space-y-2">
+                        {detailedResults.pages.map((page) => (
+                          <div key={page.id} className="border border-gray-200 rounded-lg p-3 bg-white">
+                            <div className="flex justify-between items-start gap-3">
+                              <a href={page.url} target="_blank" rel="noopener noreferrer" className="text-sm text-blue-600 hover:text-blue-800 underline underline-offset-2 break-all">
+                                {page.url}
+                              </a>
+                              <span className="text-lg font-bold text-blue-600">
+                                {page.status === 'failed' ? '—' : page.score}
+                              </span>
+                            </div>
+                            {page.status === 'failed' ? (
+                              <p className="text-xs text-red-700 mt-1">{page.error}</p>
+                            ) : (
+                              <div className="flex flex-wrap gap-1 mt-2">
+                                {page.failedTests.map((name) => (
+                                  <span key={`f-${name}`} className="px-2 py-0.5 text-xs rounded-full bg-red-100 text-red-800">{name}</span>
+                                ))}
+                                {page.warningTests.map((name) => (
+                                  <span key={`w-${name}`} className="px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">{name}</span>
+                                ))}
+                                {page.failedTests.length === 0 && page.warningTests.length === 0 && (
+                                  <span className="text-xs text-green-700">Todas las pruebas aprobadas</span>
+                                )}
+                                {page.violationCount > 0 && (
+                                  <span className="px-2 py-0.5 text-xs rounded-full bg-orange-100 text-orange-800">
+                                    {page.violationCount} violaciones de accesibilidad
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   
                   {(() => {
-                    const groups = buildGroupedResults(detailedResults.testResults);
+                    const groups = buildGroupedResults(detailedResults.testResults, detailedResults.categories);
+                    const pageUrlById: Record<number, string> = {};
+                    for (const page of detailedResults.pages || []) {
+                      pageUrlById[page.id] = page.url;
+                    }
                     const ORDER = ['Usabilidad', 'Diseño y Layout', 'Contenido', 'Seguridad', 'SEO', 'Accesibilidad'];
                     const sortedGroupNames = [
                       ...ORDER.filter((g) => g in groups),
@@ -819,6 +1621,9 @@ function App() {
                                           <div className="flex-1">
                                             <h4 className="font-medium text-gray-900">{test.test_name}</h4>
                                             <p className="text-xs text-gray-500 capitalize">{test.category}</p>
+                                            {test.page_id && pageUrlById[test.page_id] && (
+                                              <p className="text-xs text-gray-500 break-all">{pageUrlById[test.page_id]}</p>
+                                            )}
                                           </div>
                                           <div className="flex items-center gap-2">
                                             <span className="text-lg font-bold text-blue-600">{test.score}</span>
@@ -834,11 +1639,25 @@ function App() {
                                         </div>
 
                                         <p className="text-sm text-gray-700 mb-3">{test.message}</p>
+                                        {test.suppression && (
+                                          <div className="-mt-2 mb-3">
+                                            <SuppressionBadge suppression={test.suppression} />
+                                          </div>
+                                        )}
 
                                         <button onClick={toggle} className="text-sm link-btn">
-                                          {isExpanded ? 'Ocultar' : 'Ver'} detalles técnicos
+                                          {isExpanded ? 'Ocultar' : 'Ver'} {test.guidance && test.guidance.length > 0 ? 'cómo corregirlo y detalles técnicos' : 'detalles técnicos'}
                                         </button>
 
+                                        {isExpanded && test.guidance && test.guidance.length > 0 && (
+                                          <div className="mt-3 space-y-2">
+                                            <h5 className="text-sm font-semibold text-green-900">Cómo corregirlo</h5>
+                                            {test.guidance.map(guidance => (
+                                              <RemediationCard key={guidance.code} guidance={guidance} />
+                                            ))}
+                                          </div>
+                                        )}
+
                                         {isExpanded && (
                                           <div className="mt-3 p-3 bg-gray-50 rounded border border-blue-200">
                                             <pre className="text-xs text-gray-700 whitespace-pre-wrap overflow-x-auto custom-scrollbar">
@@ -882,6 +1701,7 @@ function App() {
                             {violation.selector && (
                               <p className="text-xs text-red-600 font-mono">{violation.selector}</p>
                             )}
+                            <SuppressionBadge suppression={violation.suppression} />
                           </div>
                         ))}
                       </div>
@@ -896,12 +1716,23 @@ function App() {
           <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-md p-6 border border-white/60">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-2xl font-semibold text-gray-900">Historial de Análisis</h2>
-              <button
-                onClick={() => setShowFilters(!showFilters)}
-                className="px-4 py-2 primary-btn"
-              >
-                {showFilters ? 'Ocultar' : 'Mostrar'} Filtros
-              </button>
+              <div className="flex gap-2">
+                <a href={historyExportUrl('export.csv')} className="px-4 py-2 ghost-btn">
+                  CSV
+                </a>
+                <a href={historyExportUrl('export.csv', 'tests')} className="px-4 py-2 ghost-btn">
+                  CSV de pruebas
+                </a>
+                <a href={historyExportUrl('export.xlsx')} className="px-4 py-2 ghost-btn">
+                  Excel
+                </a>
+                <button
+                  onClick={() => setShowFilters(!showFilters)}
+                  className="px-4 py-2 primary-btn"
+                >
+                  {showFilters ? 'Ocultar' : 'Mostrar'} Filtros
+                </button>
+              </div>
             </div>
 
             {/* Filters Section */}
@@ -930,6 +1761,7 @@ function App() {
                       <option value="completed">Completado</option>
                       <option value="failed">Fallido</option>
                       <option value="in_progress">En Progreso</option>
+                      <option value="cancelled">Cancelado</option>
                       <option value="pending">Pendiente</option>
                     </select>
                   </div>
@@ -937,19 +1769,37 @@ function App() {
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Institución</label>
                     <select
-                      value={filters.institution}
-                      onChange={(e) => handleFilterChange('institution', e.target.value)}
+                      value={filters.institutionId}
+                      onChange={(e) => handleFilterChange('institutionId', e.target.value)}
                       className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     >
                       <option value="">Todas las instituciones</option>
                       {institutions.map(institution => (
-                        <option key={institution} value={institution}>
-                          {institution.charAt(0).toUpperCase() + institution.slice(1)}
+                        <option key={institution.id} value={institution.id}>
+                          {institution.acronym ? `${institution.acronym} - ${institution.name}` : institution.name}
                         </option>
                       ))}
                     </select>
                   </div>
 
+                  {batches.length > 0 && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Lote</label>
+                      <select
+                        value={filters.batchId}
+                        onChange={(e) => handleFilterChange('batchId', e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Todos los lotes</option>
+                        {batches.map(batch => (
+                          <option key={batch.id} value={batch.id}>
+                            {batch.name || `Lote del ${formatDate(batch.created_at)}`} ({batch.total} sitios)
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-1">Desde</label>
                     <input
@@ -1016,7 +1866,10 @@ function App() {
                     <div key={analysis.id} className="border border-gray-200 rounded-lg p-4 card-hover">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
-                          <div className="font-medium text-gray-900">{analysis.url}</div>
+                          <div className="font-medium text-gray-900">
+                            {analysis.institution_name || extractInstitutionFromUrl(analysis.url)}
+                          </div>
+                          <div className="text-sm text-gray-500 truncate">{analysis.url}</div>
                           <div className="text-sm text-gray-600">
                             {formatDate(analysis.created_at)} • 
                             {analysis.overall_score ? ` ${analysis.overall_score} puntos` : ' Pendiente'} • 
@@ -1036,11 +1889,13 @@ function App() {
                             analysis.status === 'completed' ? 'bg-green-100 text-green-800' :
                             analysis.status === 'failed' ? 'bg-red-100 text-red-800' :
                             analysis.status === 'in_progress' ? 'bg-blue-100 text-blue-800' :
+                            analysis.status === 'cancelled' ? 'bg-gray-100 text-gray-800' :
                             'bg-yellow-100 text-yellow-800'
                           }`}>
                             {analysis.status === 'completed' ? 'Completado' :
                              analysis.status === 'failed' ? 'Fallido' : 
-                             analysis.status === 'in_progress' ? 'En Progreso' : 'Pendiente'}
+                             analysis.status === 'in_progress' ? 'En Progreso' :
+                             analysis.status === 'cancelled' ? 'Cancelado' : 'Pendiente'}
                           </span>
                           {analysis.status === 'completed' && (
                             <button
@@ -1050,6 +1905,15 @@ function App() {
                               Ver Resultados
                             </button>
                           )}
+                          {analysis.status === 'completed' && (
+                            <button
+                              onClick={() => seleccionarParaComparar(analysis.id)}
+                              className={`px-3 py-1 text-sm ${compareBaseId === analysis.id ? 'primary-btn' : 'ghost-btn'}`}
+                              title={compareBaseId && compareBaseId !== analysis.id ? 'Comparar con el análisis seleccionado' : 'Elegir como base de la comparación'}
+                            >
+                              {compareBaseId === analysis.id ? 'Base seleccionada' : compareBaseId ? 'Comparar con base' : 'Comparar'}
+                            </button>
+                          )}
                           <button
                             onClick={() => confirmDelete(analysis.id)}
                             className="p-1 text-red-600 hover:text-red-800 hover:bg-red-50 rounded transition-colors cursor-pointer"
@@ -1097,6 +1961,129 @@ function App() {
               </div>
             )}
           </div>
+
+          {/* Institution leaderboard */}
+          {ranking && (
+            <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-md p-6 mt-8 border border-white/60">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-2xl font-semibold text-gray-900">Ranking de instituciones</h2>
+                <button
+                  onClick={exportarRanking}
+                  disabled={ranking.rankings.length === 0}
+                  className="px-4 py-2 primary-btn disabled:opacity-50"
+                >
+                  Exportar CSV
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Sector</label>
+                  <select
+                    value={rankingFilters.sector}
+                    onChange={(e) => setRankingFilters(prev => ({ ...prev, sector: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">Todos los sectores</option>
+                    {Array.from(new Set(institutions.map(institution => institution.sector).filter((sector): sector is string => !!sector))).sort().map(sector => (
+                      <option key={sector} value={sector}>{sector}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Fecha de corte</label>
+                  <input
+                    type="date"
+                    value={rankingFilters.dateTo}
+                    onChange={(e) => setRankingFilters(prev => ({ ...prev, dateTo: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Comparar con</label>
+                  <select
+                    value={rankingFilters.period}
+                    onChange={(e) => setRankingFilters(prev => ({ ...prev, period: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="week">La semana anterior</option>
+                    <option value="month">El mes anterior</option>
+                    <option value="quarter">El trimestre anterior</option>
+                    <option value="year">El año anterior</option>
+                  </select>
+                </div>
+              </div>
+
+              {ranking.rankings.length > 0 ? (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-600 border-b border-gray-200">
+                      <th className="py-2">#</th>
+                      <th className="py-2">Cambio</th>
+                      <th className="py-2">Institución</th>
+                      <th className="py-2">Sector</th>
+                      <th className="py-2">Puntuación</th>
+                      <th className="py-2">Nivel</th>
+                      <th className="py-2">Último análisis</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {ranking.rankings.map(row => (
+                      <tr key={row.institutionId} className="border-b border-gray-100">
+                        <td className="py-2 font-semibold">{row.position}</td>
+                        <td className={`py-2 ${
+                          row.positionChange === null ? 'text-blue-600' :
+                          row.positionChange > 0 ? 'text-green-600' :
+                          row.positionChange < 0 ? 'text-red-600' : 'text-gray-500'
+                        }`}>
+                          {row.positionChange === null ? 'Nuevo' :
+                           row.positionChange > 0 ? `▲ ${row.positionChange}` :
+                           row.positionChange < 0 ? `▼ ${-row.positionChange}` : '='}
+                        </td>
+                        <td className="py-2">{row.acronym ? `${row.acronym} - ` : ''}{row.name}</td>
+                        <td className="py-2">{row.sector || '–'}</td>
+                        <td className="py-2 font-medium">{row.overallScore ?? '–'}</td>
+                        <td className="py-2">{row.complianceLevel || '–'}</td>
+                        <td className="py-2 text-gray-500">{formatDate(row.completedAt)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-gray-500">No hay instituciones con análisis completados hasta esta fecha.</p>
+              )}
+            </div>
+          )}
+
+          {/* Registered institutions */}
+          {institutions.length > 0 && (
+            <div className="bg-white/80 backdrop-blur-sm rounded-xl shadow-md p-6 mt-8 border border-white/60">
+              <h2 className="text-2xl font-semibold text-gray-900 mb-4">Instituciones</h2>
+              <div className="space-y-2">
+                {institutions.map(institution => (
+                  <div key={institution.id} className="flex items-center justify-between border border-gray-200 rounded-lg px-4 py-3">
+                    <div>
+                      <div className="font-medium text-gray-900">
+                        {institution.acronym ? `${institution.acronym} - ` : ''}{institution.name}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {institution.sector ? `${institution.sector} • ` : ''}{institution.analysis_count} análisis
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => {
+                        setSelectedInstitution(institution);
+                        window.scrollTo({ top: 0, behavior: 'smooth' });
+                      }}
+                      className="px-3 py-1 ghost-btn text-sm"
+                    >
+                      Ver detalle
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { dbManager } from '../models/database';
+import { NorticAnalyzer } from '../services/nortic-analyzer';
+import { parseThresholds, readUrls, run } from '../cli';
+
+jest.mock('../models/database', () => ({
+  dbManager: { initialize: jest.fn(), close: jest.fn() }
+}));
+
+const mockAnalyzer = {
+  analyze: jest.fn(),
+  getAnalysisResult: jest.fn(),
+  close: jest.fn()
+};
+
+jest.mock('../services/nortic-analyzer', () => ({
+  NorticAnalyzer: jest.fn(() => mockAnalyzer)
+}));
+
+let tmpDir: string;
+let stdout: string;
+let stderr: string;
+
+const writeInput = (name: string, content: string) => {
+  const file = path.join(tmpDir, name);
+  fs.writeFileSync(file, content);
+  return file;
+};
+
+const result = (overallScore: number, categories: { [categoryId: string]: number }) => ({
+  analysisId: 'a1',
+  url: 'https://mopc.gob.do',
+  overallScore,
+  complianceLevel: 'Cumple',
+  categories: Object.fromEntries(Object.entries(categories).map(([id, score]) => [id, { label: id, score, status: 'passed' }])),
+  startTime: '2025-03-14T10:00:00.000Z',
+  endTime: '2025-03-14T10:01:00.000Z',
+  duration: 60
+});
+
+beforeAll(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'nortic-cli-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  stdout = '';
+  stderr = '';
+  jest.spyOn(process.stdout, 'write').mockImplementation((chunk: any) => {
+    stdout += chunk;
+    return true;
+  });
+  jest.spyOn(process.stderr, 'write').mockImplementation((chunk: any) => {
+    stderr += chunk;
+    return true;
+  });
+  mockAnalyzer.analyze.mockResolvedValue(undefined);
+  mockAnalyzer.getAnalysisResult.mockResolvedValue(result(85, { seguridad: 85, seo: 90 }));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseThresholds', () => {
+  it('applies a bare value to the overall score and every category, and id=n to one category', () => {
+    expect(parseThresholds(['70', 'security=90', 'SEO=85.5'])).toEqual({
+      overall: 70,
+      categoryDefault: 70,
+      categories: { seguridad: 90, seo: 85.5 }
+    });
+    expect(parseThresholds([])).toEqual({ overall: null, categoryDefault: null, categories: {} });
+  });
+
+  it('rejects unknown categories and scores outside 0-100', () => {
+    expect(() => parseThresholds(['rendimiento=80'])).toThrow('Unknown category in --min-score: rendimiento');
+    expect(() => parseThresholds(['101'])).toThrow('--min-score must be a number between 0 and 100');
+    expect(() => parseThresholds(['seo=-1'])).toThrow('--min-score seo must be a number between 0 and 100');
+    expect(() => parseThresholds(['seo='])).toThrow('--min-score seo must be a number between 0 and 100');
+    expect(() => parseThresholds(['alto'])).toThrow('--min-score must be a number between 0 and 100');
+  });
+});
+
+describe('readUrls', () => {
+  it('adds the URLs of a CSV file, skipping # comments and duplicates', () => {
+    const input = writeInput('urls.csv', 'nombre,url\nMOPC,https://mopc.gob.do\nMINERD,"https://minerd.gob.do"\n');
+    expect(readUrls(['https://mopc.gob.do'], input)).toEqual(['https://mopc.gob.do', 'https://minerd.gob.do']);
+
+    const list = writeInput('urls.txt', '# Ministerios\nhttps://mopc.gob.do\n\n  # pendiente\nhttps://salud.gob.do\n');
+    expect(readUrls([], list)).toEqual(['https://mopc.gob.do', 'https://salud.gob.do']);
+  });
+
+  it('rejects non-http URLs, a missing file and an empty list', () => {
+    expect(() => readUrls(['ftp://mopc.gob.do'])).toThrow('Invalid URL format: ftp://mopc.gob.do');
+    expect(() => readUrls(['mopc.gob.do'])).toThrow('Invalid URL format: mopc.gob.do');
+    expect(() => readUrls([], path.join(tmpDir, 'missing.txt'))).toThrow('Input file not found');
+    expect(() => readUrls([], writeInput('empty.txt', '# nada\n'))).toThrow('At least one URL is required');
+  });
+});
+
+describe('run', () => {
+  it('exits with 0 when every score meets its threshold, keeping the analyzer log out of stdout', async () => {
+    expect(await run(['-m', '80', '-f', 'json', 'https://mopc.gob.do'])).toBe(0);
+
+    expect(JSON.parse(stdout)).toMatchObject({ passed: true, results: [{ url: 'https://mopc.gob.do', failures: [] }] });
+    expect(NorticAnalyzer).toHaveBeenCalledWith({ logger: expect.objectContaining({ log: expect.any(Function) }) });
+    expect(dbManager.initialize).toHaveBeenCalledWith(expect.objectContaining({ error: expect.any(Function) }));
+    expect(mockAnalyzer.close).toHaveBeenCalled();
+    expect(dbManager.close).toHaveBeenCalled();
+  });
+
+  it('exits with 1 when a score is below its threshold or an analysis fails', async () => {
+    expect(await run(['-m', 'seguridad=90', 'https://mopc.gob.do'])).toBe(1);
+    expect(stdout).toContain('https://mopc.gob.do por debajo del umbral: seguridad: 85 < 90');
+
+    mockAnalyzer.analyze.mockRejectedValueOnce(new Error('net::ERR_NAME_NOT_RESOLVED'));
+    expect(await run(['https://caido.gob.do'])).toBe(1);
+    expect(stdout).toContain('https://caido.gob.do: net::ERR_NAME_NOT_RESOLVED');
+  });
+
+  it('exits with 2 on invalid arguments without starting an analysis', async () => {
+    expect(await run(['-f', 'xml', 'https://mopc.gob.do'])).toBe(2);
+    expect(await run(['--unknown', 'https://mopc.gob.do'])).toBe(2);
+    expect(await run(['-m', 'rendimiento=80', 'https://mopc.gob.do'])).toBe(2);
+    expect(await run(['-c', 'rendimiento', 'https://mopc.gob.do'])).toBe(2);
+    expect(await run([])).toBe(2);
+
+    expect(stderr).toContain('Error: --format must be one of: json, junit, table');
+    expect(stderr).toContain('Use --help to see the available options');
+    expect(dbManager.initialize).not.toHaveBeenCalled();
+    expect(mockAnalyzer.analyze).not.toHaveBeenCalled();
+  });
+});
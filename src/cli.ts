@@ -0,0 +1,303 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { v4 as uuidv4 } from 'uuid';
+import { dbManager } from './models/database';
+import { NorticAnalyzer, AnalysisOptions, AnalysisResult } from './services/nortic-analyzer';
+import { testerRegistry, validateTestCategories } from './tests/registry';
+import { parseUrlCsv } from './services/batches';
+import { loadReportData, ReportData } from './services/reports';
+import { AnalysisError, renderJUnit } from './services/ci-formats';
+import { Logger } from './services/logger';
+
+type OutputFormat = 'json' | 'junit' | 'table';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'junit', 'table'];
+
+// 0: every analysis met its thresholds; 1: a score was below its threshold or an analysis failed; 2: invalid arguments
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Uso: nortic-validate [opciones] <url...>
+
+Analiza uno o varios sitios con las pruebas NORTIC A2 sin levantar el servidor.
+
+Opciones:
+  -c, --categories <ids>     Categorías a ejecutar, separadas por coma (${testerRegistry.ids().join(', ')})
+  -m, --min-score <n>        Puntuación mínima de la puntuación general y de cada categoría
+  -m, --min-score <id>=<n>   Puntuación mínima de una categoría (se puede repetir)
+  -f, --format <formato>     Salida: table (por defecto), json o junit
+  -i, --input <archivo>      Archivo con URLs, una por línea o un CSV con columna "url"
+      --in-memory            No guardar los análisis en la base de datos
+      --profile <id>         Perfil de puntuación
+      --timeout <ms>         Tiempo máximo de carga de cada página
+  -v, --verbose              Mostrar el registro del analizador en stderr
+  -h, --help                 Mostrar esta ayuda
+
+Termina con código 0 si todo cumple los umbrales, 1 si alguna puntuación queda por debajo
+o algún análisis falla, y 2 si los argumentos no son válidos.`;
+
+interface Thresholds {
+  overall: number | null;
+  categoryDefault: number | null;
+  categories: { [categoryId: string]: number };
+}
+
+interface UrlOutcome {
+  url: string;
+  analysisId: string;
+  result: AnalysisResult | null;
+  error: string | null;
+  // Thresholds that were not met, e.g. "seguridad: 65 < 80"
+  failures: string[];
+}
+
+class UsageError extends Error {}
+
+// stdout carries only the report; the analyzer's log goes to stderr with --verbose and is dropped otherwise
+const STDERR_LOGGER: Logger = {
+  log: (...args: unknown[]) => console.error(...args),
+  error: (...args: unknown[]) => console.error(...args)
+};
+const SILENT_LOGGER: Logger = { log: () => undefined, error: () => undefined };
+
+function parseScore(value: string, option: string): number {
+  const score = Number(value);
+  if (value.trim() === '' || !Number.isFinite(score) || score < 0 || score > 100) {
+    throw new UsageError(`${option} must be a number between 0 and 100`);
+  }
+  return score;
+}
+
+export function parseThresholds(values: string[]): Thresholds {
+  const thresholds: Thresholds = { overall: null, categoryDefault: null, categories: {} };
+
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator === -1) {
+      thresholds.overall = parseScore(value, '--min-score');
+      thresholds.categoryDefault = thresholds.overall;
+      continue;
+    }
+
+    const key = value.slice(0, separator);
+    const definition = testerRegistry.get(key);
+    if (!definition) {
+      throw new UsageError(`Unknown category in --min-score: ${key}`);
+    }
+    thresholds.categories[definition.id] = parseScore(value.slice(separator + 1), `--min-score ${key}`);
+  }
+
+  return thresholds;
+}
+
+export function readUrls(positionals: string[], input?: string): string[] {
+  const urls = [...positionals];
+  if (input) {
+    if (!fs.existsSync(input)) {
+      throw new UsageError(`Input file not found: ${input}`);
+    }
+    urls.push(...parseUrlCsv(fs.readFileSync(input, 'utf8')).filter(url => !url.startsWith('#')));
+  }
+
+  const unique = Array.from(new Set(urls.map(url => url.trim()).filter(url => url.length > 0)));
+  if (unique.length === 0) {
+    throw new UsageError('At least one URL is required');
+  }
+
+  for (const url of unique) {
+    let protocol: string | null = null;
+    try {
+      protocol = new URL(url).protocol;
+    } catch {
+      // reported below
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      throw new UsageError(`Invalid URL format: ${url}`);
+    }
+  }
+
+  return unique;
+}
+
+function checkThresholds(result: AnalysisResult, thresholds: Thresholds): string[] {
+  const failures: string[] = [];
+  if (thresholds.overall !== null && result.overallScore < thresholds.overall) {
+    failures.push(`general: ${result.overallScore} < ${thresholds.overall}`);
+  }
+
+  for (const [categoryId, category] of Object.entries(result.categories)) {
+    const minimum = thresholds.categories[categoryId] ?? thresholds.categoryDefault;
+    if (minimum !== null && category.score < minimum) {
+      failures.push(`${categoryId}: ${category.score} < ${minimum}`);
+    }
+  }
+
+  return failures;
+}
+
+function renderTable(outcomes: UrlOutcome[]): string {
+  const categoryIds = testerRegistry.ids().filter(categoryId =>
+    outcomes.some(outcome => outcome.result && outcome.result.categories[categoryId])
+  );
+
+  const header = ['URL', 'General', 'Nivel', ...categoryIds, 'Resultado'];
+  const rows = outcomes.map(outcome => [
+    outcome.url,
+    outcome.result ? String(outcome.result.overallScore) : '-',
+    outcome.result ? outcome.result.complianceLevel : '-',
+    ...categoryIds.map(categoryId => {
+      const category = outcome.result?.categories[categoryId];
+      return category ? String(category.score) : '-';
+    }),
+    outcome.error ? 'ERROR' : outcome.failures.length > 0 ? 'NO CUMPLE' : 'CUMPLE'
+  ]);
+
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+
+  const lines = [line(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(line)];
+
+  for (const outcome of outcomes) {
+    if (outcome.error) {
+      lines.push('', `${outcome.url}: ${outcome.error}`);
+    } else if (outcome.failures.length > 0) {
+      lines.push('', `${outcome.url} por debajo del umbral: ${outcome.failures.join(', ')}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+async function validateUrl(analyzer: NorticAnalyzer, url: string, options: AnalysisOptions, thresholds: Thresholds): Promise<UrlOutcome> {
+  const analysisId = uuidv4();
+  process.stderr.write(`Analizando ${url}...\n`);
+
+  try {
+    await analyzer.analyze(url, analysisId, options);
+    const result = await analyzer.getAnalysisResult(analysisId);
+    return { url, analysisId, result, error: null, failures: checkThresholds(result!, thresholds) };
+  } catch (error) {
+    return { url, analysisId, result: null, error: error instanceof Error ? error.message : String(error), failures: [] };
+  }
+}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      categories: { type: 'string', short: 'c' },
+      'min-score': { type: 'string', short: 'm', multiple: true },
+      format: { type: 'string', short: 'f', default: 'table' },
+      input: { type: 'string', short: 'i' },
+      'in-memory': { type: 'boolean' },
+      profile: { type: 'string' },
+      timeout: { type: 'string' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE + '\n');
+    return EXIT_PASSED;
+  }
+
+  const format = values.format as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new UsageError(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+  }
+
+  const categoryValidation = validateTestCategories(
+    values.categories ? values.categories.split(',').map(category => category.trim()).filter(Boolean) : undefined
+  );
+  if (categoryValidation.valid === false) {
+    throw new UsageError(categoryValidation.error);
+  }
+
+  const timeout = values.timeout !== undefined ? parseInt(values.timeout, 10) : undefined;
+  if (timeout !== undefined && (Number.isNaN(timeout) || timeout <= 0)) {
+    throw new UsageError('--timeout must be a positive number of milliseconds');
+  }
+
+  const thresholds = parseThresholds(values['min-score'] || []);
+  const urls = readUrls(positionals, values.input);
+
+  const logger = values.verbose ? STDERR_LOGGER : SILENT_LOGGER;
+
+  if (values['in-memory']) {
+    process.env.DATABASE_PATH = ':memory:';
+  }
+  await dbManager.initialize(logger);
+  const analyzer = new NorticAnalyzer({ logger });
+
+  const options: AnalysisOptions = {
+    testCategories: categoryValidation.categories,
+    timeout,
+    scoringProfile: values.profile
+  };
+
+  const outcomes: UrlOutcome[] = [];
+  try {
+    for (const url of urls) {
+      outcomes.push(await validateUrl(analyzer, url, options, thresholds));
+    }
+
+    if (format === 'json') {
+      process.stdout.write(JSON.stringify({
+        passed: outcomes.every(outcome => !outcome.error && outcome.failures.length === 0),
+        thresholds,
+        results: outcomes
+      }, null, 2) + '\n');
+    } else if (format === 'junit') {
+      const reports: ReportData[] = [];
+      const errors: AnalysisError[] = [];
+      for (const outcome of outcomes) {
+        if (outcome.error) {
+          errors.push({ url: outcome.url, message: outcome.error });
+          continue;
+        }
+        const report = await loadReportData(outcome.analysisId);
+        if (report.valid === false) {
+          errors.push({ url: outcome.url, message: report.error });
+        } else {
+          reports.push(report.data);
+        }
+      }
+      process.stdout.write(renderJUnit(reports, errors));
+    } else {
+      process.stdout.write(renderTable(outcomes));
+    }
+
+    // Machine-readable formats keep the summary on stderr so it still shows in CI logs
+    if (format !== 'table') {
+      process.stderr.write(renderTable(outcomes));
+    }
+  } finally {
+    await analyzer.close();
+    await dbManager.close();
+  }
+
+  return outcomes.every(outcome => !outcome.error && outcome.failures.length === 0) ? EXIT_PASSED : EXIT_FAILED;
+}
+
+// Runs the command and returns its exit code; argument and unexpected errors are reported on stderr
+export async function run(argv: string[]): Promise<number> {
+  try {
+    return await main(argv);
+  } catch (error: any) {
+    // parseArgs reports unknown or malformed options with ERR_PARSE_ARGS_* codes
+    const usage = error instanceof UsageError || String(error?.code || '').startsWith('ERR_PARSE_ARGS');
+    process.stderr.write(`${usage ? 'Error' : 'Unexpected error'}: ${error instanceof Error ? error.message : error}\n`);
+    if (usage) process.stderr.write('Use --help to see the available options\n');
+    return usage ? EXIT_USAGE : EXIT_FAILED;
+  }
+}
+
+if (require.main === module) {
+  run(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+  });
+}
@@ -4,8 +4,26 @@ import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
 import swaggerUi from 'swagger-ui-express';
 import swaggerJSDoc from 'swagger-jsdoc';
-import { dbManager, PaginationOptions, AnalysisFilters, AnalysisSorting } from './models/database';
+import { dbManager, PaginationOptions, AnalysisFilters, AnalysisSorting, ANALYSIS_SORT_FIELDS } from './models/database';
 import { norticAnalyzer, ProgressUpdate } from './services/nortic-analyzer';
+import { analysisQueue } from './services/analysis-queue';
+import { progressHub, isTerminalStatus, ProgressEvent } from './services/progress-hub';
+import { testerRegistry, validateTestCategories } from './tests/registry';
+import { validateScoringProfile } from './services/scoring';
+import { webhookDispatcher, validateWebhook, withoutSecret } from './services/webhooks';
+import { createBatch, getBatchStatus, parseUrlCsv, validateBatchUrls } from './services/batches';
+import { validateInstitution } from './services/institutions';
+import { validateSuppression, withExpiry } from './services/suppressions';
+import { compareAnalyses } from './services/analysis-comparison';
+import { validateCrawlOptions } from './services/site-crawler';
+import { getScoreTrend, normalizeAnalysisUrl, TREND_GROUPINGS, TrendGrouping } from './services/trends';
+import { getRankings, RANKING_PERIODS, RankingPeriod } from './services/rankings';
+import { parseDateBound } from './services/date-range';
+import { escapeHtml, loadReportData, renderReportHtml, reportFileName, REPORT_LANGUAGES, ReportLanguage } from './services/reports';
+import { renderJUnit, renderSarif } from './services/ci-formats';
+import { EXPORT_SHEETS, ExportSheet, exportFileName, writeCsvExport, writeXlsxExport } from './services/exports';
+import { REQUIREMENTS_CATALOG, getRequirementCoverage } from './services/requirements-catalog';
+import { getRemediationCatalog } from './services/remediation-catalog';
 import swaggerSpec from '../swagger-spec.json';
 
 const app = express();
@@ -18,6 +36,12 @@ const io = new SocketIOServer(server, {
 });
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
+// Optional: when set, joining the admin progress channel requires this token
+const ADMIN_SOCKET_TOKEN = process.env.ADMIN_SOCKET_TOKEN || '';
+const ADMIN_ROOM = 'admin';
+const analysisRoom = (analysisId: string) => `analysis:${analysisId}`;
+// Comment lines keep idle SSE connections open through proxies
+const SSE_KEEPALIVE_MS = 15000;
 
 // Middleware
 app.use(cors());
@@ -195,10 +219,57 @@ async function initializeApp() {
   }
 }
 
+// Every queued analysis reports its progress through the hub
+analysisQueue.setProgressHandler((update: ProgressUpdate) => {
+  console.log(`[PROGRESS] Analysis ${update.analysisId}: ${update.progress}% - ${update.currentTest || 'N/A'} (${update.completedTests}/${update.totalTests})`);
+  progressHub.publish(update);
+});
+
+// Finished analyses notify the webhook subscribers
+progressHub.subscribe((update: ProgressUpdate) => webhookDispatcher.handleProgress(update));
+
+// Progress only reaches the clients following that analysis, plus the admin channel
+progressHub.subscribe((update: ProgressUpdate) => {
+  io.to(analysisRoom(update.analysisId)).to(ADMIN_ROOM).emit('analysis-progress', update);
+});
+
 // WebSocket connection handling
 io.on('connection', (socket) => {
   console.log('Client connected:', socket.id);
 
+  // The latest state is replayed on join, so events sent before subscribing aren't lost
+  socket.on('subscribe-analysis', async (analysisId: string) => {
+    if (typeof analysisId !== 'string' || !analysisId) return;
+
+    socket.join(analysisRoom(analysisId));
+    try {
+      const latest = await progressHub.getLatest(analysisId);
+      if (latest) {
+        socket.emit('analysis-progress', latest);
+      }
+    } catch (error) {
+      console.error(`[ERROR] Failed to replay progress for analysis ${analysisId}:`, error);
+    }
+  });
+
+  socket.on('unsubscribe-analysis', (analysisId: string) => {
+    if (typeof analysisId !== 'string' || !analysisId) return;
+    socket.leave(analysisRoom(analysisId));
+  });
+
+  socket.on('subscribe-admin', (token?: string) => {
+    if (ADMIN_SOCKET_TOKEN && token !== ADMIN_SOCKET_TOKEN) {
+      console.log(`[WARNING] Rejected admin progress subscription from ${socket.id}`);
+      socket.emit('subscription-error', { error: 'Invalid admin token' });
+      return;
+    }
+
+    socket.join(ADMIN_ROOM);
+    for (const update of progressHub.getActive()) {
+      socket.emit('analysis-progress', update);
+    }
+  });
+
   socket.on('disconnect', () => {
     console.log('Client disconnected:', socket.id);
   });
@@ -226,6 +297,12 @@ io.on('connection', (socket) => {
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/AnalysisStartResponse'
+ *       400:
+ *         description: URL inválida, categorías de prueba desconocidas o vacías u opciones de rastreo inválidas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
  */
 app.post('/api/nortic-analysis', async (req, res) => {
   try {
@@ -242,53 +319,41 @@ app.post('/api/nortic-analysis', async (req, res) => {
       return res.status(400).json({ error: 'Invalid URL format' });
     }
 
-    console.log(`[INFO] Starting analysis for URL: ${url}`);
+    const categoryValidation = validateTestCategories(testCategories);
+    if (categoryValidation.valid === false) {
+      return res.status(400).json({
+        error: categoryValidation.error,
+        validValues: categoryValidation.validValues
+      });
+    }
+
+    if (options?.crawl !== undefined) {
+      const crawlValidation = validateCrawlOptions(options.crawl);
+      if (crawlValidation.valid === false) {
+        return res.status(400).json({ error: 'Invalid crawl options', details: crawlValidation.errors.join('; ') });
+      }
+    }
+
+    if (options?.scoringProfile && !(await dbManager.getScoringProfile(options.scoringProfile))) {
+      return res.status(400).json({ error: `Scoring profile not found: ${options.scoringProfile}` });
+    }
+
+    console.log(`[INFO] Queueing analysis for URL: ${url}`);
+
+    const { analysisId, queuePosition } = await analysisQueue.enqueue(url, {
+      ...options,
+      testCategories: categoryValidation.categories
+    });
 
-    // Generate analysis ID first
-    const analysisId = require('uuid').v4();
-    
-    // Set up progress callback BEFORE starting analysis
-    const progressCallback = (update: ProgressUpdate) => {
-      console.log(`[PROGRESS] Analysis ${analysisId}: ${update.progress}% - ${update.currentTest || 'N/A'} (${update.completedTests}/${update.totalTests})`);
-      io.emit('analysis-progress', update);
-    };
-    
-    // Configure callback with the real ID
-    norticAnalyzer.setProgressCallback(analysisId, progressCallback);
-    
-    // Return response immediately
     res.json({
       analysisId,
       url,
-      status: 'in_progress',
+      status: 'pending',
+      queuePosition,
       startTime: new Date().toISOString(),
       estimatedDuration: 120
     });
 
-    // Start analysis asynchronously (don't await here)
-    norticAnalyzer.analyze(url, analysisId, {
-      testCategories,
-      ...options
-    }).then((completedAnalysisId) => {
-      console.log(`[SUCCESS] Analysis completed: ${completedAnalysisId}`);
-      // Clean up callback after completion
-      norticAnalyzer.removeProgressCallback(analysisId);
-    }).catch((error) => {
-      console.error(`[ERROR] Analysis failed for ${analysisId}:`, error);
-      // Send final error update
-      progressCallback({
-        analysisId,
-        status: 'failed',
-        progress: 0,
-        currentTest: null,
-        completedTests: 0,
-        totalTests: 36,
-        error: error.message || 'Error desconocido durante el análisis'
-      });
-      // Clean up callback after error
-      norticAnalyzer.removeProgressCallback(analysisId);
-    });
-
   } catch (error: any) {
     console.error('Analysis startup error:', error);
     res.status(500).json({ 
@@ -329,6 +394,13 @@ app.get('/api/nortic-analysis/:analysisId/status', async (req, res) => {
       return res.status(404).json({ error: 'Analysis not found' });
     }
 
+    if (status.status === 'pending') {
+      return res.json({
+        ...status,
+        queuePosition: await analysisQueue.getQueuePosition(analysisId)
+      });
+    }
+
     res.json(status);
   } catch (error) {
     console.error('Status error:', error);
@@ -339,6 +411,185 @@ app.get('/api/nortic-analysis/:analysisId/status', async (req, res) => {
   }
 });
 
+/**
+ * @swagger
+ * /api/nortic-analysis/{analysisId}/events:
+ *   get:
+ *     summary: Flujo de progreso (Server-Sent Events)
+ *     description: Envía como Server-Sent Events los mismos ProgressUpdate que Socket.IO, para clientes que no pueden usar WebSocket. Cada evento lleva un id secuencial; con la cabecera Last-Event-ID se reanuda desde el evento siguiente. Si el evento indicado ya no se conserva se envía el último estado. El flujo se cierra al llegar a completed, failed o cancelled
+ *     tags: [Análisis NORTIC]
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: header
+ *         name: Last-Event-ID
+ *         required: false
+ *         schema:
+ *           type: integer
+ *         description: Último id de evento recibido
+ *     responses:
+ *       200:
+ *         description: Flujo de eventos; el campo data de cada evento es un ProgressUpdate en JSON
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               $ref: '#/components/schemas/ProgressUpdate'
+ *       404:
+ *         description: Análisis no encontrado
+ */
+app.get('/api/nortic-analysis/:analysisId/events', async (req, res) => {
+  const { analysisId } = req.params;
+
+  try {
+    const analysis = await dbManager.getAnalysis(analysisId);
+    if (!analysis) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+  } catch (error) {
+    console.error('Progress stream error:', error);
+    return res.status(500).json({ 
+      error: 'Failed to open progress stream',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    // Nginx would otherwise buffer the stream
+    'X-Accel-Buffering': 'no'
+  });
+
+  let closed = false;
+  let lastSentId = 0;
+  let replayed = false;
+  const queued: ProgressEvent[] = [];
+
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), SSE_KEEPALIVE_MS);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe();
+    res.end();
+  };
+
+  const send = (update: ProgressUpdate, eventId?: number) => {
+    if (closed) return;
+    if (eventId !== undefined) {
+      if (eventId <= lastSentId) return;
+      lastSentId = eventId;
+      res.write(`id: ${eventId}\n`);
+    }
+    res.write(`data: ${JSON.stringify(update)}\n\n`);
+    if (isTerminalStatus(update.status)) {
+      close();
+    }
+  };
+
+  // Subscribed before the replay so nothing published meanwhile is lost; duplicates are skipped by id
+  const unsubscribe = progressHub.subscribe((update, eventId) => {
+    if (update.analysisId !== analysisId) return;
+    if (replayed) {
+      send(update, eventId);
+    } else {
+      queued.push({ id: eventId, update });
+    }
+  });
+  req.on('close', close);
+
+  try {
+    const lastEventId = parseInt(req.get('Last-Event-ID') || '', 10);
+    const latestEvent = progressHub.getLatestEvent(analysisId);
+    const resumed = Number.isNaN(lastEventId) ? null : progressHub.getEventsSince(analysisId, lastEventId);
+
+    if (resumed && latestEvent && lastEventId <= latestEvent.id) {
+      resumed.forEach(event => send(event.update, event.id));
+    } else if (latestEvent) {
+      send(latestEvent.update, latestEvent.id);
+    } else {
+      const latest = await progressHub.getLatest(analysisId);
+      if (latest && queued.length === 0) {
+        send(latest);
+      }
+    }
+  } catch (error) {
+    console.error(`[ERROR] Failed to replay progress stream for analysis ${analysisId}:`, error);
+  }
+
+  replayed = true;
+  queued.forEach(event => send(event.update, event.id));
+});
+
+/**
+ * @swagger
+ * /api/nortic-analysis/{analysisId}/cancel:
+ *   post:
+ *     summary: Cancelar análisis
+ *     description: Cancela un análisis en cola o en ejecución. Si está en ejecución se detiene la prueba actual y se cierra la página; el análisis queda en estado cancelled y se envía un último evento de progreso
+ *     tags: [Análisis NORTIC]
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Análisis cancelado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 analysisId:
+ *                   type: string
+ *                   format: uuid
+ *                 status:
+ *                   type: string
+ *                   example: cancelled
+ *       404:
+ *         description: Análisis no encontrado
+ *       409:
+ *         description: El análisis ya terminó o no se está ejecutando en este servidor
+ */
+app.post('/api/nortic-analysis/:analysisId/cancel', async (req, res) => {
+  try {
+    const { analysisId } = req.params;
+    const analysis = await dbManager.getAnalysis(analysisId);
+
+    if (!analysis) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+
+    if (analysis.status !== 'pending' && analysis.status !== 'in_progress') {
+      return res.status(409).json({ error: `Analysis already finished. Status: ${analysis.status}` });
+    }
+
+    const cancelled = await analysisQueue.cancel(analysisId);
+    if (!cancelled) {
+      // Saving its results, or running in another process sharing the database
+      return res.status(409).json({ error: 'Analysis cannot be cancelled at this point' });
+    }
+
+    console.log(`[SUCCESS] Analysis cancelled: ${analysisId}`);
+    res.json({ analysisId, status: 'cancelled' });
+  } catch (error) {
+    console.error('Cancel analysis error:', error);
+    res.status(500).json({ 
+      error: 'Failed to cancel analysis',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 /**
  * @swagger
  * /api/nortic-analysis/{analysisId}/results:
@@ -423,11 +674,11 @@ app.get('/api/nortic-analysis/:analysisId/detailed', async (req, res) => {
 
 /**
  * @swagger
- * /api/nortic-analysis/{analysisId}:
- *   delete:
- *     summary: Borrar análisis
- *     description: Elimina completamente un análisis y todos sus datos relacionados (test_results, accessibility_violations)
- *     tags: [Análisis NORTIC]
+ * /api/nortic-analysis/{analysisId}/requirements:
+ *   get:
+ *     summary: Cumplimiento por requisito NORTIC A2
+ *     description: Evalúa cada requisito del catálogo con las pruebas que lo respaldan. Los requisitos que no se pueden verificar automáticamente aparecen con estado manual_review
+ *     tags: [Resultados]
  *     parameters:
  *       - in: path
  *         name: analysisId
@@ -435,72 +686,30 @@ app.get('/api/nortic-analysis/:analysisId/detailed', async (req, res) => {
  *         schema:
  *           type: string
  *           format: uuid
- *         description: ID único del análisis a eliminar
  *     responses:
  *       200:
- *         description: Análisis eliminado exitosamente
+ *         description: Cumplimiento por requisito obtenido exitosamente
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 success:
- *                   type: boolean
- *                   example: true
- *                 message:
- *                   type: string
- *                   example: "Análisis eliminado exitosamente"
- *                 analysisId:
- *                   type: string
- *                   format: uuid
- *                   example: "123e4567-e89b-12d3-a456-426614174000"
+ *               $ref: '#/components/schemas/RequirementsCompliance'
  *       404:
  *         description: Análisis no encontrado
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 error:
- *                   type: string
- *                   example: "Analysis not found"
- *       500:
- *         description: Error interno del servidor
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/ErrorResponse'
  */
-app.delete('/api/nortic-analysis/:analysisId', async (req, res) => {
+app.get('/api/nortic-analysis/:analysisId/requirements', async (req, res) => {
   try {
     const { analysisId } = req.params;
-    
-    console.log(`[INFO] Attempting to delete analysis: ${analysisId}`);
-    
-    // Check if analysis exists first
-    const analysis = await dbManager.getAnalysis(analysisId);
-    if (!analysis) {
+    const compliance = await norticAnalyzer.getRequirementsCompliance(analysisId);
+
+    if (!compliance) {
       return res.status(404).json({ error: 'Analysis not found' });
     }
-    
-    // Delete the analysis and all related data
-    const deleted = await dbManager.deleteAnalysis(analysisId);
-    
-    if (deleted) {
-      console.log(`[SUCCESS] Analysis deleted: ${analysisId}`);
-      res.json({
-        success: true,
-        message: 'Análisis eliminado exitosamente',
-        analysisId
-      });
-    } else {
-      console.log(`[WARNING] Analysis not found for deletion: ${analysisId}`);
-      res.status(404).json({ error: 'Analysis not found' });
-    }
+
+    res.json(compliance);
   } catch (error) {
-    console.error('Delete analysis error:', error);
+    console.error('Requirements compliance error:', error);
     res.status(500).json({ 
-      error: 'Failed to delete analysis',
+      error: 'Failed to get requirements compliance',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -508,47 +717,389 @@ app.delete('/api/nortic-analysis/:analysisId', async (req, res) => {
 
 /**
  * @swagger
- * /api/nortic-analysis/history:
+ * /api/nortic-analysis/{analysisId}/report.pdf:
  *   get:
- *     summary: Obtener historial de análisis con ordenamiento y filtrado
- *     description: Obtiene el historial paginado de análisis realizados con opciones avanzadas de ordenamiento y filtrado
- *     tags: [Historial]
+ *     summary: Informe PDF del análisis
+ *     description: Genera con Chromium un informe en español para archivo, con portada (institución y fecha), puntuación general y nivel de cumplimiento, resultados por categoría, recomendaciones, cada prueba con su mensaje y detalles, y las violaciones de accesibilidad
+ *     tags: [Reportes]
  *     parameters:
- *       - in: query
- *         name: page
- *         schema:
- *           type: integer
- *           minimum: 1
- *           default: 1
- *         description: Número de página
- *       - in: query
- *         name: limit
- *         schema:
- *           type: integer
- *           minimum: 1
- *           maximum: 100
- *           default: 10
- *         description: Elementos por página
- *       - in: query
- *         name: url
+ *       - in: path
+ *         name: analysisId
+ *         required: true
  *         schema:
  *           type: string
- *         description: Filtrar por URL específica
- *       - in: query
- *         name: status
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Informe generado
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Análisis no encontrado
+ *       409:
+ *         description: El análisis no está completado
+ */
+app.get('/api/nortic-analysis/:analysisId/report.pdf', async (req, res) => {
+  try {
+    const result = await loadReportData(req.params.analysisId);
+    if (result.valid === false) {
+      return res.status(result.reason === 'not_found' ? 404 : 409).json({ error: result.error });
+    }
+
+    const html = renderReportHtml(result.data, 'es', { print: true });
+    const pdf = await norticAnalyzer.renderPdf(html, escapeHtml(`Informe NORTIC A2 - ${result.data.analysis.url}`));
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${reportFileName(result.data, 'pdf')}"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('PDF report error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate PDF report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/nortic-analysis/{analysisId}/report.html:
+ *   get:
+ *     summary: Informe HTML autocontenido
+ *     description: Un solo archivo HTML con CSS en línea, sin scripts ni llamadas al servidor, que funciona sin conexión y se puede enviar por correo. Incluye las mismas secciones que la vista detallada del frontend; los detalles de cada prueba y el HTML de cada violación se despliegan al hacer clic
+ *     tags: [Reportes]
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
  *         schema:
  *           type: string
- *           enum: [pending, in_progress, completed, failed]
- *         description: Filtrar por estado del análisis
+ *           format: uuid
  *       - in: query
- *         name: institution
+ *         name: lang
  *         schema:
  *           type: string
- *         description: Filtrar por nombre de institución
+ *           enum: [es, en]
+ *           default: es
+ *         description: Idioma del informe
  *       - in: query
- *         name: dateFrom
+ *         name: download
  *         schema:
- *           type: string
+ *           type: boolean
+ *           default: false
+ *         description: Enviar como archivo adjunto en lugar de mostrarlo en el navegador
+ *     responses:
+ *       200:
+ *         description: Informe generado
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Idioma no soportado
+ *       404:
+ *         description: Análisis no encontrado
+ *       409:
+ *         description: El análisis no está completado
+ */
+app.get('/api/nortic-analysis/:analysisId/report.html', async (req, res) => {
+  try {
+    const lang = ((req.query.lang as string) || 'es') as ReportLanguage;
+    if (!REPORT_LANGUAGES.includes(lang)) {
+      return res.status(400).json({ error: 'Invalid lang', details: `lang must be one of: ${REPORT_LANGUAGES.join(', ')}` });
+    }
+
+    const result = await loadReportData(req.params.analysisId);
+    if (result.valid === false) {
+      return res.status(result.reason === 'not_found' ? 404 : 409).json({ error: result.error });
+    }
+
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    if (req.query.download === 'true') {
+      res.setHeader('Content-Disposition', `attachment; filename="${reportFileName(result.data, 'html')}"`);
+    }
+    res.send(renderReportHtml(result.data, lang));
+  } catch (error) {
+    console.error('HTML report error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate HTML report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/nortic-analysis/{analysisId}/junit.xml:
+ *   get:
+ *     summary: Resultados en formato JUnit XML
+ *     description: Un testsuite por categoría y un testcase por resultado de prueba, para mostrar los resultados NORTIC en GitLab, Jenkins u otros sistemas de CI. Las pruebas fallidas se reportan como failure y las advertencias como skipped (con el mensaje de la advertencia), para que no detengan el pipeline
+ *     tags: [Reportes]
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: download
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Enviar como archivo adjunto
+ *     responses:
+ *       200:
+ *         description: Resultados generados
+ *         content:
+ *           application/xml:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Análisis no encontrado
+ *       409:
+ *         description: El análisis no está completado
+ */
+app.get('/api/nortic-analysis/:analysisId/junit.xml', async (req, res) => {
+  try {
+    const result = await loadReportData(req.params.analysisId);
+    if (result.valid === false) {
+      return res.status(result.reason === 'not_found' ? 404 : 409).json({ error: result.error });
+    }
+
+    res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+    if (req.query.download === 'true') {
+      res.setHeader('Content-Disposition', `attachment; filename="${reportFileName(result.data, 'junit.xml')}"`);
+    }
+    res.send(renderJUnit(result.data));
+  } catch (error) {
+    console.error('JUnit report error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate JUnit report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/nortic-analysis/{analysisId}/sarif.json:
+ *   get:
+ *     summary: Hallazgos en formato SARIF 2.1.0
+ *     description: Las violaciones de accesibilidad (axe) y las pruebas de seguridad fallidas o con advertencia como resultados SARIF 2.1.0. Cada violación se ubica por la URL de la página y su selector CSS (logicalLocations) con el HTML afectado como fragmento. Los niveles siguen el impacto - critical y serious son error, moderate es warning y minor es note
+ *     tags: [Reportes]
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: download
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Enviar como archivo adjunto
+ *     responses:
+ *       200:
+ *         description: Resultados generados
+ *         content:
+ *           application/sarif+json:
+ *             schema:
+ *               type: object
+ *       404:
+ *         description: Análisis no encontrado
+ *       409:
+ *         description: El análisis no está completado
+ */
+app.get('/api/nortic-analysis/:analysisId/sarif.json', async (req, res) => {
+  try {
+    const result = await loadReportData(req.params.analysisId);
+    if (result.valid === false) {
+      return res.status(result.reason === 'not_found' ? 404 : 409).json({ error: result.error });
+    }
+
+    res.setHeader('Content-Type', 'application/sarif+json; charset=utf-8');
+    if (req.query.download === 'true') {
+      res.setHeader('Content-Disposition', `attachment; filename="${reportFileName(result.data, 'sarif')}"`);
+    }
+    res.send(JSON.stringify(renderSarif(result.data), null, 2));
+  } catch (error) {
+    console.error('SARIF report error:', error);
+    res.status(500).json({ 
+      error: 'Failed to generate SARIF report',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/nortic-analysis/{analysisId}:
+ *   delete:
+ *     summary: Borrar análisis
+ *     description: Elimina completamente un análisis y todos sus datos relacionados (test_results, accessibility_violations)
+ *     tags: [Análisis NORTIC]
+ *     parameters:
+ *       - in: path
+ *         name: analysisId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: ID único del análisis a eliminar
+ *     responses:
+ *       200:
+ *         description: Análisis eliminado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Análisis eliminado exitosamente"
+ *                 analysisId:
+ *                   type: string
+ *                   format: uuid
+ *                   example: "123e4567-e89b-12d3-a456-426614174000"
+ *       404:
+ *         description: Análisis no encontrado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 error:
+ *                   type: string
+ *                   example: "Analysis not found"
+ *       500:
+ *         description: Error interno del servidor
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.delete('/api/nortic-analysis/:analysisId', async (req, res) => {
+  try {
+    const { analysisId } = req.params;
+    
+    console.log(`[INFO] Attempting to delete analysis: ${analysisId}`);
+    
+    // Check if analysis exists first
+    const analysis = await dbManager.getAnalysis(analysisId);
+    if (!analysis) {
+      return res.status(404).json({ error: 'Analysis not found' });
+    }
+    
+    // Delete the analysis and all related data
+    const deleted = await dbManager.deleteAnalysis(analysisId);
+    
+    if (deleted) {
+      console.log(`[SUCCESS] Analysis deleted: ${analysisId}`);
+      res.json({
+        success: true,
+        message: 'Análisis eliminado exitosamente',
+        analysisId
+      });
+    } else {
+      console.log(`[WARNING] Analysis not found for deletion: ${analysisId}`);
+      res.status(404).json({ error: 'Analysis not found' });
+    }
+  } catch (error) {
+    console.error('Delete analysis error:', error);
+    res.status(500).json({ 
+      error: 'Failed to delete analysis',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Filters and sorting shared by the history listing and its exports
+function parseHistoryQuery(query: express.Request['query']): { filters: AnalysisFilters; sorting?: AnalysisSorting } {
+  const filters: AnalysisFilters = {};
+  if (query.url) filters.url = query.url as string;
+  if (query.status) filters.status = query.status as string;
+  if (query.institutionId) filters.institutionId = parseInt(query.institutionId as string);
+  if (query.institution) filters.institution = query.institution as string;
+  if (query.batchId) filters.batchId = query.batchId as string;
+  if (query.dateFrom) filters.dateFrom = query.dateFrom as string;
+  if (query.dateTo) filters.dateTo = query.dateTo as string;
+
+  // Unknown sort fields keep the default order (newest first)
+  const sortBy = ANALYSIS_SORT_FIELDS.find(field => field === query.sortBy);
+  let sorting: AnalysisSorting | undefined;
+  if (sortBy) {
+    sorting = {
+      field: sortBy,
+      direction: (query.sortOrder as string)?.toUpperCase() === 'ASC' ? 'ASC' : 'DESC'
+    };
+  }
+
+  return { filters, sorting };
+}
+
+/**
+ * @swagger
+ * /api/nortic-analysis/history:
+ *   get:
+ *     summary: Obtener historial de análisis con ordenamiento y filtrado
+ *     description: Obtiene el historial paginado de análisis realizados con opciones avanzadas de ordenamiento y filtrado
+ *     tags: [Historial]
+ *     parameters:
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *         description: Número de página
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *         description: Elementos por página
+ *       - in: query
+ *         name: url
+ *         schema:
+ *           type: string
+ *         description: Filtrar por URL específica
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, in_progress, completed, failed, cancelled]
+ *         description: Filtrar por estado del análisis
+ *       - in: query
+ *         name: institutionId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por institución registrada
+ *       - in: query
+ *         name: institution
+ *         schema:
+ *           type: string
+ *         description: Filtrar por siglas de la institución (sin distinguir mayúsculas)
+ *       - in: query
+ *         name: batchId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filtrar por lote
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
  *           format: date
  *         description: Filtrar desde fecha (YYYY-MM-DD)
  *       - in: query
@@ -583,29 +1134,11 @@ app.get('/api/nortic-analysis/history', async (req, res) => {
   try {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 10;
-    
-    // Parse filters
-    const filters: AnalysisFilters = {};
-    if (req.query.url) filters.url = req.query.url as string;
-    if (req.query.status) filters.status = req.query.status as string;
-    if (req.query.institution) filters.institution = req.query.institution as string;
-    if (req.query.dateFrom) filters.dateFrom = req.query.dateFrom as string;
-    if (req.query.dateTo) filters.dateTo = req.query.dateTo as string;
-
-    // Parse sorting
-    let sorting: AnalysisSorting | undefined;
-    if (req.query.sortBy) {
-      sorting = {
-        field: req.query.sortBy as any,
-        direction: (req.query.sortOrder as string)?.toUpperCase() === 'ASC' ? 'ASC' : 'DESC'
-      };
-    }
 
     const options: PaginationOptions = {
       page,
       limit,
-      filters,
-      sorting
+      ...parseHistoryQuery(req.query)
     };
 
     const analyses = await dbManager.getAnalyses(options);
@@ -621,33 +1154,1601 @@ app.get('/api/nortic-analysis/history', async (req, res) => {
 
 /**
  * @swagger
- * /api/nortic-analysis/institutions:
+ * /api/nortic-analysis/export.csv:
  *   get:
- *     summary: Obtener lista de instituciones
- *     description: Obtiene la lista de instituciones únicas para usar en filtros
+ *     summary: Exportar historial a CSV
+ *     description: Descarga todos los análisis que coinciden con los filtros y el ordenamiento del historial (sin paginación), con la institución y la puntuación de cada categoría. Con sheet=tests exporta en su lugar una fila por resultado de prueba. El archivo se genera por partes mientras se envía
  *     tags: [Historial]
- *     responses:
- *       200:
- *         description: Lista de instituciones obtenida exitosamente
- *         content:
- *           application/json:
- *             schema:
- *               type: object
- *               properties:
- *                 institutions:
- *                   type: array
- *                   items:
- *                     type: string
- *                   description: Lista de nombres de instituciones
- */
-app.get('/api/nortic-analysis/institutions', async (req, res) => {
-  try {
-    const institutions = await dbManager.getInstitutions();
-    res.json({ institutions });
-  } catch (error) {
-    console.error('Institutions error:', error);
-    res.status(500).json({ 
-      error: 'Failed to get institutions',
+ *     parameters:
+ *       - in: query
+ *         name: sheet
+ *         schema:
+ *           type: string
+ *           enum: [analyses, tests]
+ *           default: analyses
+ *         description: Análisis o resultados de pruebas
+ *       - in: query
+ *         name: url
+ *         schema:
+ *           type: string
+ *         description: Filtrar por URL específica
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, in_progress, completed, failed, cancelled]
+ *         description: Filtrar por estado del análisis
+ *       - in: query
+ *         name: institutionId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por institución registrada
+ *       - in: query
+ *         name: institution
+ *         schema:
+ *           type: string
+ *         description: Filtrar por siglas de la institución (sin distinguir mayúsculas)
+ *       - in: query
+ *         name: batchId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filtrar por lote
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filtrar desde fecha (YYYY-MM-DD)
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filtrar hasta fecha (YYYY-MM-DD)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [created_at, overall_score, status, url, compliance_level]
+ *           default: created_at
+ *         description: Campo por el cual ordenar
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [ASC, DESC]
+ *           default: DESC
+ *         description: Dirección del ordenamiento
+ *     responses:
+ *       200:
+ *         description: Archivo CSV (UTF-8 con BOM)
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Valor de sheet no válido
+ */
+app.get('/api/nortic-analysis/export.csv', async (req, res) => {
+  try {
+    const sheet = ((req.query.sheet as string) || 'analyses') as ExportSheet;
+    if (!EXPORT_SHEETS.includes(sheet)) {
+      return res.status(400).json({ error: 'Invalid sheet', details: `sheet must be one of: ${EXPORT_SHEETS.join(', ')}` });
+    }
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName('csv', sheet)}"`);
+    await writeCsvExport(res, parseHistoryQuery(req.query), sheet);
+    res.end();
+  } catch (error) {
+    console.error('CSV export error:', error);
+    // Part of the file may already be sent; cut the download short instead of appending JSON
+    if (res.headersSent) return res.destroy();
+    res.status(500).json({ 
+      error: 'Failed to export analysis history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/nortic-analysis/export.xlsx:
+ *   get:
+ *     summary: Exportar historial a Excel
+ *     description: Descarga un libro .xlsx con dos hojas - "Analisis" (un análisis por fila, con institución y puntuación por categoría) y "Pruebas" (una fila por resultado de prueba). Acepta los mismos filtros y ordenamiento que el historial
+ *     tags: [Historial]
+ *     parameters:
+ *       - in: query
+ *         name: url
+ *         schema:
+ *           type: string
+ *         description: Filtrar por URL específica
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, in_progress, completed, failed, cancelled]
+ *         description: Filtrar por estado del análisis
+ *       - in: query
+ *         name: institutionId
+ *         schema:
+ *           type: integer
+ *         description: Filtrar por institución registrada
+ *       - in: query
+ *         name: institution
+ *         schema:
+ *           type: string
+ *         description: Filtrar por siglas de la institución (sin distinguir mayúsculas)
+ *       - in: query
+ *         name: batchId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Filtrar por lote
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filtrar desde fecha (YYYY-MM-DD)
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Filtrar hasta fecha (YYYY-MM-DD)
+ *       - in: query
+ *         name: sortBy
+ *         schema:
+ *           type: string
+ *           enum: [created_at, overall_score, status, url, compliance_level]
+ *           default: created_at
+ *         description: Campo por el cual ordenar
+ *       - in: query
+ *         name: sortOrder
+ *         schema:
+ *           type: string
+ *           enum: [ASC, DESC]
+ *           default: DESC
+ *         description: Dirección del ordenamiento
+ *     responses:
+ *       200:
+ *         description: Libro de Excel
+ *         content:
+ *           application/vnd.openxmlformats-officedocument.spreadsheetml.sheet:
+ *             schema:
+ *               type: string
+ *               format: binary
+ */
+app.get('/api/nortic-analysis/export.xlsx', async (req, res) => {
+  try {
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFileName('xlsx')}"`);
+    await writeXlsxExport(res, parseHistoryQuery(req.query));
+    res.end();
+  } catch (error) {
+    console.error('XLSX export error:', error);
+    if (res.headersSent) return res.destroy();
+    res.status(500).json({ 
+      error: 'Failed to export analysis history',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/nortic-analysis/compare:
+ *   get:
+ *     summary: Comparar dos análisis
+ *     description: Compara un análisis base con otro posterior (normalmente del mismo sitio). Devuelve la variación de la puntuación general y por categoría, las pruebas que cambiaron de estado (corregidas, con regresión, nuevas o eliminadas) y las violaciones de accesibilidad agregadas o resueltas. Las páginas se comparan por ruta
+ *     tags: [Resultados]
+ *     parameters:
+ *       - in: query
+ *         name: base
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Análisis de referencia (el anterior)
+ *       - in: query
+ *         name: target
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: Análisis a comparar (el más reciente)
+ *     responses:
+ *       200:
+ *         description: Comparación obtenida exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/AnalysisComparison'
+ *       400:
+ *         description: Faltan los parámetros base o target
+ *       404:
+ *         description: Alguno de los análisis no existe
+ *       409:
+ *         description: Alguno de los análisis no está completado
+ */
+app.get('/api/nortic-analysis/compare', async (req, res) => {
+  try {
+    const base = req.query.base as string;
+    const target = req.query.target as string;
+    if (!base || !target) {
+      return res.status(400).json({ error: 'Base and target analysis IDs are required' });
+    }
+
+    const result = await compareAnalyses(base, target);
+    if (result.valid === false) {
+      return res.status(result.reason === 'not_found' ? 404 : 409).json({ error: result.error });
+    }
+
+    res.json(result.comparison);
+  } catch (error) {
+    console.error('Compare analyses error:', error);
+    res.status(500).json({ 
+      error: 'Failed to compare analyses',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/trends:
+ *   get:
+ *     summary: Tendencia de puntuación
+ *     description: Serie temporal de la puntuación general y por categoría de los análisis completados de una institución (todos sus dominios) o de una URL normalizada (sin esquema, "www.", consulta ni barra final). Cada punto promedia los análisis completados en el período; los períodos sin análisis se omiten
+ *     tags: [Historial]
+ *     parameters:
+ *       - in: query
+ *         name: institutionId
+ *         schema:
+ *           type: integer
+ *         description: Institución registrada (se requiere institutionId o url)
+ *       - in: query
+ *         name: url
+ *         schema:
+ *           type: string
+ *           format: uri
+ *         description: URL del sitio
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [day, week, month]
+ *           default: month
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Tendencia obtenida exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScoreTrend'
+ *       400:
+ *         description: Parámetros inválidos
+ *       404:
+ *         description: Institución no encontrada
+ */
+app.get('/api/trends', async (req, res) => {
+  try {
+    const groupBy = ((req.query.groupBy as string) || 'month') as TrendGrouping;
+    if (!TREND_GROUPINGS.includes(groupBy)) {
+      return res.status(400).json({ error: 'Invalid groupBy', details: `groupBy must be one of: ${TREND_GROUPINGS.join(', ')}` });
+    }
+
+    const dateFrom = req.query.dateFrom ? parseDateBound(req.query.dateFrom as string, 'start') : undefined;
+    if (dateFrom === null) {
+      return res.status(400).json({ error: 'Invalid dateFrom' });
+    }
+
+    const dateTo = req.query.dateTo ? parseDateBound(req.query.dateTo as string, 'end') : undefined;
+    if (dateTo === null) {
+      return res.status(400).json({ error: 'Invalid dateTo' });
+    }
+
+    const range = {
+      dateFrom: dateFrom?.toISOString(),
+      dateTo: dateTo?.toISOString()
+    };
+
+    let trend;
+    if (req.query.institutionId) {
+      const institutionId = Number(req.query.institutionId);
+      if (!Number.isInteger(institutionId) || institutionId <= 0) {
+        return res.status(400).json({ error: 'Invalid institutionId', details: 'institutionId must be a positive integer' });
+      }
+
+      trend = await getScoreTrend({ institutionId }, groupBy, range);
+      if (!trend) {
+        return res.status(404).json({ error: 'Institution not found' });
+      }
+    } else if (req.query.url) {
+      if (!normalizeAnalysisUrl(req.query.url as string)) {
+        return res.status(400).json({ error: 'Invalid URL format' });
+      }
+      trend = await getScoreTrend({ url: req.query.url as string }, groupBy, range);
+    } else {
+      return res.status(400).json({ error: 'institutionId or URL is required' });
+    }
+
+    res.json(trend);
+  } catch (error) {
+    console.error('Trends error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get score trend',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/rankings:
+ *   get:
+ *     summary: Ranking de instituciones
+ *     description: Ordena las instituciones por la puntuación general de su último análisis completado hasta la fecha de corte. Las instituciones con la misma puntuación comparten posición. Cada fila indica cuántas posiciones cambió respecto al ranking del período anterior (la fecha de corte menos una semana, mes, trimestre o año)
+ *     tags: [Instituciones]
+ *     parameters:
+ *       - in: query
+ *         name: sector
+ *         schema:
+ *           type: string
+ *         description: Solo instituciones de este sector (sin distinguir mayúsculas)
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Fecha de corte (incluida); por defecto, ahora
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [week, month, quarter, year]
+ *           default: month
+ *         description: Distancia al ranking anterior con el que se comparan las posiciones
+ *     responses:
+ *       200:
+ *         description: Ranking obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Ranking'
+ *       400:
+ *         description: Parámetros inválidos
+ */
+app.get('/api/rankings', async (req, res) => {
+  try {
+    const period = ((req.query.period as string) || 'month') as RankingPeriod;
+    if (!RANKING_PERIODS.includes(period)) {
+      return res.status(400).json({ error: 'Invalid period', details: `period must be one of: ${RANKING_PERIODS.join(', ')}` });
+    }
+
+    const cutoff = req.query.dateTo ? parseDateBound(req.query.dateTo as string, 'end') : new Date();
+    if (!cutoff) {
+      return res.status(400).json({ error: 'Invalid dateTo' });
+    }
+
+    const ranking = await getRankings({ cutoff, period, sector: req.query.sector as string | undefined });
+    res.json(ranking);
+  } catch (error) {
+    console.error('Rankings error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get rankings',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/institutions:
+ *   get:
+ *     summary: Listar instituciones
+ *     description: Devuelve el registro de instituciones con sus dominios y la cantidad de análisis vinculados
+ *     tags: [Instituciones]
+ *     responses:
+ *       200:
+ *         description: Instituciones obtenidas exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 institutions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Institution'
+ *   post:
+ *     summary: Registrar institución
+ *     description: Crea una institución con los dominios que le pertenecen. Los análisis existentes y futuros de esos dominios (y sus subdominios) quedan vinculados a ella
+ *     tags: [Instituciones]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Institution'
+ *     responses:
+ *       201:
+ *         description: Institución creada exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Institution'
+ *       400:
+ *         description: Institución inválida
+ *       409:
+ *         description: Algún dominio ya pertenece a otra institución
+ */
+app.get('/api/institutions', async (req, res) => {
+  try {
+    const institutions = await dbManager.getInstitutions();
+    res.json({ institutions });
+  } catch (error) {
+    console.error('Institutions error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get institutions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/institutions', async (req, res) => {
+  try {
+    const validation = validateInstitution(req.body);
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid institution', details: validation.errors.join('; ') });
+    }
+
+    const conflicts = await dbManager.getDomainConflicts(validation.institution.domains);
+    if (conflicts.length > 0) {
+      return res.status(409).json({
+        error: 'Domain already registered',
+        details: conflicts.map(conflict => `${conflict.domain} belongs to institution ${conflict.institution_id}`).join('; ')
+      });
+    }
+
+    const institutionId = await dbManager.saveInstitution(validation.institution);
+    console.log(`[SUCCESS] Institution created: ${institutionId} (${validation.institution.name})`);
+    res.status(201).json(await dbManager.getInstitution(institutionId));
+  } catch (error) {
+    console.error('Create institution error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create institution',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/institutions/{institutionId}:
+ *   get:
+ *     summary: Obtener institución
+ *     tags: [Instituciones]
+ *     parameters:
+ *       - in: path
+ *         name: institutionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Institución obtenida exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Institution'
+ *       404:
+ *         description: Institución no encontrada
+ *   put:
+ *     summary: Actualizar institución
+ *     description: Los campos omitidos conservan su valor actual. Si se envían dominios, reemplazan a los anteriores y los análisis se vuelven a vincular
+ *     tags: [Instituciones]
+ *     parameters:
+ *       - in: path
+ *         name: institutionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Institution'
+ *     responses:
+ *       200:
+ *         description: Institución actualizada exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Institution'
+ *       400:
+ *         description: Institución inválida
+ *       404:
+ *         description: Institución no encontrada
+ *       409:
+ *         description: Algún dominio ya pertenece a otra institución
+ *   delete:
+ *     summary: Eliminar institución
+ *     description: Elimina la institución y sus dominios; los análisis se conservan sin institución
+ *     tags: [Instituciones]
+ *     parameters:
+ *       - in: path
+ *         name: institutionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Institución eliminada exitosamente
+ *       404:
+ *         description: Institución no encontrada
+ */
+app.get('/api/institutions/:institutionId', async (req, res) => {
+  try {
+    const institution = await dbManager.getInstitution(parseInt(req.params.institutionId));
+    if (!institution) {
+      return res.status(404).json({ error: 'Institution not found' });
+    }
+    res.json(institution);
+  } catch (error) {
+    console.error('Institution error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get institution',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.put('/api/institutions/:institutionId', async (req, res) => {
+  try {
+    const institutionId = parseInt(req.params.institutionId);
+    const existing = await dbManager.getInstitution(institutionId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Institution not found' });
+    }
+
+    const validation = validateInstitution(req.body, existing);
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid institution', details: validation.errors.join('; ') });
+    }
+
+    const conflicts = await dbManager.getDomainConflicts(validation.institution.domains, institutionId);
+    if (conflicts.length > 0) {
+      return res.status(409).json({
+        error: 'Domain already registered',
+        details: conflicts.map(conflict => `${conflict.domain} belongs to institution ${conflict.institution_id}`).join('; ')
+      });
+    }
+
+    await dbManager.saveInstitution(validation.institution, institutionId);
+    console.log(`[SUCCESS] Institution updated: ${institutionId}`);
+    res.json(await dbManager.getInstitution(institutionId));
+  } catch (error) {
+    console.error('Update institution error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update institution',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.delete('/api/institutions/:institutionId', async (req, res) => {
+  try {
+    const institutionId = parseInt(req.params.institutionId);
+    const deleted = !Number.isNaN(institutionId) && await dbManager.deleteInstitution(institutionId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Institution not found' });
+    }
+
+    console.log(`[SUCCESS] Institution deleted: ${institutionId}`);
+    res.json({ success: true, institutionId });
+  } catch (error) {
+    console.error('Delete institution error:', error);
+    res.status(500).json({ 
+      error: 'Failed to delete institution',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/suppressions:
+ *   get:
+ *     summary: Listar supresiones
+ *     description: Hallazgos aceptados como conocidos. Se muestran en los resultados marcados como suprimidos y no cuentan en la puntuación hasta su fecha de vencimiento
+ *     tags: [Supresiones]
+ *     parameters:
+ *       - in: query
+ *         name: institutionId
+ *         schema:
+ *           type: integer
+ *         description: Solo las supresiones de esta institución
+ *     responses:
+ *       200:
+ *         description: Supresiones obtenidas exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 suppressions:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Suppression'
+ *   post:
+ *     summary: Crear supresión
+ *     description: Se aplica a una institución o a una URL (y las páginas bajo ella), y a una prueba por nombre o a violaciones de axe por regla y/o selector. Al vencer, el hallazgo vuelve a contar como fallo
+ *     tags: [Supresiones]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Suppression'
+ *     responses:
+ *       201:
+ *         description: Supresión creada exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Suppression'
+ *       400:
+ *         description: Supresión inválida
+ *       404:
+ *         description: Institución no encontrada
+ */
+app.get('/api/suppressions', async (req, res) => {
+  try {
+    const institutionId = req.query.institutionId ? parseInt(req.query.institutionId as string) : undefined;
+    const suppressions = await dbManager.getSuppressions({ institutionId });
+    res.json({ suppressions: suppressions.map(withExpiry) });
+  } catch (error) {
+    console.error('Suppressions error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get suppressions',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/suppressions', async (req, res) => {
+  try {
+    const validation = validateSuppression(req.body);
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid suppression', details: validation.errors.join('; ') });
+    }
+
+    const institutionId = validation.suppression.institution_id;
+    if (institutionId && !(await dbManager.getInstitution(institutionId))) {
+      return res.status(404).json({ error: 'Institution not found' });
+    }
+
+    const suppressionId = await dbManager.saveSuppression(validation.suppression);
+    console.log(`[SUCCESS] Suppression created: ${suppressionId} (${validation.suppression.author}, until ${validation.suppression.expires_at})`);
+    res.status(201).json(withExpiry((await dbManager.getSuppression(suppressionId))!));
+  } catch (error) {
+    console.error('Create suppression error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create suppression',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/suppressions/{suppressionId}:
+ *   get:
+ *     summary: Obtener supresión
+ *     tags: [Supresiones]
+ *     parameters:
+ *       - in: path
+ *         name: suppressionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Supresión obtenida exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Suppression'
+ *       404:
+ *         description: Supresión no encontrada
+ *   put:
+ *     summary: Actualizar supresión
+ *     description: Los campos omitidos conservan su valor actual; sirve para renovar la fecha de vencimiento. Los análisis ya realizados no se recalculan
+ *     tags: [Supresiones]
+ *     parameters:
+ *       - in: path
+ *         name: suppressionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Suppression'
+ *     responses:
+ *       200:
+ *         description: Supresión actualizada exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Suppression'
+ *       400:
+ *         description: Supresión inválida
+ *       404:
+ *         description: Supresión o institución no encontrada
+ *   delete:
+ *     summary: Eliminar supresión
+ *     tags: [Supresiones]
+ *     parameters:
+ *       - in: path
+ *         name: suppressionId
+ *         required: true
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Supresión eliminada exitosamente
+ *       404:
+ *         description: Supresión no encontrada
+ */
+app.get('/api/suppressions/:suppressionId', async (req, res) => {
+  try {
+    const suppression = await dbManager.getSuppression(parseInt(req.params.suppressionId));
+    if (!suppression) {
+      return res.status(404).json({ error: 'Suppression not found' });
+    }
+    res.json(withExpiry(suppression));
+  } catch (error) {
+    console.error('Suppression error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get suppression',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.put('/api/suppressions/:suppressionId', async (req, res) => {
+  try {
+    const suppressionId = parseInt(req.params.suppressionId);
+    const existing = await dbManager.getSuppression(suppressionId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Suppression not found' });
+    }
+
+    const validation = validateSuppression(req.body, existing);
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid suppression', details: validation.errors.join('; ') });
+    }
+
+    const institutionId = validation.suppression.institution_id;
+    if (institutionId && !(await dbManager.getInstitution(institutionId))) {
+      return res.status(404).json({ error: 'Institution not found' });
+    }
+
+    await dbManager.saveSuppression(validation.suppression, suppressionId);
+    console.log(`[SUCCESS] Suppression updated: ${suppressionId}`);
+    res.json(withExpiry((await dbManager.getSuppression(suppressionId))!));
+  } catch (error) {
+    console.error('Update suppression error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update suppression',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.delete('/api/suppressions/:suppressionId', async (req, res) => {
+  try {
+    const suppressionId = parseInt(req.params.suppressionId);
+    const deleted = !Number.isNaN(suppressionId) && await dbManager.deleteSuppression(suppressionId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Suppression not found' });
+    }
+
+    console.log(`[SUCCESS] Suppression deleted: ${suppressionId}`);
+    res.json({ success: true, suppressionId });
+  } catch (error) {
+    console.error('Delete suppression error:', error);
+    res.status(500).json({ 
+      error: 'Failed to delete suppression',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/queue:
+ *   get:
+ *     summary: Obtener cola de análisis
+ *     description: Lista los análisis en ejecución y los que esperan turno, en el orden en que serán procesados
+ *     tags: [Análisis NORTIC]
+ *     responses:
+ *       200:
+ *         description: Estado de la cola obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/QueueSnapshot'
+ */
+app.get('/api/queue', async (req, res) => {
+  try {
+    const snapshot = await analysisQueue.getSnapshot();
+    res.json(snapshot);
+  } catch (error) {
+    console.error('Queue error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get analysis queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/testers:
+ *   get:
+ *     summary: Listar módulos de prueba disponibles
+ *     description: Devuelve las categorías de prueba registradas con sus alias, capítulo NORTIC A2 y número de pruebas
+ *     tags: [Análisis NORTIC]
+ *     responses:
+ *       200:
+ *         description: Módulos de prueba obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 testers:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TesterInfo'
+ */
+app.get('/api/testers', (req, res) => {
+  const testers = testerRegistry.list().map(({ id, aliases, displayName, chapter, testCount }) => ({
+    id,
+    aliases,
+    displayName,
+    chapter,
+    testCount
+  }));
+  res.json({ testers });
+});
+
+/**
+ * @swagger
+ * /api/requirements:
+ *   get:
+ *     summary: Catálogo de requisitos NORTIC A2
+ *     description: Lista los requisitos del catálogo con las pruebas que aportan evidencia para cada uno
+ *     tags: [Análisis NORTIC]
+ *     responses:
+ *       200:
+ *         description: Catálogo obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 requirements:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/NorticRequirement'
+ */
+app.get('/api/requirements', (req, res) => {
+  const coverage = getRequirementCoverage();
+  const requirements = REQUIREMENTS_CATALOG.map(requirement => ({
+    ...requirement,
+    coveredBy: coverage.get(requirement.id) || []
+  }));
+  res.json({ requirements });
+});
+
+/**
+ * @swagger
+ * /api/remediation:
+ *   get:
+ *     summary: Catálogo de guías de corrección
+ *     description: Lista las guías de corrección por prueba y código de problema, con explicación, ejemplo de código, esfuerzo estimado y referencias NORTIC A2 y WCAG 2.1. Los resultados detallados incluyen las que aplican a cada prueba fallida o con advertencia
+ *     tags: [Análisis NORTIC]
+ *     parameters:
+ *       - in: query
+ *         name: test
+ *         schema:
+ *           type: string
+ *         description: Solo las guías de esta prueba (nombre exacto)
+ *     responses:
+ *       200:
+ *         description: Catálogo obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 guidance:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/RemediationGuidance'
+ */
+app.get('/api/remediation', (req, res) => {
+  const guidance = getRemediationCatalog().filter(entry => !req.query.test || entry.testName === req.query.test);
+  res.json({ guidance });
+});
+
+/**
+ * @swagger
+ * /api/scoring-profiles:
+ *   get:
+ *     summary: Listar perfiles de puntuación
+ *     description: Devuelve los perfiles de puntuación guardados; el predeterminado aparece primero
+ *     tags: [Perfiles de puntuación]
+ *     responses:
+ *       200:
+ *         description: Perfiles obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 profiles:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ScoringProfile'
+ *   post:
+ *     summary: Crear perfil de puntuación
+ *     description: Crea un perfil con pesos por categoría y por prueba, umbrales y bandas de cumplimiento
+ *     tags: [Perfiles de puntuación]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScoringProfile'
+ *     responses:
+ *       201:
+ *         description: Perfil creado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScoringProfile'
+ *       400:
+ *         description: Perfil inválido
+ *       409:
+ *         description: Ya existe un perfil con ese id
+ */
+app.get('/api/scoring-profiles', async (req, res) => {
+  try {
+    const profiles = await dbManager.getScoringProfiles();
+    res.json({ profiles });
+  } catch (error) {
+    console.error('Scoring profiles error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get scoring profiles',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/scoring-profiles', async (req, res) => {
+  try {
+    const validation = validateScoringProfile(req.body);
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid scoring profile', details: validation.errors.join('; ') });
+    }
+
+    if (await dbManager.getScoringProfile(validation.profile.id)) {
+      return res.status(409).json({ error: `Scoring profile already exists: ${validation.profile.id}` });
+    }
+
+    await dbManager.saveScoringProfile(validation.profile);
+    console.log(`[SUCCESS] Scoring profile created: ${validation.profile.id}`);
+    res.status(201).json(await dbManager.getScoringProfile(validation.profile.id));
+  } catch (error) {
+    console.error('Create scoring profile error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create scoring profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/scoring-profiles/{profileId}:
+ *   get:
+ *     summary: Obtener perfil de puntuación
+ *     tags: [Perfiles de puntuación]
+ *     parameters:
+ *       - in: path
+ *         name: profileId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Perfil obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScoringProfile'
+ *       404:
+ *         description: Perfil no encontrado
+ *   put:
+ *     summary: Actualizar perfil de puntuación
+ *     description: Reemplaza la configuración del perfil. Los análisis ya realizados conservan la copia del perfil con que se puntuaron
+ *     tags: [Perfiles de puntuación]
+ *     parameters:
+ *       - in: path
+ *         name: profileId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ScoringProfile'
+ *     responses:
+ *       200:
+ *         description: Perfil actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ScoringProfile'
+ *       400:
+ *         description: Perfil inválido
+ *       404:
+ *         description: Perfil no encontrado
+ *   delete:
+ *     summary: Borrar perfil de puntuación
+ *     description: El perfil predeterminado no se puede borrar
+ *     tags: [Perfiles de puntuación]
+ *     parameters:
+ *       - in: path
+ *         name: profileId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Perfil eliminado exitosamente
+ *       404:
+ *         description: Perfil no encontrado
+ *       409:
+ *         description: El perfil es el predeterminado
+ */
+app.get('/api/scoring-profiles/:profileId', async (req, res) => {
+  try {
+    const profile = await dbManager.getScoringProfile(req.params.profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Scoring profile not found' });
+    }
+    res.json(profile);
+  } catch (error) {
+    console.error('Scoring profile error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get scoring profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.put('/api/scoring-profiles/:profileId', async (req, res) => {
+  try {
+    const { profileId } = req.params;
+    const existing = await dbManager.getScoringProfile(profileId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Scoring profile not found' });
+    }
+
+    const validation = validateScoringProfile({
+      ...req.body,
+      id: profileId,
+      is_default: req.body?.is_default ?? existing.is_default
+    });
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid scoring profile', details: validation.errors.join('; ') });
+    }
+
+    // There is always a default profile: it only changes when another one takes its place
+    if (existing.is_default && !validation.profile.is_default) {
+      return res.status(409).json({ error: 'Mark another profile as default first' });
+    }
+
+    await dbManager.saveScoringProfile(validation.profile);
+    console.log(`[SUCCESS] Scoring profile updated: ${profileId}`);
+    res.json(await dbManager.getScoringProfile(profileId));
+  } catch (error) {
+    console.error('Update scoring profile error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update scoring profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.delete('/api/scoring-profiles/:profileId', async (req, res) => {
+  try {
+    const { profileId } = req.params;
+    const profile = await dbManager.getScoringProfile(profileId);
+    if (!profile) {
+      return res.status(404).json({ error: 'Scoring profile not found' });
+    }
+
+    if (profile.is_default) {
+      return res.status(409).json({ error: 'The default scoring profile cannot be deleted' });
+    }
+
+    await dbManager.deleteScoringProfile(profileId);
+    console.log(`[SUCCESS] Scoring profile deleted: ${profileId}`);
+    res.json({ success: true, profileId });
+  } catch (error) {
+    console.error('Delete scoring profile error:', error);
+    res.status(500).json({ 
+      error: 'Failed to delete scoring profile',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/batches:
+ *   get:
+ *     summary: Listar lotes
+ *     description: Devuelve los lotes de análisis, del más reciente al más antiguo, con el número de análisis por estado
+ *     tags: [Lotes]
+ *     responses:
+ *       200:
+ *         description: Lotes obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 batches:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/BatchListItem'
+ *   post:
+ *     summary: Crear lote de análisis
+ *     description: Encola un análisis por URL bajo un mismo lote, con las mismas categorías y opciones. Acepta JSON con urls (o csv) o un CSV enviado como text/csv; en ese caso testCategories, scoringProfile y name se indican en la query. Del CSV se toma la columna url si la primera fila es un encabezado, si no la primera columna
+ *     tags: [Lotes]
+ *     parameters:
+ *       - in: query
+ *         name: testCategories
+ *         schema:
+ *           type: string
+ *         description: Solo para text/csv. Categorías separadas por comas
+ *       - in: query
+ *         name: scoringProfile
+ *         schema:
+ *           type: string
+ *         description: Solo para text/csv. Perfil de puntuación
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         description: Solo para text/csv. Nombre del lote
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/BatchRequest'
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: "url\nhttps://www.ogtic.gob.do\nhttps://www.mescyt.gob.do"
+ *     responses:
+ *       201:
+ *         description: Lote creado y análisis encolados
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BatchStartResponse'
+ *       400:
+ *         description: URLs inválidas, lote vacío o demasiado grande, categorías desconocidas u opciones de rastreo inválidas
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ErrorResponse'
+ */
+app.get('/api/batches', async (req, res) => {
+  try {
+    const batches = await dbManager.getBatches();
+    res.json({ batches });
+  } catch (error) {
+    console.error('Batches error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get batches',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/batches', express.text({ type: ['text/csv', 'text/plain'], limit: '1mb' }), async (req, res) => {
+  try {
+    const isCsvUpload = typeof req.body === 'string';
+    const body = isCsvUpload ? {} : req.body || {};
+
+    let urls: unknown = body.urls;
+    if (isCsvUpload) {
+      urls = parseUrlCsv(req.body);
+    } else if (urls === undefined && typeof body.csv === 'string') {
+      urls = parseUrlCsv(body.csv);
+    }
+
+    const urlValidation = validateBatchUrls(urls);
+    if (urlValidation.valid === false) {
+      return res.status(400).json({ error: urlValidation.error, invalidUrls: urlValidation.invalidUrls });
+    }
+
+    const testCategories = isCsvUpload
+      ? (req.query.testCategories ? (req.query.testCategories as string).split(',') : undefined)
+      : body.testCategories;
+    const categoryValidation = validateTestCategories(testCategories);
+    if (categoryValidation.valid === false) {
+      return res.status(400).json({
+        error: categoryValidation.error,
+        validValues: categoryValidation.validValues
+      });
+    }
+
+    const options = isCsvUpload
+      ? (req.query.scoringProfile ? { scoringProfile: req.query.scoringProfile as string } : {})
+      : body.options || {};
+    if (options.crawl !== undefined) {
+      const crawlValidation = validateCrawlOptions(options.crawl);
+      if (crawlValidation.valid === false) {
+        return res.status(400).json({ error: 'Invalid crawl options', details: crawlValidation.errors.join('; ') });
+      }
+    }
+
+    if (options.scoringProfile && !(await dbManager.getScoringProfile(options.scoringProfile))) {
+      return res.status(400).json({ error: `Scoring profile not found: ${options.scoringProfile}` });
+    }
+
+    const name = (isCsvUpload ? req.query.name : body.name) as string | undefined;
+
+    console.log(`[INFO] Queueing batch of ${urlValidation.urls.length} analyses`);
+    const { batchId, analyses } = await createBatch(urlValidation.urls, {
+      ...options,
+      testCategories: categoryValidation.categories
+    }, name || null);
+
+    res.status(201).json({
+      batchId,
+      name: name || null,
+      total: analyses.length,
+      testCategories: categoryValidation.categories,
+      analyses
+    });
+  } catch (error) {
+    console.error('Batch startup error:', error);
+    res.status(500).json({ 
+      error: 'Failed to start batch',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/batches/{batchId}:
+ *   get:
+ *     summary: Estado y resumen de un lote
+ *     description: Devuelve el progreso combinado del lote (análisis por estado y porcentaje promedio), un resumen de puntuaciones y una fila por análisis con sus puntuaciones por categoría
+ *     tags: [Lotes]
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Estado obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BatchStatus'
+ *       404:
+ *         description: Lote no encontrado
+ */
+app.get('/api/batches/:batchId', async (req, res) => {
+  try {
+    const batch = await getBatchStatus(req.params.batchId);
+    if (!batch) {
+      return res.status(404).json({ error: 'Batch not found' });
+    }
+    res.json(batch);
+  } catch (error) {
+    console.error('Batch status error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get batch status',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks:
+ *   get:
+ *     summary: Listar webhooks
+ *     description: Devuelve las suscripciones de webhooks (sin el secreto)
+ *     tags: [Webhooks]
+ *     responses:
+ *       200:
+ *         description: Webhooks obtenidos exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 webhooks:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Webhook'
+ *   post:
+ *     summary: Crear webhook
+ *     description: Registra una URL que recibe un POST con el resultado del análisis cuando termina, falla o se cancela. Si no se indica secreto se genera uno; solo se devuelve en esta respuesta
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Webhook'
+ *     responses:
+ *       201:
+ *         description: Webhook creado exitosamente (incluye el secreto)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Webhook inválido
+ */
+app.get('/api/webhooks', async (req, res) => {
+  try {
+    const webhooks = await dbManager.getWebhooks();
+    res.json({ webhooks: webhooks.map(withoutSecret) });
+  } catch (error) {
+    console.error('Webhooks error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get webhooks',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.post('/api/webhooks', async (req, res) => {
+  try {
+    const validation = validateWebhook(req.body);
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid webhook', details: validation.errors.join('; ') });
+    }
+
+    await dbManager.saveWebhook(validation.webhook);
+    console.log(`[SUCCESS] Webhook created: ${validation.webhook.id} -> ${validation.webhook.url}`);
+    res.status(201).json(await dbManager.getWebhook(validation.webhook.id));
+  } catch (error) {
+    console.error('Create webhook error:', error);
+    res.status(500).json({ 
+      error: 'Failed to create webhook',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}:
+ *   get:
+ *     summary: Obtener webhook
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Webhook obtenido exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       404:
+ *         description: Webhook no encontrado
+ *   put:
+ *     summary: Actualizar webhook
+ *     description: Los campos omitidos conservan su valor actual
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Webhook'
+ *     responses:
+ *       200:
+ *         description: Webhook actualizado exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Webhook'
+ *       400:
+ *         description: Webhook inválido
+ *       404:
+ *         description: Webhook no encontrado
+ *   delete:
+ *     summary: Eliminar webhook
+ *     description: Elimina la suscripción y su registro de entregas
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Webhook eliminado exitosamente
+ *       404:
+ *         description: Webhook no encontrado
+ */
+app.get('/api/webhooks/:webhookId', async (req, res) => {
+  try {
+    const webhook = await dbManager.getWebhook(req.params.webhookId);
+    if (!webhook) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+    res.json(withoutSecret(webhook));
+  } catch (error) {
+    console.error('Webhook error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get webhook',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.put('/api/webhooks/:webhookId', async (req, res) => {
+  try {
+    const { webhookId } = req.params;
+    const existing = await dbManager.getWebhook(webhookId);
+    if (!existing) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const validation = validateWebhook(req.body, existing);
+    if (validation.valid === false) {
+      return res.status(400).json({ error: 'Invalid webhook', details: validation.errors.join('; ') });
+    }
+
+    await dbManager.saveWebhook(validation.webhook);
+    console.log(`[SUCCESS] Webhook updated: ${webhookId}`);
+    res.json(withoutSecret((await dbManager.getWebhook(webhookId))!));
+  } catch (error) {
+    console.error('Update webhook error:', error);
+    res.status(500).json({ 
+      error: 'Failed to update webhook',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+app.delete('/api/webhooks/:webhookId', async (req, res) => {
+  try {
+    const { webhookId } = req.params;
+    const deleted = await dbManager.deleteWebhook(webhookId);
+    if (!deleted) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    console.log(`[SUCCESS] Webhook deleted: ${webhookId}`);
+    res.json({ success: true, webhookId });
+  } catch (error) {
+    console.error('Delete webhook error:', error);
+    res.status(500).json({ 
+      error: 'Failed to delete webhook',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+/**
+ * @swagger
+ * /api/webhooks/{webhookId}/deliveries:
+ *   get:
+ *     summary: Registro de entregas de un webhook
+ *     description: Devuelve los intentos de entrega más recientes, con el código de respuesta o el error de cada uno
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 200
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Entregas obtenidas exitosamente
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 deliveries:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook no encontrado
+ */
+app.get('/api/webhooks/:webhookId/deliveries', async (req, res) => {
+  try {
+    const { webhookId } = req.params;
+    if (!(await dbManager.getWebhook(webhookId))) {
+      return res.status(404).json({ error: 'Webhook not found' });
+    }
+
+    const limit = Math.min(200, Math.max(1, parseInt(req.query.limit as string) || 50));
+    const deliveries = await dbManager.getWebhookDeliveries(webhookId, limit);
+    res.json({ deliveries });
+  } catch (error) {
+    console.error('Webhook deliveries error:', error);
+    res.status(500).json({ 
+      error: 'Failed to get webhook deliveries',
       details: error instanceof Error ? error.message : 'Unknown error'
     });
   }
@@ -689,13 +2790,12 @@ app.post('/api/analyze', async (req, res) => {
       return res.status(400).json({ error: 'URL is required' });
     }
 
-    const analysisId = require('uuid').v4();
-    const result = await norticAnalyzer.analyze(url, analysisId);
+    const { analysisId } = await analysisQueue.enqueue(url);
     
     // For compatibility, return the old format but with new analysis ID
     res.json({ 
       success: true, 
-      id: result,
+      id: analysisId,
       message: 'Analysis started. Use the new NORTIC endpoints to check status and results.'
     });
   } catch (error) {
@@ -790,6 +2890,7 @@ process.on('SIGINT', async () => {
   console.log('Shutting down gracefully...');
   
   try {
+    analysisQueue.stop();
     await norticAnalyzer.close();
     await dbManager.close();
     console.log('Cleanup completed');
@@ -803,6 +2904,8 @@ process.on('SIGINT', async () => {
 // Start server
 async function startServer() {
   await initializeApp();
+  await webhookDispatcher.resumePendingRetries();
+  await analysisQueue.start();
   
   server.listen(PORT, () => {
     console.log(`NORTIC Validator server running on http://localhost:${PORT}`);
@@ -816,11 +2919,33 @@ async function startServer() {
     console.log('🔗 Available endpoints:');
     console.log('  POST /api/nortic-analysis - Start new analysis');
     console.log('  GET  /api/nortic-analysis/:id/status - Get analysis status');
+    console.log('  GET  /api/nortic-analysis/:id/events - Stream analysis progress (Server-Sent Events)');
+    console.log('  POST /api/nortic-analysis/:id/cancel - Cancel a queued or running analysis');
     console.log('  GET  /api/nortic-analysis/:id/results - Get analysis results');
     console.log('  GET  /api/nortic-analysis/:id/detailed - Get detailed results');
+    console.log('  GET  /api/nortic-analysis/:id/requirements - Get compliance per NORTIC A2 requirement');
+    console.log('  GET  /api/nortic-analysis/:id/report.pdf - Download the PDF evaluation report');
+    console.log('  GET  /api/nortic-analysis/:id/report.html?lang=es|en - Self-contained HTML report');
+    console.log('  GET  /api/nortic-analysis/:id/junit.xml - Test results as JUnit XML for CI');
+    console.log('  GET  /api/nortic-analysis/:id/sarif.json - Accessibility and security findings as SARIF 2.1.0');
     console.log('  DELETE /api/nortic-analysis/:id - Delete analysis');
+    console.log('  GET  /api/queue - Get analysis queue');
+    console.log('  GET  /api/testers - List available test modules');
+    console.log('  GET  /api/requirements - List NORTIC A2 requirements catalog');
+    console.log('  GET  /api/remediation - List remediation guidance by test and issue code');
+    console.log('  GET  /api/scoring-profiles - List scoring profiles (POST/PUT/DELETE to manage)');
+    console.log('  POST /api/batches - Queue one analysis per URL (JSON list or CSV)');
+    console.log('  GET  /api/batches/:id - Batch progress and summary');
+    console.log('  GET  /api/webhooks - List webhook subscriptions (POST/PUT/DELETE to manage)');
+    console.log('  GET  /api/webhooks/:id/deliveries - Webhook delivery log');
     console.log('  GET  /api/nortic-analysis/history - Get analysis history (with sorting & filtering)');
-    console.log('  GET  /api/nortic-analysis/institutions - Get institutions list');
+    console.log('  GET  /api/nortic-analysis/export.csv?sheet=analyses|tests - Export filtered history as CSV');
+    console.log('  GET  /api/nortic-analysis/export.xlsx - Export filtered history and test results as XLSX');
+    console.log('  GET  /api/nortic-analysis/compare?base=&target= - Compare two completed analyses');
+    console.log('  GET  /api/trends?institutionId=|url= - Score trend grouped by day, week or month');
+    console.log('  GET  /api/institutions - List institutions and their domains (POST/PUT/DELETE to manage)');
+    console.log('  GET  /api/suppressions - List accepted findings and their expiry (POST/PUT/DELETE to manage)');
+    console.log('  GET  /api/rankings - Institution ranking by latest completed analysis');
     console.log('  GET  /api/health - Health check');
   });
 }
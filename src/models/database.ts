@@ -1,55 +1,234 @@
-import { Database, open } from 'sqlite';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Database, ISqlite, open } from 'sqlite';
 import sqlite3 from 'sqlite3';
 import path from 'path';
 import fs from 'fs';
+import { DEFAULT_SCORING_PROFILE } from '../services/scoring';
+import { domainCandidates } from '../services/institutions';
+import { Logger } from '../services/logger';
 
 export interface NorticAnalysis {
   id: string;
   url: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   overall_score?: number;
   compliance_level?: string;
   start_time: string;
   end_time?: string;
   duration?: number;
+  options?: string; // JSON-encoded analysis options captured when queued
+  attempts?: number;
+  scoring_profile_id?: string | null;
+  scoring_profile?: string | null; // JSON snapshot of the profile used to score the analysis
+  batch_id?: string | null;
+  institution_id?: number | null; // resolved from the URL's domain when the analysis is created
   created_at: string;
   updated_at: string;
 }
 
+export interface QueuedAnalysis {
+  id: string;
+  url: string;
+  status: 'pending' | 'in_progress';
+  position: number | null;
+  attempts: number;
+  start_time: string;
+  created_at: string;
+}
+
 export interface TestResult {
   id?: number;
   analysis_id: string;
-  category: string;
+  page_id?: number | null;
+  category: string; // display label written by the tester
+  category_id?: string | null; // stable id from the tester registry
   test_name: string;
   status: 'passed' | 'failed' | 'warning' | 'skipped';
   score?: number;
   message?: string;
   details?: any;
+  suppression?: SuppressionMark | null;
   created_at?: string;
 }
 
 export interface AccessibilityViolation {
   id?: number;
   analysis_id: string;
+  page_id?: number | null;
   rule_id: string;
   impact: 'minor' | 'moderate' | 'serious' | 'critical';
   description: string;
   help_url?: string;
   selector?: string;
   html?: string;
+  suppression?: SuppressionMark | null;
+  created_at?: string;
+}
+
+export interface AnalysisPage {
+  id?: number;
+  analysis_id: string;
+  url: string;
+  depth: number;
+  source: 'start' | 'link' | 'sitemap';
+  status: 'completed' | 'failed';
+  http_status?: number | null;
+  score?: number | null;
+  category_scores?: { [category: string]: number } | null;
+  error?: string | null;
+  created_at?: string;
+}
+
+export interface CategoryScore {
+  id?: number;
+  analysis_id: string;
+  category_id: string;
+  label: string;
+  score: number;
+  status: 'passed' | 'warning' | 'failed';
+  created_at?: string;
+}
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  description?: string | null;
+  category_weights: { [categoryId: string]: number }; // missing categories weigh 1
+  test_weights: { [testName: string]: number }; // missing tests weigh 1
+  thresholds: { passed: number; warning: number };
+  compliance_bands: { min_score: number; label: string }[];
+  is_default?: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type WebhookEvent = 'analysis.completed' | 'analysis.failed' | 'analysis.cancelled';
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string; // HMAC key for the X-Nortic-Signature header
+  events: WebhookEvent[];
+  description?: string | null;
+  active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// One row per attempt; every attempt of the same delivery shares delivery_id
+export interface WebhookDelivery {
+  id?: number;
+  delivery_id: string;
+  webhook_id: string;
+  analysis_id: string;
+  event: WebhookEvent;
+  attempt: number;
+  status: 'success' | 'failed';
+  response_status?: number | null;
+  error?: string | null;
+  duration_ms?: number | null;
+  created_at?: string;
+}
+
+// A failed delivery waiting for its next attempt; kept in the database so restarts don't lose it
+export interface WebhookRetry {
+  delivery_id: string;
+  webhook_id: string;
+  analysis_id: string;
+  attempt: number;
+  payload: string;
+  next_attempt_at: string;
+}
+
+export interface Institution {
+  id: number;
+  name: string; // official name
+  acronym?: string | null;
+  sector?: string | null;
+  parent_ministry?: string | null;
+  domains: string[]; // without "www."; subdomains belong to the same institution
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Accepted exception for a test, an axe rule or a selector on an institution's sites or under a URL
+export interface Suppression {
+  id: number;
+  institution_id?: number | null;
+  url?: string | null; // normalized like score trends: host without "www." and path, e.g. mopc.gob.do/servicios
+  test_name?: string | null;
+  rule_id?: string | null;
+  selector?: string | null;
+  justification: string;
+  author: string;
+  expires_at: string; // YYYY-MM-DD, last day it applies
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Copy of the suppression a finding matched when the analysis ran; expired ones no longer exclude it from scoring
+export interface SuppressionMark {
+  id: number;
+  justification: string;
+  author: string;
+  expires_at: string;
+  expired: boolean;
+}
+
+export interface Batch {
+  id: string;
+  name?: string | null;
+  options?: string; // JSON-encoded options shared by every analysis in the batch
   created_at?: string;
 }
 
+// Analysis counts per status for a batch
+export interface BatchCounts {
+  total: number;
+  pending: number;
+  in_progress: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+}
+
 export interface AnalysisFilters {
   url?: string;
   status?: string;
-  institution?: string;
+  institutionId?: number;
+  institution?: string; // acronym, case-insensitive
+  batchId?: string;
   dateFrom?: string;
   dateTo?: string;
 }
 
+// One completed analysis with its category scores, for score trends
+export interface ScoreHistoryEntry {
+  analysis_id: string;
+  url: string;
+  institution_id: number | null;
+  completed_at: string;
+  overall_score: number | null;
+  categories: { [categoryId: string]: { label: string; score: number } };
+}
+
+// Latest completed analysis of an institution as of a cutoff, for rankings
+export interface InstitutionLatestAnalysis {
+  institution_id: number;
+  institution_name: string;
+  institution_acronym: string | null;
+  sector: string | null;
+  analysis_id: string;
+  url: string;
+  overall_score: number | null;
+  compliance_level: string | null;
+  completed_at: string;
+}
+
+export const ANALYSIS_SORT_FIELDS = ['created_at', 'overall_score', 'status', 'url', 'compliance_level'] as const;
+
 export interface AnalysisSorting {
-  field: 'created_at' | 'overall_score' | 'status' | 'url' | 'compliance_level';
+  field: typeof ANALYSIS_SORT_FIELDS[number];
   direction: 'ASC' | 'DESC';
 }
 
@@ -60,10 +239,37 @@ export interface PaginationOptions {
   sorting?: AnalysisSorting;
 }
 
+// Current definition of nortic_analyses; also used to rebuild older tables whose CHECK constraint is outdated
+const ANALYSES_TABLE_COLUMNS = `
+  id TEXT PRIMARY KEY,
+  url TEXT NOT NULL,
+  status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed', 'cancelled')),
+  overall_score INTEGER,
+  compliance_level TEXT,
+  start_time TEXT DEFAULT CURRENT_TIMESTAMP,
+  end_time TEXT,
+  duration INTEGER,
+  options TEXT,
+  attempts INTEGER DEFAULT 0,
+  scoring_profile_id TEXT,
+  scoring_profile TEXT,
+  batch_id TEXT,
+  institution_id INTEGER REFERENCES institutions(id) ON DELETE SET NULL,
+  created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+  updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+`;
+
 export class DatabaseManager {
   private db: Database | null = null;
+  // Tail of the writes and transactions waiting for the shared connection
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Set while a transaction's own work runs, so its statements do not wait behind the transaction itself
+  private transactionScope = new AsyncLocalStorage<boolean>();
+  private logger: Logger = console;
+
+  async initialize(logger: Logger = console): Promise<void> {
+    this.logger = logger;
 
-  async initialize(): Promise<void> {
     // Resolve DB path cross-environment:
     // - In Docker: DATABASE_PATH is set to /data/nortic_validator.sqlite
     // - Local: fallback to ./nortic_validator.sqlite in project root (process.cwd())
@@ -96,21 +302,41 @@ export class DatabaseManager {
     if (!this.db) throw new Error('Database not initialized');
 
     // Create nortic_analyses table
+    await this.db.exec(`CREATE TABLE IF NOT EXISTS nortic_analyses (${ANALYSES_TABLE_COLUMNS})`);
+
+    // Columns added after the first release
+    await this.ensureColumn('nortic_analyses', 'options', 'TEXT');
+    await this.ensureColumn('nortic_analyses', 'attempts', 'INTEGER DEFAULT 0');
+    await this.ensureColumn('nortic_analyses', 'scoring_profile_id', 'TEXT');
+    await this.ensureColumn('nortic_analyses', 'scoring_profile', 'TEXT');
+    await this.ensureColumn('nortic_analyses', 'batch_id', 'TEXT');
+    await this.ensureColumn('nortic_analyses', 'institution_id', 'INTEGER REFERENCES institutions(id) ON DELETE SET NULL');
+
+    // SQLite can't alter a CHECK constraint: tables created before 'cancelled' existed are rebuilt
+    await this.rebuildAnalysesTableIfOutdated();
+
+    // Create scoring_profiles table
     await this.db.exec(`
-      CREATE TABLE IF NOT EXISTS nortic_analyses (
+      CREATE TABLE IF NOT EXISTS scoring_profiles (
         id TEXT PRIMARY KEY,
-        url TEXT NOT NULL,
-        status TEXT DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'completed', 'failed')),
-        overall_score INTEGER,
-        compliance_level TEXT,
-        start_time TEXT DEFAULT CURRENT_TIMESTAMP,
-        end_time TEXT,
-        duration INTEGER,
+        name TEXT NOT NULL,
+        description TEXT,
+        category_weights TEXT NOT NULL,
+        test_weights TEXT NOT NULL,
+        thresholds TEXT NOT NULL,
+        compliance_bands TEXT NOT NULL,
+        is_default INTEGER DEFAULT 0,
         created_at TEXT DEFAULT CURRENT_TIMESTAMP,
         updated_at TEXT DEFAULT CURRENT_TIMESTAMP
       )
     `);
 
+    // The built-in profile is only inserted once so it can be edited afterwards
+    const { count } = await this.db.get('SELECT COUNT(*) as count FROM scoring_profiles');
+    if (count === 0) {
+      await this.saveScoringProfile(DEFAULT_SCORING_PROFILE);
+    }
+
     // Create test_results table
     await this.db.exec(`
       CREATE TABLE IF NOT EXISTS test_results (
@@ -143,40 +369,222 @@ export class DatabaseManager {
       )
     `);
 
+    // Create analysis_pages table (one row per page visited in crawl mode)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS analysis_pages (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        analysis_id TEXT NOT NULL,
+        url TEXT NOT NULL,
+        depth INTEGER DEFAULT 0,
+        source TEXT DEFAULT 'link',
+        status TEXT NOT NULL CHECK (status IN ('completed', 'failed')),
+        http_status INTEGER,
+        score INTEGER,
+        category_scores TEXT,
+        error TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (analysis_id) REFERENCES nortic_analyses(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create category_scores table (scores as computed by each tester at analysis time)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS category_scores (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        analysis_id TEXT NOT NULL,
+        category_id TEXT NOT NULL,
+        label TEXT NOT NULL,
+        score INTEGER NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('passed', 'warning', 'failed')),
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE (analysis_id, category_id),
+        FOREIGN KEY (analysis_id) REFERENCES nortic_analyses(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create institutions and institution_domains tables (a domain belongs to a single institution)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS institutions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        acronym TEXT,
+        sector TEXT,
+        parent_ministry TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS institution_domains (
+        domain TEXT PRIMARY KEY,
+        institution_id INTEGER NOT NULL,
+        FOREIGN KEY (institution_id) REFERENCES institutions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create suppressions table (scoped to an institution or to a URL)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS suppressions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        institution_id INTEGER,
+        url TEXT,
+        test_name TEXT,
+        rule_id TEXT,
+        selector TEXT,
+        justification TEXT NOT NULL,
+        author TEXT NOT NULL,
+        expires_at TEXT NOT NULL,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (institution_id) REFERENCES institutions(id) ON DELETE CASCADE
+      )
+    `);
+
+    // Create batches table (analyses point to it through batch_id)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS batches (
+        id TEXT PRIMARY KEY,
+        name TEXT,
+        options TEXT,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Create webhooks and webhook_deliveries tables (delivery log)
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        description TEXT,
+        active INTEGER DEFAULT 1,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        updated_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        delivery_id TEXT NOT NULL,
+        webhook_id TEXT NOT NULL,
+        analysis_id TEXT NOT NULL,
+        event TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('success', 'failed')),
+        response_status INTEGER,
+        error TEXT,
+        duration_ms INTEGER,
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_retries (
+        delivery_id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        analysis_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        payload TEXT NOT NULL,
+        next_attempt_at TEXT NOT NULL,
+        FOREIGN KEY (webhook_id) REFERENCES webhooks(id) ON DELETE CASCADE
+      )
+    `);
+
+    await this.ensureColumn('test_results', 'category_id', 'TEXT');
+
+    // Results can point to the crawled page they were measured on
+    await this.ensureColumn('test_results', 'page_id', 'INTEGER REFERENCES analysis_pages(id) ON DELETE CASCADE');
+    await this.ensureColumn('accessibility_violations', 'page_id', 'INTEGER REFERENCES analysis_pages(id) ON DELETE CASCADE');
+
+    // JSON copy of the suppression that matched the finding (see SuppressionMark)
+    await this.ensureColumn('test_results', 'suppression', 'TEXT');
+    await this.ensureColumn('accessibility_violations', 'suppression', 'TEXT');
+
     // Create indexes for better performance
     await this.db.exec(`
       CREATE INDEX IF NOT EXISTS idx_analyses_created_at ON nortic_analyses(created_at);
       CREATE INDEX IF NOT EXISTS idx_analyses_status ON nortic_analyses(status);
       CREATE INDEX IF NOT EXISTS idx_analyses_score ON nortic_analyses(overall_score);
       CREATE INDEX IF NOT EXISTS idx_analyses_url ON nortic_analyses(url);
+      CREATE INDEX IF NOT EXISTS idx_analyses_batch_id ON nortic_analyses(batch_id);
+      CREATE INDEX IF NOT EXISTS idx_analyses_institution_id ON nortic_analyses(institution_id);
+      CREATE INDEX IF NOT EXISTS idx_institution_domains_institution_id ON institution_domains(institution_id);
+      CREATE INDEX IF NOT EXISTS idx_suppressions_institution_id ON suppressions(institution_id);
       CREATE INDEX IF NOT EXISTS idx_test_results_analysis_id ON test_results(analysis_id);
       CREATE INDEX IF NOT EXISTS idx_violations_analysis_id ON accessibility_violations(analysis_id);
+      CREATE INDEX IF NOT EXISTS idx_pages_analysis_id ON analysis_pages(analysis_id);
+      CREATE INDEX IF NOT EXISTS idx_category_scores_analysis_id ON category_scores(analysis_id);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id);
     `);
   }
 
-  // Helper function to extract institution name from URL
-  private extractInstitutionName(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      const hostname = urlObj.hostname.toLowerCase();
-      
-      // Remove www. prefix
-      const cleanHostname = hostname.replace(/^www\./, '');
-      
-      // Extract institution name from government domains
-      if (cleanHostname.endsWith('.gob.do')) {
-        const parts = cleanHostname.split('.');
-        return parts[0]; // e.g., "presidencia" from "presidencia.gob.do"
-      } else if (cleanHostname.endsWith('.gov.do')) {
-        const parts = cleanHostname.split('.');
-        return parts[0]; // e.g., "senado" from "senado.gov.do"
-      } else {
-        // For other domains, try to extract meaningful name
-        const parts = cleanHostname.split('.');
-        return parts[0];
+  private async rebuildAnalysesTableIfOutdated(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const table = await this.db.get("SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'nortic_analyses'");
+    if (!table || table.sql.includes("'cancelled'")) return;
+
+    const columns = (await this.db.all('PRAGMA table_info(nortic_analyses)')).map((c: any) => c.name).join(', ');
+
+    await this.runInTransaction(async () => {
+      await this.run(`CREATE TABLE nortic_analyses_rebuild (${ANALYSES_TABLE_COLUMNS})`);
+      await this.run(`INSERT INTO nortic_analyses_rebuild (${columns}) SELECT ${columns} FROM nortic_analyses`);
+      await this.run('DROP TABLE nortic_analyses');
+      await this.run('ALTER TABLE nortic_analyses_rebuild RENAME TO nortic_analyses');
+    });
+    this.logger.log('[INFO] Rebuilt nortic_analyses table to allow the cancelled status');
+  }
+
+  /**
+   * Runs `work` between BEGIN and COMMIT (ROLLBACK when it throws) on the shared connection.
+   * Transactions and every write made through run() share one queue, so no other request's write can land
+   * inside an open transaction and be undone by its ROLLBACK. Reads are not queued: while a transaction is
+   * open they may see its uncommitted rows.
+   */
+  private runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    // A transaction started from inside another one just joins it
+    if (this.transactionScope.getStore()) return work();
+
+    return this.enqueueWrite(async () => {
+      if (!this.db) throw new Error('Database not initialized');
+
+      await this.db.run('BEGIN TRANSACTION');
+      try {
+        const result = await this.transactionScope.run(true, work);
+        await this.db.run('COMMIT');
+        return result;
+      } catch (error) {
+        await this.db.run('ROLLBACK');
+        throw error;
       }
-    } catch (error) {
-      return '';
+    });
+  }
+
+  // Writes wait for the transactions and writes queued before them, except the ones a transaction makes itself
+  private run(sql: string, params: unknown[] = []): Promise<ISqlite.RunResult> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (this.transactionScope.getStore()) return this.db.run(sql, params);
+
+    return this.enqueueWrite(() => this.db!.run(sql, params));
+  }
+
+  private enqueueWrite<T>(write: () => Promise<T>): Promise<T> {
+    const next = this.writeQueue.then(write);
+    this.writeQueue = next.then(() => undefined, () => undefined);
+    return next;
+  }
+
+  // Adds a column to an existing table when an older database lacks it
+  private async ensureColumn(table: string, column: string, definition: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const columns = await this.db.all(`PRAGMA table_info(${table})`);
+    if (!columns.some((c: any) => c.name === column)) {
+      await this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
     }
   }
 
@@ -184,9 +592,9 @@ export class DatabaseManager {
     if (!this.db) throw new Error('Database not initialized');
 
     const now = new Date().toISOString();
-    await this.db.run(`
-      INSERT INTO nortic_analyses (id, url, status, overall_score, compliance_level, start_time, end_time, duration, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    await this.run(`
+      INSERT INTO nortic_analyses (id, url, status, overall_score, compliance_level, start_time, end_time, duration, options, attempts, scoring_profile_id, scoring_profile, batch_id, institution_id, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       analysis.id,
       analysis.url,
@@ -196,6 +604,12 @@ export class DatabaseManager {
       analysis.start_time,
       analysis.end_time,
       analysis.duration,
+      analysis.options,
+      analysis.attempts || 0,
+      analysis.scoring_profile_id ?? null,
+      analysis.scoring_profile ?? null,
+      analysis.batch_id ?? null,
+      analysis.institution_id !== undefined ? analysis.institution_id : await this.findInstitutionIdForUrl(analysis.url),
       now,
       now
     ]);
@@ -212,7 +626,7 @@ export class DatabaseManager {
     values.push(new Date().toISOString()); // updated_at
     values.push(id); // WHERE condition
 
-    await this.db.run(`
+    await this.run(`
       UPDATE nortic_analyses 
       SET ${setClause}, updated_at = ?
       WHERE id = ?
@@ -229,33 +643,33 @@ export class DatabaseManager {
   async deleteAnalysis(id: string): Promise<boolean> {
     if (!this.db) throw new Error('Database not initialized');
 
-    try {
-      // Start transaction
-      await this.db.run('BEGIN TRANSACTION');
-
+    return this.runInTransaction(async () => {
       // Delete from test_results first (due to foreign key constraint)
-      await this.db.run('DELETE FROM test_results WHERE analysis_id = ?', [id]);
+      await this.run('DELETE FROM test_results WHERE analysis_id = ?', [id]);
       
       // Delete from accessibility_violations
-      await this.db.run('DELETE FROM accessibility_violations WHERE analysis_id = ?', [id]);
+      await this.run('DELETE FROM accessibility_violations WHERE analysis_id = ?', [id]);
+
+      // Delete crawled pages
+      await this.run('DELETE FROM analysis_pages WHERE analysis_id = ?', [id]);
+
+      // Delete category scores
+      await this.run('DELETE FROM category_scores WHERE analysis_id = ?', [id]);
+
+      // Delete the webhook delivery log and any pending retries
+      await this.run('DELETE FROM webhook_deliveries WHERE analysis_id = ?', [id]);
+      await this.run('DELETE FROM webhook_retries WHERE analysis_id = ?', [id]);
       
       // Delete from nortic_analyses
-      const result = await this.db.run('DELETE FROM nortic_analyses WHERE id = ?', [id]);
-      
-      // Commit transaction
-      await this.db.run('COMMIT');
-      
+      const result = await this.run('DELETE FROM nortic_analyses WHERE id = ?', [id]);
+
       // Return true if at least one row was deleted
       return (result.changes || 0) > 0;
-    } catch (error) {
-      // Rollback transaction on error
-      await this.db.run('ROLLBACK');
-      throw error;
-    }
+    });
   }
 
   async getAnalyses(options: PaginationOptions): Promise<{
-    analyses: (NorticAnalysis & { institution_name: string })[];
+    analyses: (NorticAnalysis & { institution_name: string | null; institution_acronym: string | null })[];
     pagination: {
       page: number;
       limit: number;
@@ -275,53 +689,64 @@ export class DatabaseManager {
     const params: any[] = [];
 
     if (filters.url) {
-      whereConditions.push('url LIKE ?');
+      whereConditions.push('a.url LIKE ?');
       params.push(`%${filters.url}%`);
     }
 
     if (filters.status) {
-      whereConditions.push('status = ?');
+      whereConditions.push('a.status = ?');
       params.push(filters.status);
     }
 
+    if (filters.institutionId) {
+      whereConditions.push('a.institution_id = ?');
+      params.push(filters.institutionId);
+    }
+
     if (filters.institution) {
-      whereConditions.push('url LIKE ?');
-      params.push(`%${filters.institution}%`);
+      whereConditions.push('i.acronym = ? COLLATE NOCASE');
+      params.push(filters.institution);
+    }
+
+    if (filters.batchId) {
+      whereConditions.push('a.batch_id = ?');
+      params.push(filters.batchId);
     }
 
     if (filters.dateFrom) {
-      whereConditions.push('created_at >= ?');
+      whereConditions.push('a.created_at >= ?');
       params.push(filters.dateFrom);
     }
 
     if (filters.dateTo) {
-      whereConditions.push('created_at <= ?');
+      whereConditions.push('a.created_at <= ?');
       params.push(filters.dateTo);
     }
 
     const whereClause = whereConditions.length > 0 ? ` WHERE ${whereConditions.join(' AND ')}` : '';
 
     // Build ORDER BY clause
-    let orderClause = ' ORDER BY created_at DESC'; // Default sorting
+    let orderClause = ' ORDER BY a.created_at DESC'; // Default sorting
     if (sorting) {
-      const validFields = ['created_at', 'overall_score', 'status', 'url', 'compliance_level'];
       const validDirections = ['ASC', 'DESC'];
       
-      if (validFields.includes(sorting.field) && validDirections.includes(sorting.direction)) {
-        orderClause = ` ORDER BY ${sorting.field} ${sorting.direction}`;
+      if (ANALYSIS_SORT_FIELDS.includes(sorting.field) && validDirections.includes(sorting.direction)) {
+        orderClause = ` ORDER BY a.${sorting.field} ${sorting.direction}`;
         
         // Add secondary sort for consistency
         if (sorting.field !== 'created_at') {
-          orderClause += ', created_at DESC';
+          orderClause += ', a.created_at DESC';
         }
       }
     }
 
+    const fromClause = ' FROM nortic_analyses a LEFT JOIN institutions i ON i.id = a.institution_id';
+
     // Count query
-    const countQuery = `SELECT COUNT(*) as total FROM nortic_analyses${whereClause}`;
+    const countQuery = `SELECT COUNT(*) as total${fromClause}${whereClause}`;
     
     // Data query
-    const dataQuery = `SELECT * FROM nortic_analyses${whereClause}${orderClause} LIMIT ? OFFSET ?`;
+    const dataQuery = `SELECT a.*, i.name as institution_name, i.acronym as institution_acronym${fromClause}${whereClause}${orderClause} LIMIT ? OFFSET ?`;
     const dataParams = [...params, limit, offset];
 
     const [countResult, analyses] = await Promise.all([
@@ -332,14 +757,8 @@ export class DatabaseManager {
     const total = countResult.total;
     const totalPages = Math.ceil(total / limit);
 
-    // Add institution name to each analysis
-    const analysesWithInstitution = analyses.map(analysis => ({
-      ...analysis,
-      institution_name: this.extractInstitutionName(analysis.url)
-    }));
-
     return {
-      analyses: analysesWithInstitution,
+      analyses,
       pagination: {
         page,
         limit,
@@ -377,6 +796,111 @@ export class DatabaseManager {
     };
   }
 
+  // Queue: the pending rows of nortic_analyses, oldest first
+  async claimNextPendingAnalysis(): Promise<NorticAnalysis | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const next = await this.db.get(
+      "SELECT * FROM nortic_analyses WHERE status = 'pending' ORDER BY created_at, rowid LIMIT 1"
+    );
+    if (!next) return null;
+
+    const now = new Date().toISOString();
+    const result = await this.run(`
+      UPDATE nortic_analyses
+      SET status = 'in_progress', start_time = ?, attempts = COALESCE(attempts, 0) + 1, updated_at = ?
+      WHERE id = ? AND status = 'pending'
+    `, [now, now, next.id]);
+
+    // Another worker claimed it first
+    if ((result.changes || 0) === 0) return null;
+
+    return { ...next, status: 'in_progress', start_time: now, attempts: (next.attempts || 0) + 1 };
+  }
+
+  // Only queued analyses can be cancelled here; running ones are stopped by the analyzer
+  async cancelPendingAnalysis(id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    const result = await this.run(
+      "UPDATE nortic_analyses SET status = 'cancelled', end_time = ?, updated_at = ? WHERE id = ? AND status = 'pending'",
+      [now, now, id]
+    );
+    return (result.changes || 0) > 0;
+  }
+
+  async getQueuePosition(id: string): Promise<number | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.get(`
+      SELECT COUNT(*) as position
+      FROM nortic_analyses p, (SELECT rowid AS rid, created_at FROM nortic_analyses WHERE id = ? AND status = 'pending') target
+      WHERE p.status = 'pending'
+        AND (p.created_at < target.created_at OR (p.created_at = target.created_at AND p.rowid <= target.rid))
+    `, [id]);
+
+    return result && result.position > 0 ? result.position : null;
+  }
+
+  async getQueuedAnalyses(): Promise<QueuedAnalysis[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all(`
+      SELECT id, url, status, attempts, start_time, created_at
+      FROM nortic_analyses
+      WHERE status IN ('pending', 'in_progress')
+      ORDER BY CASE status WHEN 'in_progress' THEN 0 ELSE 1 END, created_at, rowid
+    `);
+
+    let position = 0;
+    return rows.map(row => ({
+      ...row,
+      attempts: row.attempts || 0,
+      position: row.status === 'pending' ? ++position : null
+    }));
+  }
+
+  // Analyses left in_progress by a previous process; their partial results are discarded
+  async resetStaleAnalyses(maxAttempts: number): Promise<{ requeued: string[]; failed: string[] }> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const stale = await this.db.all("SELECT id, attempts FROM nortic_analyses WHERE status = 'in_progress'");
+    const requeued: string[] = [];
+    const failed: string[] = [];
+    const now = new Date().toISOString();
+
+    for (const analysis of stale) {
+      await this.deleteAnalysisResults(analysis.id);
+
+      if ((analysis.attempts || 0) >= maxAttempts) {
+        await this.run(
+          "UPDATE nortic_analyses SET status = 'failed', end_time = ?, updated_at = ? WHERE id = ?",
+          [now, now, analysis.id]
+        );
+        failed.push(analysis.id);
+      } else {
+        await this.run(
+          "UPDATE nortic_analyses SET status = 'pending', updated_at = ? WHERE id = ?",
+          [now, analysis.id]
+        );
+        requeued.push(analysis.id);
+      }
+    }
+
+    return { requeued, failed };
+  }
+
+  // Removes everything an analysis produced but keeps the analysis row itself
+  async deleteAnalysisResults(id: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.run('DELETE FROM test_results WHERE analysis_id = ?', [id]);
+    await this.run('DELETE FROM accessibility_violations WHERE analysis_id = ?', [id]);
+    await this.run('DELETE FROM analysis_pages WHERE analysis_id = ?', [id]);
+    await this.run('DELETE FROM category_scores WHERE analysis_id = ?', [id]);
+  }
+
   async getLatestAnalysis(): Promise<NorticAnalysis | null> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -387,17 +911,20 @@ export class DatabaseManager {
   async createTestResult(result: Omit<TestResult, 'id' | 'created_at'>): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    await this.db.run(`
-      INSERT INTO test_results (analysis_id, category, test_name, status, score, message, details)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+    await this.run(`
+      INSERT INTO test_results (analysis_id, page_id, category, category_id, test_name, status, score, message, details, suppression)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       result.analysis_id,
+      result.page_id ?? null,
       result.category,
+      result.category_id ?? null,
       result.test_name,
       result.status,
       result.score,
       result.message,
-      JSON.stringify(result.details)
+      JSON.stringify(result.details),
+      result.suppression ? JSON.stringify(result.suppression) : null
     ]);
   }
 
@@ -411,51 +938,656 @@ export class DatabaseManager {
 
     return results.map(result => ({
       ...result,
-      details: result.details ? JSON.parse(result.details) : null
+      details: result.details ? JSON.parse(result.details) : null,
+      suppression: result.suppression ? JSON.parse(result.suppression) : null
     }));
   }
 
   async createAccessibilityViolation(violation: Omit<AccessibilityViolation, 'id' | 'created_at'>): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    await this.db.run(`
-      INSERT INTO accessibility_violations (analysis_id, rule_id, impact, description, help_url, selector, html)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+    await this.run(`
+      INSERT INTO accessibility_violations (analysis_id, page_id, rule_id, impact, description, help_url, selector, html, suppression)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `, [
       violation.analysis_id,
+      violation.page_id ?? null,
       violation.rule_id,
       violation.impact,
       violation.description,
       violation.help_url,
       violation.selector,
-      violation.html
+      violation.html,
+      violation.suppression ? JSON.stringify(violation.suppression) : null
     ]);
   }
 
   async getAccessibilityViolations(analysisId: string): Promise<AccessibilityViolation[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    return await this.db.all(
+    const violations = await this.db.all(
       'SELECT * FROM accessibility_violations WHERE analysis_id = ? ORDER BY impact, created_at',
       [analysisId]
     );
+
+    return violations.map(violation => ({
+      ...violation,
+      suppression: violation.suppression ? JSON.parse(violation.suppression) : null
+    }));
   }
 
-  // New method to get unique institutions for filter dropdown
-  async getInstitutions(): Promise<string[]> {
+  async createAnalysisPage(page: Omit<AnalysisPage, 'id' | 'created_at'>): Promise<number> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const results = await this.db.all('SELECT DISTINCT url FROM nortic_analyses ORDER BY url');
-    
-    const institutions = new Set<string>();
-    results.forEach(result => {
-      const institutionName = this.extractInstitutionName(result.url);
-      if (institutionName) {
-        institutions.add(institutionName);
+    const result = await this.run(`
+      INSERT INTO analysis_pages (analysis_id, url, depth, source, status, http_status, score, category_scores, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      page.analysis_id,
+      page.url,
+      page.depth,
+      page.source,
+      page.status,
+      page.http_status ?? null,
+      page.score ?? null,
+      page.category_scores ? JSON.stringify(page.category_scores) : null,
+      page.error ?? null
+    ]);
+
+    return result.lastID as number;
+  }
+
+  async getAnalysisPages(analysisId: string): Promise<AnalysisPage[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const pages = await this.db.all(
+      'SELECT * FROM analysis_pages WHERE analysis_id = ? ORDER BY id',
+      [analysisId]
+    );
+
+    return pages.map(page => ({
+      ...page,
+      category_scores: page.category_scores ? JSON.parse(page.category_scores) : null
+    }));
+  }
+
+  async createCategoryScore(categoryScore: Omit<CategoryScore, 'id' | 'created_at'>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.run(`
+      INSERT INTO category_scores (analysis_id, category_id, label, score, status)
+      VALUES (?, ?, ?, ?, ?)
+    `, [
+      categoryScore.analysis_id,
+      categoryScore.category_id,
+      categoryScore.label,
+      categoryScore.score,
+      categoryScore.status
+    ]);
+  }
+
+  async getCategoryScores(analysisId: string): Promise<CategoryScore[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return await this.db.all(
+      'SELECT * FROM category_scores WHERE analysis_id = ? ORDER BY id',
+      [analysisId]
+    );
+  }
+
+  async getCategoryScoresForAnalyses(analysisIds: string[]): Promise<CategoryScore[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (analysisIds.length === 0) return [];
+
+    return await this.db.all(
+      `SELECT * FROM category_scores WHERE analysis_id IN (${analysisIds.map(() => '?').join(', ')}) ORDER BY id`,
+      analysisIds
+    );
+  }
+
+  // Test results of several analyses without their details, with the URL of the page each one ran on
+  async getTestResultsForAnalyses(analysisIds: string[]): Promise<(Omit<TestResult, 'details'> & { page_url: string | null })[]> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (analysisIds.length === 0) return [];
+
+    const results = await this.db.all(
+      `SELECT t.id, t.analysis_id, t.page_id, t.category, t.category_id, t.test_name, t.status, t.score, t.message, t.created_at,
+              t.suppression, p.url as page_url
+       FROM test_results t
+       LEFT JOIN analysis_pages p ON p.id = t.page_id
+       WHERE t.analysis_id IN (${analysisIds.map(() => '?').join(', ')})
+       ORDER BY t.analysis_id, t.id`,
+      analysisIds
+    );
+
+    return results.map(result => ({
+      ...result,
+      suppression: result.suppression ? JSON.parse(result.suppression) : null
+    }));
+  }
+
+  private parseScoringProfile(row: any): ScoringProfile {
+    return {
+      ...row,
+      category_weights: JSON.parse(row.category_weights),
+      test_weights: JSON.parse(row.test_weights),
+      thresholds: JSON.parse(row.thresholds),
+      compliance_bands: JSON.parse(row.compliance_bands),
+      is_default: !!row.is_default
+    };
+  }
+
+  async getScoringProfiles(): Promise<ScoringProfile[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all('SELECT * FROM scoring_profiles ORDER BY is_default DESC, name');
+    return rows.map(row => this.parseScoringProfile(row));
+  }
+
+  async getScoringProfile(id: string): Promise<ScoringProfile | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM scoring_profiles WHERE id = ?', [id]);
+    return row ? this.parseScoringProfile(row) : null;
+  }
+
+  async getDefaultScoringProfile(): Promise<ScoringProfile | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM scoring_profiles WHERE is_default = 1 LIMIT 1');
+    return row ? this.parseScoringProfile(row) : null;
+  }
+
+  // Inserts or replaces a profile; marking it as default clears the flag on the others
+  async saveScoringProfile(profile: Omit<ScoringProfile, 'created_at' | 'updated_at'>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    await this.runInTransaction(async () => {
+      if (profile.is_default) {
+        await this.run('UPDATE scoring_profiles SET is_default = 0 WHERE id != ?', [profile.id]);
+      }
+
+      await this.run(`
+        INSERT INTO scoring_profiles (id, name, description, category_weights, test_weights, thresholds, compliance_bands, is_default, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET
+          name = excluded.name,
+          description = excluded.description,
+          category_weights = excluded.category_weights,
+          test_weights = excluded.test_weights,
+          thresholds = excluded.thresholds,
+          compliance_bands = excluded.compliance_bands,
+          is_default = excluded.is_default,
+          updated_at = excluded.updated_at
+      `, [
+        profile.id,
+        profile.name,
+        profile.description ?? null,
+        JSON.stringify(profile.category_weights),
+        JSON.stringify(profile.test_weights),
+        JSON.stringify(profile.thresholds),
+        JSON.stringify(profile.compliance_bands),
+        profile.is_default ? 1 : 0,
+        now,
+        now
+      ]);
+    });
+  }
+
+  async deleteScoringProfile(id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    // Analyses keep their own snapshot of the profile, so nothing else needs cleaning up
+    const result = await this.run('DELETE FROM scoring_profiles WHERE id = ?', [id]);
+    return (result.changes || 0) > 0;
+  }
+
+  async createBatch(batch: Omit<Batch, 'created_at'>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.run(
+      'INSERT INTO batches (id, name, options, created_at) VALUES (?, ?, ?, ?)',
+      [batch.id, batch.name ?? null, batch.options ?? null, new Date().toISOString()]
+    );
+  }
+
+  async getBatch(id: string): Promise<Batch | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const batch = await this.db.get('SELECT * FROM batches WHERE id = ?', [id]);
+    return batch || null;
+  }
+
+  // Newest first, with the status counts of their analyses
+  async getBatches(): Promise<(Batch & BatchCounts)[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return await this.db.all(`
+      SELECT b.*,
+        COUNT(a.id) as total,
+        COALESCE(SUM(a.status = 'pending'), 0) as pending,
+        COALESCE(SUM(a.status = 'in_progress'), 0) as in_progress,
+        COALESCE(SUM(a.status = 'completed'), 0) as completed,
+        COALESCE(SUM(a.status = 'failed'), 0) as failed,
+        COALESCE(SUM(a.status = 'cancelled'), 0) as cancelled
+      FROM batches b
+      LEFT JOIN nortic_analyses a ON a.batch_id = b.id
+      GROUP BY b.id
+      ORDER BY b.created_at DESC
+    `);
+  }
+
+  async getBatchAnalyses(batchId: string): Promise<NorticAnalysis[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return await this.db.all(
+      'SELECT * FROM nortic_analyses WHERE batch_id = ? ORDER BY created_at, rowid',
+      [batchId]
+    );
+  }
+
+  private parseWebhook(row: any): Webhook {
+    return {
+      ...row,
+      events: JSON.parse(row.events),
+      active: !!row.active
+    };
+  }
+
+  async getWebhooks(): Promise<Webhook[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all('SELECT * FROM webhooks ORDER BY created_at');
+    return rows.map(row => this.parseWebhook(row));
+  }
+
+  async getWebhook(id: string): Promise<Webhook | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM webhooks WHERE id = ?', [id]);
+    return row ? this.parseWebhook(row) : null;
+  }
+
+  async saveWebhook(webhook: Omit<Webhook, 'created_at' | 'updated_at'>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    await this.run(`
+      INSERT INTO webhooks (id, url, secret, events, description, active, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(id) DO UPDATE SET
+        url = excluded.url,
+        secret = excluded.secret,
+        events = excluded.events,
+        description = excluded.description,
+        active = excluded.active,
+        updated_at = excluded.updated_at
+    `, [
+      webhook.id,
+      webhook.url,
+      webhook.secret,
+      JSON.stringify(webhook.events),
+      webhook.description ?? null,
+      webhook.active ? 1 : 0,
+      now,
+      now
+    ]);
+  }
+
+  async deleteWebhook(id: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.runInTransaction(async () => {
+      await this.run('DELETE FROM webhook_deliveries WHERE webhook_id = ?', [id]);
+      await this.run('DELETE FROM webhook_retries WHERE webhook_id = ?', [id]);
+      const result = await this.run('DELETE FROM webhooks WHERE id = ?', [id]);
+      return (result.changes || 0) > 0;
+    });
+  }
+
+  async createWebhookDelivery(delivery: Omit<WebhookDelivery, 'id' | 'created_at'>): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.run(`
+      INSERT INTO webhook_deliveries (delivery_id, webhook_id, analysis_id, event, attempt, status, response_status, error, duration_ms)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `, [
+      delivery.delivery_id,
+      delivery.webhook_id,
+      delivery.analysis_id,
+      delivery.event,
+      delivery.attempt,
+      delivery.status,
+      delivery.response_status ?? null,
+      delivery.error ?? null,
+      delivery.duration_ms ?? null
+    ]);
+  }
+
+  // Most recent attempts first
+  async getWebhookDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDelivery[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return await this.db.all(
+      'SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY id DESC LIMIT ?',
+      [webhookId, limit]
+    );
+  }
+
+  async createWebhookRetry(retry: WebhookRetry): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.run(`
+      INSERT OR REPLACE INTO webhook_retries (delivery_id, webhook_id, analysis_id, attempt, payload, next_attempt_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `, [retry.delivery_id, retry.webhook_id, retry.analysis_id, retry.attempt, retry.payload, retry.next_attempt_at]);
+  }
+
+  async getWebhookRetries(): Promise<WebhookRetry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return await this.db.all('SELECT * FROM webhook_retries ORDER BY next_attempt_at');
+  }
+
+  // Removes a retry before it runs; false when it was already taken or its webhook or analysis was deleted
+  async takeWebhookRetry(deliveryId: string): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.run('DELETE FROM webhook_retries WHERE delivery_id = ?', [deliveryId]);
+    return (result.changes || 0) > 0;
+  }
+
+  // Completed analyses oldest first; urlContains narrows the scan, callers still match the exact URL
+  async getScoreHistory(filters: { institutionId?: number; urlContains?: string; dateFrom?: string; dateTo?: string }): Promise<ScoreHistoryEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const whereConditions: string[] = ["a.status = 'completed'"];
+    const params: any[] = [];
+
+    if (filters.institutionId !== undefined) {
+      whereConditions.push('a.institution_id = ?');
+      params.push(filters.institutionId);
+    }
+
+    if (filters.urlContains) {
+      whereConditions.push('a.url LIKE ?');
+      params.push(`%${filters.urlContains}%`);
+    }
+
+    if (filters.dateFrom) {
+      whereConditions.push('COALESCE(a.end_time, a.start_time) >= ?');
+      params.push(filters.dateFrom);
+    }
+
+    if (filters.dateTo) {
+      whereConditions.push('COALESCE(a.end_time, a.start_time) <= ?');
+      params.push(filters.dateTo);
+    }
+
+    const rows = await this.db.all(`
+      SELECT a.id, a.url, a.institution_id, COALESCE(a.end_time, a.start_time) as completed_at, a.overall_score,
+             c.category_id, c.label, c.score
+      FROM nortic_analyses a
+      LEFT JOIN category_scores c ON c.analysis_id = a.id
+      WHERE ${whereConditions.join(' AND ')}
+      ORDER BY completed_at, a.id, c.id
+    `, params);
+
+    const entries = new Map<string, ScoreHistoryEntry>();
+    for (const row of rows) {
+      let entry = entries.get(row.id);
+      if (!entry) {
+        entry = {
+          analysis_id: row.id,
+          url: row.url,
+          institution_id: row.institution_id,
+          completed_at: row.completed_at,
+          overall_score: row.overall_score,
+          categories: {}
+        };
+        entries.set(row.id, entry);
+      }
+      if (row.category_id) {
+        entry.categories[row.category_id] = { label: row.label, score: row.score };
+      }
+    }
+    return Array.from(entries.values());
+  }
+
+  async getLatestInstitutionAnalyses(cutoff: string, sector?: string): Promise<InstitutionLatestAnalysis[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const params: any[] = [cutoff];
+    let sectorCondition = '';
+    if (sector) {
+      sectorCondition = ' AND i.sector = ? COLLATE NOCASE';
+      params.push(sector);
+    }
+
+    const rows = await this.db.all(`
+      SELECT a.institution_id, i.name as institution_name, i.acronym as institution_acronym, i.sector,
+             a.id as analysis_id, a.url, a.overall_score, a.compliance_level,
+             COALESCE(a.end_time, a.start_time) as completed_at
+      FROM nortic_analyses a
+      JOIN institutions i ON i.id = a.institution_id
+      WHERE a.status = 'completed' AND COALESCE(a.end_time, a.start_time) <= ?${sectorCondition}
+      ORDER BY completed_at DESC
+    `, params);
+
+    // Rows are newest first, so the first one seen per institution is its latest
+    const latest = new Map<number, InstitutionLatestAnalysis>();
+    for (const row of rows) {
+      if (!latest.has(row.institution_id)) {
+        latest.set(row.institution_id, row);
+      }
+    }
+    return Array.from(latest.values());
+  }
+
+  // Most specific registered domain wins: transparencia.mopc.gob.do matches mopc.gob.do unless it is registered itself
+  async findInstitutionIdForUrl(url: string): Promise<number | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const candidates = domainCandidates(url);
+    if (candidates.length === 0) return null;
+
+    const rows = await this.db.all(
+      `SELECT domain, institution_id FROM institution_domains WHERE domain IN (${candidates.map(() => '?').join(', ')})`,
+      candidates
+    );
+    const owner = candidates.map(candidate => rows.find(row => row.domain === candidate)).find(row => row);
+    return owner ? owner.institution_id : null;
+  }
+
+  private async attachDomains(rows: any[]): Promise<Institution[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const domains = await this.db.all('SELECT domain, institution_id FROM institution_domains ORDER BY domain');
+    return rows.map(row => ({
+      ...row,
+      domains: domains.filter(domain => domain.institution_id === row.id).map(domain => domain.domain)
+    }));
+  }
+
+  async getInstitutions(): Promise<(Institution & { analysis_count: number })[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all(`
+      SELECT i.*, (SELECT COUNT(*) FROM nortic_analyses a WHERE a.institution_id = i.id) as analysis_count
+      FROM institutions i
+      ORDER BY i.name
+    `);
+    return await this.attachDomains(rows) as (Institution & { analysis_count: number })[];
+  }
+
+  async getInstitution(id: number): Promise<Institution | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.get('SELECT * FROM institutions WHERE id = ?', [id]);
+    if (!row) return null;
+    return (await this.attachDomains([row]))[0];
+  }
+
+  // Domains from the list that already belong to an institution other than excludeId
+  async getDomainConflicts(domains: string[], excludeId?: number): Promise<{ domain: string; institution_id: number }[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    if (domains.length === 0) return [];
+    return await this.db.all(
+      `SELECT domain, institution_id FROM institution_domains WHERE domain IN (${domains.map(() => '?').join(', ')}) AND institution_id != ?`,
+      [...domains, excludeId ?? -1]
+    );
+  }
+
+  // Creates (no id) or updates an institution, replaces its domains and relinks the affected analyses
+  async saveInstitution(institution: Omit<Institution, 'id' | 'created_at' | 'updated_at'>, id?: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    return this.runInTransaction(async () => {
+      let previousDomains: string[] = [];
+      if (id === undefined) {
+        const result = await this.run(`
+          INSERT INTO institutions (name, acronym, sector, parent_ministry, created_at, updated_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+        `, [institution.name, institution.acronym ?? null, institution.sector ?? null, institution.parent_ministry ?? null, now, now]);
+        id = result.lastID as number;
+      } else {
+        await this.run(`
+          UPDATE institutions SET name = ?, acronym = ?, sector = ?, parent_ministry = ?, updated_at = ?
+          WHERE id = ?
+        `, [institution.name, institution.acronym ?? null, institution.sector ?? null, institution.parent_ministry ?? null, now, id]);
+        previousDomains = await this.getInstitutionDomains(id);
+        await this.run('DELETE FROM institution_domains WHERE institution_id = ?', [id]);
+      }
+
+      for (const domain of institution.domains) {
+        await this.run('INSERT INTO institution_domains (domain, institution_id) VALUES (?, ?)', [domain, id]);
       }
+
+      await this.relinkAnalyses([...previousDomains, ...institution.domains]);
+      return id;
+    });
+  }
+
+  async deleteInstitution(id: number): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.runInTransaction(async () => {
+      const domains = await this.getInstitutionDomains(id);
+      await this.run('DELETE FROM institution_domains WHERE institution_id = ?', [id]);
+      await this.run('DELETE FROM suppressions WHERE institution_id = ?', [id]);
+      await this.run('UPDATE nortic_analyses SET institution_id = NULL WHERE institution_id = ?', [id]);
+      const result = await this.run('DELETE FROM institutions WHERE id = ?', [id]);
+      // Another institution may own a parent domain of the unlinked analyses
+      await this.relinkAnalyses(domains);
+      return (result.changes || 0) > 0;
     });
+  }
+
+  private async getInstitutionDomains(id: number): Promise<string[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.all('SELECT domain FROM institution_domains WHERE institution_id = ?', [id]);
+    return rows.map(row => row.domain);
+  }
+
+  // Recomputes institution_id for the analyses whose host is one of the changed domains or below them
+  private async relinkAnalyses(changedDomains: string[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const changed = Array.from(new Set(changedDomains));
+    if (changed.length === 0) return;
+
+    const domains = new Map<string, number>();
+    for (const row of await this.db.all('SELECT domain, institution_id FROM institution_domains')) {
+      domains.set(row.domain, row.institution_id);
+    }
+
+    // The substring match only narrows the scan; the host is checked exactly below
+    const analyses = await this.db.all(
+      `SELECT id, url, institution_id FROM nortic_analyses WHERE ${changed.map(() => 'instr(lower(url), ?) > 0').join(' OR ')}`,
+      changed
+    );
+    for (const analysis of analyses) {
+      const candidates = domainCandidates(analysis.url);
+      if (!candidates.some(candidate => changed.includes(candidate))) continue;
+
+      const owner = candidates.find(candidate => domains.has(candidate));
+      const institutionId = owner ? domains.get(owner)! : null;
+      if (institutionId !== analysis.institution_id) {
+        await this.run('UPDATE nortic_analyses SET institution_id = ? WHERE id = ?', [institutionId, analysis.id]);
+      }
+    }
+  }
+
+  async getSuppressions(filters: { institutionId?: number } = {}): Promise<(Suppression & { institution_name: string | null })[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const where = filters.institutionId ? ' WHERE s.institution_id = ?' : '';
+    return await this.db.all(`
+      SELECT s.*, i.name as institution_name
+      FROM suppressions s
+      LEFT JOIN institutions i ON i.id = s.institution_id${where}
+      ORDER BY s.expires_at, s.id
+    `, filters.institutionId ? [filters.institutionId] : []);
+  }
+
+  async getSuppression(id: number): Promise<Suppression | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const suppression = await this.db.get('SELECT * FROM suppressions WHERE id = ?', [id]);
+    return suppression || null;
+  }
+
+  // Suppressions that may apply to an analysis: the institution's and every URL-scoped one (matched per page)
+  async getSuppressionsForInstitution(institutionId: number | null): Promise<Suppression[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return await this.db.all(
+      'SELECT * FROM suppressions WHERE url IS NOT NULL OR institution_id = ? ORDER BY id',
+      [institutionId ?? -1]
+    );
+  }
+
+  // Creates (no id) or updates a suppression
+  async saveSuppression(suppression: Omit<Suppression, 'id' | 'created_at' | 'updated_at'>, id?: number): Promise<number> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const now = new Date().toISOString();
+    const values = [
+      suppression.institution_id ?? null,
+      suppression.url ?? null,
+      suppression.test_name ?? null,
+      suppression.rule_id ?? null,
+      suppression.selector ?? null,
+      suppression.justification,
+      suppression.author,
+      suppression.expires_at
+    ];
+
+    if (id === undefined) {
+      const result = await this.run(`
+        INSERT INTO suppressions (institution_id, url, test_name, rule_id, selector, justification, author, expires_at, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [...values, now, now]);
+      return result.lastID as number;
+    }
+
+    await this.run(`
+      UPDATE suppressions
+      SET institution_id = ?, url = ?, test_name = ?, rule_id = ?, selector = ?, justification = ?, author = ?, expires_at = ?, updated_at = ?
+      WHERE id = ?
+    `, [...values, now, id]);
+    return id;
+  }
+
+  async deleteSuppression(id: number): Promise<boolean> {
+    if (!this.db) throw new Error('Database not initialized');
 
-    return Array.from(institutions).sort();
+    const result = await this.run('DELETE FROM suppressions WHERE id = ?', [id]);
+    return (result.changes || 0) > 0;
   }
 
   async close(): Promise<void> {
@@ -0,0 +1,141 @@
+import { AccessibilityViolation, dbManager, NorticAnalysis, TestResult } from '../../models/database';
+import { compareAnalyses } from '../analysis-comparison';
+
+jest.mock('../../models/database', () => ({
+  dbManager: {
+    getAnalysis: jest.fn(),
+    getCategoryScores: jest.fn(),
+    getTestResults: jest.fn(),
+    getAccessibilityViolations: jest.fn(),
+    getAnalysisPages: jest.fn()
+  }
+}));
+
+const db = dbManager as unknown as { [method: string]: jest.Mock };
+
+interface StoredAnalysis {
+  analysis: NorticAnalysis;
+  categories: { category_id: string; label: string; score: number }[];
+  tests: TestResult[];
+  violations: AccessibilityViolation[];
+  pages: { id: number; url: string }[];
+}
+
+const stored = new Map<string, StoredAnalysis>();
+
+const analysis = (id: string, overallScore: number, overrides: Partial<NorticAnalysis> = {}): NorticAnalysis => ({
+  id,
+  url: 'https://mopc.gob.do/',
+  status: 'completed',
+  overall_score: overallScore,
+  compliance_level: 'Cumple',
+  end_time: '2025-03-14T10:00:00.000Z',
+  ...overrides
+} as NorticAnalysis);
+
+const test = (test_name: string, status: TestResult['status'], page_id: number | null = null): TestResult => ({
+  analysis_id: 'x',
+  category: 'Seguridad',
+  category_id: 'seguridad',
+  test_name,
+  status,
+  score: status === 'passed' ? 100 : 40,
+  page_id
+});
+
+const violation = (rule_id: string, impact: AccessibilityViolation['impact'], selector: string): AccessibilityViolation => ({
+  analysis_id: 'x',
+  rule_id,
+  impact,
+  description: rule_id,
+  selector
+});
+
+beforeEach(() => {
+  stored.clear();
+  db.getAnalysis.mockImplementation(async (id: string) => stored.get(id)?.analysis ?? null);
+  db.getCategoryScores.mockImplementation(async (id: string) => stored.get(id)!.categories);
+  db.getTestResults.mockImplementation(async (id: string) => stored.get(id)!.tests);
+  db.getAccessibilityViolations.mockImplementation(async (id: string) => stored.get(id)!.violations);
+  db.getAnalysisPages.mockImplementation(async (id: string) => stored.get(id)!.pages);
+});
+
+describe('compareAnalyses', () => {
+  it('reports score deltas, test changes and violation changes', async () => {
+    stored.set('base', {
+      analysis: analysis('base', 70),
+      categories: [{ category_id: 'seguridad', label: 'Seguridad', score: 60 }],
+      tests: [test('HTTPS', 'failed'), test('Cabeceras', 'passed'), test('Cookies', 'warning'), test('Formularios', 'passed')],
+      violations: [violation('image-alt', 'serious', 'img.logo'), violation('label', 'critical', '#buscar')],
+      pages: []
+    });
+    stored.set('target', {
+      analysis: analysis('target', 78),
+      categories: [
+        { category_id: 'seguridad', label: 'Seguridad', score: 75 },
+        { category_id: 'seo', label: 'SEO', score: 90 }
+      ],
+      tests: [test('HTTPS', 'passed'), test('Cabeceras', 'failed'), test('Cookies', 'warning'), test('Contenido Mixto', 'passed')],
+      violations: [violation('image-alt', 'serious', 'img.logo'), violation('color-contrast', 'serious', 'footer a')],
+      pages: []
+    });
+
+    const result = await compareAnalyses('base', 'target');
+    if (result.valid === false) throw new Error(result.error);
+    const { comparison } = result;
+
+    expect(comparison.overall).toEqual({ base: 70, target: 78, delta: 8 });
+    expect(comparison.categories).toEqual([
+      { categoryId: 'seguridad', label: 'Seguridad', base: 60, target: 75, delta: 15 },
+      { categoryId: 'seo', label: 'SEO', base: null, target: 90, delta: null }
+    ]);
+    expect(comparison.tests.summary).toEqual({ fixed: 1, regressed: 1, new: 1, removed: 1, unchanged: 1 });
+    expect(comparison.tests.changes.map(change => [change.change, change.testName])).toEqual([
+      ['regressed', 'Cabeceras'],
+      ['fixed', 'HTTPS'],
+      ['new', 'Contenido Mixto'],
+      ['removed', 'Formularios']
+    ]);
+    expect(comparison.violations.summary).toEqual({ added: 1, resolved: 1, unchanged: 1 });
+    expect(comparison.violations.added.map(v => v.ruleId)).toEqual(['color-contrast']);
+    expect(comparison.violations.resolved.map(v => v.ruleId)).toEqual(['label']);
+  });
+
+  it('matches crawled pages by path and treats the start page as the single-page run', async () => {
+    stored.set('base', {
+      analysis: analysis('base', 70),
+      categories: [],
+      tests: [test('HTTPS', 'failed')],
+      violations: [],
+      pages: []
+    });
+    stored.set('target', {
+      analysis: analysis('target', 80, { url: 'http://mopc.gob.do/' }),
+      categories: [],
+      tests: [test('HTTPS', 'passed', 1), test('HTTPS', 'failed', 2)],
+      violations: [],
+      pages: [{ id: 1, url: 'https://www.mopc.gob.do/' }, { id: 2, url: 'https://mopc.gob.do/servicios?p=1' }]
+    });
+
+    const result = await compareAnalyses('base', 'target');
+    if (result.valid === false) throw new Error(result.error);
+
+    expect(result.comparison.tests.changes.map(change => [change.change, change.page])).toEqual([
+      ['fixed', null],
+      ['new', '/servicios?p=1']
+    ]);
+  });
+
+  it('refuses missing or unfinished analyses', async () => {
+    stored.set('running', { analysis: analysis('running', null, { status: 'in_progress' }), categories: [], tests: [], violations: [], pages: [] });
+    stored.set('done', { analysis: analysis('done', 90), categories: [], tests: [], violations: [], pages: [] });
+
+    expect(await compareAnalyses('missing', 'done')).toEqual({ valid: false, reason: 'not_found', error: 'Base analysis not found' });
+    expect(await compareAnalyses('done', 'missing')).toEqual({ valid: false, reason: 'not_found', error: 'Target analysis not found' });
+    expect(await compareAnalyses('running', 'done')).toEqual({
+      valid: false,
+      reason: 'not_completed',
+      error: 'Only completed analyses can be compared'
+    });
+  });
+});
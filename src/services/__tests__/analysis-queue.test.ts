@@ -0,0 +1,184 @@
+import { dbManager, NorticAnalysis } from '../../models/database';
+import { plannedTestCount } from '../../tests/registry';
+import { norticAnalyzer, ProgressUpdate } from '../nortic-analyzer';
+import { AnalysisQueue } from '../analysis-queue';
+
+jest.mock('../nortic-analyzer', () => ({
+  norticAnalyzer: {
+    getConcurrencyLimit: jest.fn(),
+    setProgressCallback: jest.fn(),
+    removeProgressCallback: jest.fn(),
+    analyze: jest.fn(),
+    cancel: jest.fn()
+  }
+}));
+
+const analyzer = norticAnalyzer as unknown as { [method: string]: jest.Mock };
+
+// Analyses the fake analyzer is running; like the real one, it only cancels what it is running
+let runs: Map<string, () => void>;
+let queue: AnalysisQueue;
+
+const waitFor = async (check: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the queue');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const statusOf = async (id: string) => (await dbManager.getAnalysis(id))?.status;
+
+const createAnalysis = (id: string, status: NorticAnalysis['status'], attempts = 0) => dbManager.createAnalysis({
+  id,
+  url: `https://${id}.gob.do`,
+  status,
+  start_time: new Date().toISOString(),
+  options: JSON.stringify({ testCategories: ['seo'] }),
+  attempts,
+  institution_id: null
+});
+
+beforeAll(() => {
+  process.env.DATABASE_PATH = ':memory:';
+});
+
+afterAll(() => {
+  delete process.env.DATABASE_PATH;
+  delete process.env.ANALYSIS_MAX_ATTEMPTS;
+});
+
+beforeEach(async () => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  await dbManager.initialize();
+
+  runs = new Map();
+  analyzer.getConcurrencyLimit.mockReturnValue(1);
+  analyzer.analyze.mockImplementation((url: string, analysisId: string) => new Promise<string>(resolve => {
+    runs.set(analysisId, () => {
+      runs.delete(analysisId);
+      resolve(analysisId);
+    });
+  }));
+  analyzer.cancel.mockImplementation(async (analysisId: string) => {
+    const finish = runs.get(analysisId);
+    finish?.();
+    return finish !== undefined;
+  });
+
+  process.env.ANALYSIS_MAX_ATTEMPTS = '2';
+  queue = new AnalysisQueue();
+});
+
+afterEach(async () => {
+  queue.stop();
+  for (const finish of Array.from(runs.values())) finish();
+  await dbManager.close();
+  jest.restoreAllMocks();
+});
+
+describe('AnalysisQueue startup', () => {
+  it('requeues interrupted analyses and fails the ones out of attempts before claiming any', async () => {
+    await createAnalysis('interrumpido', 'in_progress', 1);
+    await createAnalysis('agotado', 'in_progress', 2);
+    await createAnalysis('terminado', 'completed', 1);
+    await dbManager.createTestResult({
+      analysis_id: 'interrumpido',
+      category: 'SEO',
+      test_name: 'Meta descripción',
+      status: 'failed',
+      score: 0,
+      message: 'Resultado parcial'
+    });
+
+    await queue.start();
+
+    expect(await statusOf('agotado')).toBe('failed');
+    expect((await dbManager.getAnalysis('agotado'))?.end_time).toBeTruthy();
+    expect(await statusOf('terminado')).toBe('completed');
+    expect(await dbManager.getTestResults('interrumpido')).toEqual([]);
+
+    // The requeued analysis is claimed again as its next attempt
+    await waitFor(() => analyzer.analyze.mock.calls.length === 1);
+    expect(analyzer.analyze).toHaveBeenCalledWith('https://interrumpido.gob.do', 'interrumpido', { testCategories: ['seo'] });
+    expect(await dbManager.getAnalysis('interrumpido')).toMatchObject({ status: 'in_progress', attempts: 2 });
+  });
+
+  it('runs queued analyses in order, one worker per analyzer slot', async () => {
+    await queue.start();
+    const first = await queue.enqueue('https://mopc.gob.do');
+    const second = await queue.enqueue('https://minerd.gob.do');
+
+    await waitFor(() => analyzer.analyze.mock.calls.length === 1);
+    expect(analyzer.analyze.mock.calls[0][1]).toBe(first.analysisId);
+    expect(await statusOf(second.analysisId)).toBe('pending');
+
+    runs.get(first.analysisId)!();
+    await waitFor(() => analyzer.analyze.mock.calls.length === 2);
+    expect(analyzer.analyze.mock.calls[1][1]).toBe(second.analysisId);
+    expect(analyzer.removeProgressCallback).toHaveBeenCalledWith(first.analysisId);
+  });
+
+  it('cancels an analysis claimed while the cancel request was checking the queue', async () => {
+    const claim = dbManager.claimNextPendingAnalysis.bind(dbManager);
+    let claimed = false;
+    let settleClaim: () => void = () => undefined;
+    jest.spyOn(dbManager, 'claimNextPendingAnalysis').mockImplementationOnce(async () => {
+      const job = await claim();
+      claimed = true;
+      await new Promise<void>(resolve => { settleClaim = resolve; });
+      return job;
+    });
+
+    const { analysisId } = await queue.enqueue('https://mopc.gob.do');
+    await queue.start();
+    await waitFor(() => claimed);
+
+    // The row is no longer pending, and the analyzer has not been handed the analysis yet
+    const cancelling = queue.cancel(analysisId);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(analyzer.cancel).not.toHaveBeenCalled();
+
+    settleClaim();
+    expect(await cancelling).toBe(true);
+    expect(analyzer.analyze).toHaveBeenCalledWith('https://mopc.gob.do', analysisId, {});
+    expect(analyzer.cancel).toHaveBeenCalledWith(analysisId);
+  });
+});
+
+describe('AnalysisQueue.cancel', () => {
+  it('cancels a queued analysis in the database without reaching the analyzer', async () => {
+    const updates: ProgressUpdate[] = [];
+    queue.setProgressHandler(update => updates.push(update));
+    const { analysisId } = await queue.enqueue('https://mopc.gob.do', { testCategories: ['seo'] });
+
+    expect(await queue.cancel(analysisId)).toBe(true);
+    expect(await statusOf(analysisId)).toBe('cancelled');
+    expect(updates[updates.length - 1]).toMatchObject({ analysisId, status: 'cancelled', totalTests: plannedTestCount(['seo']) });
+    expect(analyzer.cancel).not.toHaveBeenCalled();
+
+    await queue.start();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(analyzer.analyze).not.toHaveBeenCalled();
+    expect(await queue.cancel(analysisId)).toBe(false);
+  });
+
+  it('stops a running analysis through the analyzer and refuses once the analysis has finished', async () => {
+    await queue.start();
+    const running = await queue.enqueue('https://mopc.gob.do');
+    await waitFor(() => runs.has(running.analysisId));
+
+    expect(await queue.cancel(running.analysisId)).toBe(true);
+    expect(analyzer.cancel).toHaveBeenCalledWith(running.analysisId);
+    expect(runs.size).toBe(0);
+
+    // The cancel route answers 409 when the queue can no longer cancel the analysis
+    const finished = await queue.enqueue('https://minerd.gob.do');
+    await waitFor(() => runs.has(finished.analysisId));
+    runs.get(finished.analysisId)!();
+    await waitFor(() => analyzer.removeProgressCallback.mock.calls.some(([id]) => id === finished.analysisId));
+    expect(await queue.cancel(finished.analysisId)).toBe(false);
+  });
+});
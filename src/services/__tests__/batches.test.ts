@@ -0,0 +1,48 @@
+import { MAX_BATCH_URLS, parseUrlCsv, validateBatchUrls } from '../batches';
+
+describe('parseUrlCsv', () => {
+  it('takes the url column when the first row is a header', () => {
+    const csv = '\uFEFFinstitucion;URL\r\nMOPC;https://mopc.gob.do\r\n\r\n"Ministerio; Educación";https://minerd.gob.do\n';
+    expect(parseUrlCsv(csv)).toEqual(['https://mopc.gob.do', 'https://minerd.gob.do']);
+  });
+
+  it('reads the first column when there is no header', () => {
+    expect(parseUrlCsv('https://a.gob.do,Ministerio A\nhttps://b.gob.do,Ministerio B')).toEqual([
+      'https://a.gob.do',
+      'https://b.gob.do'
+    ]);
+  });
+
+  it('unescapes quoted fields and skips rows without a URL', () => {
+    expect(parseUrlCsv('sitio,nota\n"https://a.gob.do/?q=""x""",ok\n,sin url')).toEqual(['https://a.gob.do/?q="x"']);
+  });
+
+  it('returns nothing for an empty file', () => {
+    expect(parseUrlCsv(' \n\n')).toEqual([]);
+  });
+});
+
+describe('validateBatchUrls', () => {
+  it('trims the URLs and drops duplicates', () => {
+    expect(validateBatchUrls([' https://a.gob.do ', 'https://a.gob.do', '', 'http://b.gob.do'])).toEqual({
+      valid: true,
+      urls: ['https://a.gob.do', 'http://b.gob.do']
+    });
+  });
+
+  it('rejects the whole batch when a URL is invalid', () => {
+    expect(validateBatchUrls(['https://a.gob.do', 'ftp://b.gob.do', 'no es url'])).toEqual({
+      valid: false,
+      error: 'Invalid URL format',
+      invalidUrls: ['ftp://b.gob.do', 'no es url']
+    });
+  });
+
+  it('rejects empty, oversized and malformed batches', () => {
+    expect(validateBatchUrls([])).toMatchObject({ error: 'The batch must include at least one URL' });
+    expect(validateBatchUrls('https://a.gob.do')).toMatchObject({ error: 'urls must be an array of strings' });
+
+    const tooMany = Array.from({ length: MAX_BATCH_URLS + 1 }, (_, i) => `https://sitio${i}.gob.do`);
+    expect(validateBatchUrls(tooMany)).toMatchObject({ error: `A batch can include at most ${MAX_BATCH_URLS} URLs` });
+  });
+});
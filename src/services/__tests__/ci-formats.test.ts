@@ -0,0 +1,143 @@
+import { AccessibilityViolation, NorticAnalysis, TestResult } from '../../models/database';
+import { renderJUnit, renderSarif } from '../ci-formats';
+import { ReportData } from '../reports';
+
+const test = (category_id: string, category: string, test_name: string, status: TestResult['status'], extra: Partial<TestResult> = {}): TestResult => ({
+  analysis_id: 'a1',
+  category_id,
+  category,
+  test_name,
+  status,
+  score: status === 'passed' ? 100 : 40,
+  message: `${test_name}: ${status}`,
+  ...extra
+});
+
+const violation = (rule_id: string, impact: AccessibilityViolation['impact'], extra: Partial<AccessibilityViolation> = {}): AccessibilityViolation => ({
+  analysis_id: 'a1',
+  rule_id,
+  impact,
+  description: `Regla ${rule_id}`,
+  selector: '#main img',
+  html: '<img src="logo.png">',
+  help_url: `https://dequeuniversity.com/rules/axe/4.7/${rule_id}`,
+  ...extra
+});
+
+function report(overrides: Partial<ReportData> = {}, analysis: Partial<NorticAnalysis> = {}): ReportData {
+  return {
+    analysis: {
+      id: 'a1',
+      url: 'https://mopc.gob.do',
+      status: 'completed',
+      overall_score: 72,
+      compliance_level: 'Parcial',
+      start_time: '2025-03-14T10:00:00.000Z',
+      end_time: '2025-03-14T10:01:30.000Z',
+      duration: 90,
+      ...analysis
+    } as NorticAnalysis,
+    institution: null,
+    categories: [
+      { analysis_id: 'a1', category_id: 'seguridad', label: 'Seguridad', score: 70, status: 'warning' },
+      { analysis_id: 'a1', category_id: 'seo', label: 'SEO', score: 100, status: 'passed' }
+    ],
+    testResults: [
+      test('seguridad', 'Seguridad', 'Implementación HTTPS', 'failed'),
+      test('seguridad', 'Seguridad', 'Cabeceras de Seguridad', 'warning'),
+      test('seguridad', 'Seguridad', 'Contenido Mixto', 'passed', { details: { mixed: 0 } }),
+      test('seo', 'SEO', 'Meta <title>', 'passed')
+    ],
+    violations: [violation('image-alt', 'critical'), violation('region', 'moderate', { selector: null, html: null, help_url: null })],
+    pages: [],
+    generatedAt: '2025-03-14T10:02:00.000Z',
+    ...overrides
+  } as ReportData;
+}
+
+describe('renderJUnit', () => {
+  it('writes one suite per category and one testcase per test', () => {
+    const xml = renderJUnit(report());
+
+    expect(xml).toContain('<testsuites name="NORTIC A2 - https://mopc.gob.do" tests="4" failures="1" skipped="1" errors="0" time="90.000">');
+    expect(xml).toContain('<testsuite name="Seguridad" tests="3" failures="1" skipped="1" errors="0" time="0" timestamp="2025-03-14T10:00:00.000Z">');
+    expect(xml).toContain('<property name="category_score" value="70"/>');
+    expect(xml).toContain(
+      '<testcase classname="nortic.seguridad" name="Implementación HTTPS" time="0">\n' +
+      '      <failure type="failed" message="Implementación HTTPS: failed">Score: 40\nImplementación HTTPS: failed</failure>'
+    );
+    expect(xml).toContain('<skipped message="[warning] Cabeceras de Seguridad: warning"/>');
+    expect(xml).toContain('<system-out>{\n  &quot;mixed&quot;: 0\n}</system-out>');
+    expect(xml).toContain('<testcase classname="nortic.seo" name="Meta &lt;title&gt;" time="0"/>');
+  });
+
+  it('names tests after their page in crawl mode and suites after their URL for several analyses', () => {
+    const crawled = report({
+      pages: [
+        { id: 1, analysis_id: 'a1', url: 'https://mopc.gob.do', depth: 0 },
+        { id: 2, analysis_id: 'a1', url: 'https://mopc.gob.do/servicios', depth: 1 }
+      ] as ReportData['pages'],
+      testResults: [test('seo', 'SEO', 'Meta Tags', 'passed', { page_id: 1 }), test('seo', 'SEO', 'Meta Tags', 'failed', { page_id: 2 })]
+    });
+    const other = report({ testResults: [test('seo', 'SEO', 'Meta Tags', 'passed')] }, { id: 'a2', url: 'https://minerd.gob.do', duration: 30 });
+
+    const xml = renderJUnit([crawled, other]);
+
+    expect(xml).toContain('<testsuites name="NORTIC A2" tests="3" failures="1" skipped="0" errors="0" time="120.000">');
+    expect(xml).toContain('<testsuite name="SEO - https://mopc.gob.do" tests="2"');
+    expect(xml).toContain('<testsuite name="SEO - https://minerd.gob.do" tests="1"');
+    expect(xml).toContain('name="Meta Tags (https://mopc.gob.do/servicios)"');
+  });
+
+  it('reports URLs whose analysis failed as errors', () => {
+    const xml = renderJUnit([report()], [{ url: 'https://caido.gob.do', message: 'net::ERR_NAME_NOT_RESOLVED\nat navigate' }]);
+
+    expect(xml).toContain('<testsuites name="NORTIC A2" tests="5" failures="1" skipped="1" errors="1" time="90.000">');
+    expect(xml).toContain('<testsuite name="Seguridad - https://mopc.gob.do"');
+    expect(xml).toContain(
+      '  <testsuite name="Errores de análisis" tests="1" failures="0" skipped="0" errors="1" time="0">\n' +
+      '    <testcase classname="nortic.analysis" name="https://caido.gob.do" time="0">\n' +
+      '      <error type="analysis-error" message="net::ERR_NAME_NOT_RESOLVED">net::ERR_NAME_NOT_RESOLVED\nat navigate</error>\n' +
+      '    </testcase>\n' +
+      '  </testsuite>'
+    );
+  });
+
+  it('still produces a report when every analysis failed', () => {
+    const xml = renderJUnit([], [{ url: 'https://caido.gob.do', message: 'Timeout' }]);
+    expect(xml).toContain('<testsuites name="NORTIC A2 - https://caido.gob.do" tests="1" failures="0" skipped="0" errors="1" time="0.000">');
+  });
+});
+
+describe('renderSarif', () => {
+  it('reports axe violations by page and selector and failed or warning security tests', () => {
+    const log = renderSarif(report()) as any;
+    const run = log.runs[0];
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.automationDetails).toEqual({ id: 'nortic-a2/a1' });
+    expect(run.tool.driver.rules.map((rule: { id: string }) => rule.id)).toEqual([
+      'accessibility/image-alt',
+      'accessibility/region',
+      'security/implementacion-https',
+      'security/cabeceras-de-seguridad'
+    ]);
+    expect(run.results.map((result: { ruleId: string; level: string }) => [result.ruleId, result.level])).toEqual([
+      ['accessibility/image-alt', 'error'],
+      ['accessibility/region', 'warning'],
+      ['security/implementacion-https', 'error'],
+      ['security/cabeceras-de-seguridad', 'warning']
+    ]);
+
+    expect(run.results[0].locations[0]).toEqual({
+      physicalLocation: {
+        artifactLocation: { uri: 'https://mopc.gob.do' },
+        region: { snippet: { text: '<img src="logo.png">' } }
+      },
+      logicalLocations: [{ fullyQualifiedName: '#main img', kind: 'element' }]
+    });
+    expect(run.results[1].locations[0]).toEqual({ physicalLocation: { artifactLocation: { uri: 'https://mopc.gob.do' } } });
+    expect(run.results[0].partialFingerprints).toEqual({ 'nortic/v1': 'image-alt|#main img|https://mopc.gob.do' });
+    expect(run.properties).toEqual({ url: 'https://mopc.gob.do', overallScore: 72, complianceLevel: 'Parcial' });
+  });
+});
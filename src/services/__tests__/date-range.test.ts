@@ -0,0 +1,19 @@
+import { parseDateBound } from '../date-range';
+
+describe('parseDateBound', () => {
+  it('extends a bare date to the start or the end of that day', () => {
+    expect(parseDateBound('2025-03-14', 'start')!.toISOString()).toBe('2025-03-14T00:00:00.000Z');
+    expect(parseDateBound('2025-03-14', 'end')!.toISOString()).toBe('2025-03-14T23:59:59.999Z');
+  });
+
+  it('keeps full timestamps as given', () => {
+    expect(parseDateBound('2025-03-14T08:00:00Z', 'start')!.toISOString()).toBe('2025-03-14T08:00:00.000Z');
+    expect(parseDateBound('2025-03-14T08:00:00Z', 'end')!.toISOString()).toBe('2025-03-14T08:00:00.000Z');
+  });
+
+  it('rejects unreadable dates', () => {
+    expect(parseDateBound('marzo', 'end')).toBeNull();
+    expect(parseDateBound('foo', 'start')).toBeNull();
+    expect(parseDateBound('2025-02-30', 'end')).toBeNull();
+  });
+});
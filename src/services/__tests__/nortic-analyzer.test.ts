@@ -0,0 +1,158 @@
+import { chromium } from 'playwright';
+import { dbManager } from '../../models/database';
+import { testerRegistry } from '../../tests/registry';
+import { averageTestScore } from '../../tests/tester';
+import { NorticAnalyzer, ProgressUpdate } from '../nortic-analyzer';
+
+jest.mock('playwright', () => ({
+  chromium: { launch: jest.fn() }
+}));
+
+jest.mock('../../models/database', () => ({
+  dbManager: {
+    getAnalysis: jest.fn(),
+    createAnalysis: jest.fn(),
+    updateAnalysis: jest.fn(),
+    getSuppressionsForInstitution: jest.fn(),
+    getDefaultScoringProfile: jest.fn(),
+    createTestResult: jest.fn(),
+    createAccessibilityViolation: jest.fn(),
+    createCategoryScore: jest.fn(),
+    deleteAnalysisResults: jest.fn()
+  }
+}));
+
+const db = dbManager as unknown as { [method: string]: jest.Mock };
+
+interface FakePage {
+  closed: boolean;
+  onClose: () => void;
+}
+
+// Finishes the tester of each running analysis; a closed page makes it fail, as the real testers do
+let release: Map<string, () => void>;
+
+testerRegistry.register({
+  id: 'prueba',
+  aliases: [],
+  displayName: 'Prueba controlada',
+  chapter: 0,
+  requirements: { 'Prueba controlada': [] },
+  scoreTests: averageTestScore,
+  create: (page, analysisId) => ({
+    runAllTests: () => new Promise((resolve, reject) => {
+      (page as unknown as FakePage).onClose = () => reject(new Error('Target page, context or browser has been closed'));
+      release.set(analysisId, () => resolve({
+        category: 'Prueba controlada',
+        score: 90,
+        tests: [{ analysis_id: analysisId, category: 'Prueba controlada', test_name: 'Prueba controlada', status: 'passed', score: 90, message: '' }]
+      }));
+    })
+  })
+});
+
+const newContext = jest.fn(async () => {
+  const page: FakePage & { [method: string]: unknown } = {
+    closed: false,
+    onClose: () => undefined,
+    setDefaultTimeout: jest.fn(),
+    goto: jest.fn(async () => ({ status: () => 200 }))
+  };
+  return {
+    newPage: async () => page,
+    close: jest.fn(async () => {
+      if (!page.closed) {
+        page.closed = true;
+        page.onClose();
+      }
+    })
+  };
+});
+
+const SILENT_LOGGER = { log: () => undefined, error: () => undefined };
+
+let analyzer: NorticAnalyzer;
+let updates: ProgressUpdate[];
+
+const waitFor = async (check: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the analysis');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const start = (analysisId: string) => {
+  analyzer.setProgressCallback(analysisId, update => updates.push(update));
+  return analyzer.analyze(`https://${analysisId}.gob.do`, analysisId, { testCategories: ['prueba'] });
+};
+
+const statusUpdates = (analysisId: string) => db.updateAnalysis.mock.calls
+  .filter(([id, changes]) => id === analysisId && changes.status)
+  .map(([, changes]) => changes.status);
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  release = new Map();
+  updates = [];
+  (chromium.launch as jest.Mock).mockResolvedValue({ isConnected: () => true, newContext, close: jest.fn() });
+  db.getAnalysis.mockImplementation(async (id: string) => ({ id, url: `https://${id}.gob.do`, status: 'pending', institution_id: null }));
+  db.getSuppressionsForInstitution.mockResolvedValue([]);
+  db.getDefaultScoringProfile.mockResolvedValue(null);
+  analyzer = new NorticAnalyzer({ maxConcurrentAnalyses: 1, logger: SILENT_LOGGER });
+});
+
+afterEach(async () => {
+  for (const finish of Array.from(release.values())) finish();
+  await analyzer.close();
+});
+
+describe('NorticAnalyzer.cancel', () => {
+  it('closes the context of a running analysis and stores it as cancelled without results', async () => {
+    const analysis = start('a1');
+    await waitFor(() => release.has('a1'));
+
+    expect(await analyzer.cancel('a1')).toBe(true);
+    expect(await analysis).toBe('a1');
+
+    const context = await newContext.mock.results[0].value;
+    expect(context.close).toHaveBeenCalled();
+    expect(db.deleteAnalysisResults).toHaveBeenCalledWith('a1');
+    expect(statusUpdates('a1')).toEqual(['in_progress', 'cancelled']);
+    expect(db.createTestResult).not.toHaveBeenCalled();
+    expect(db.createCategoryScore).not.toHaveBeenCalled();
+    expect(updates[updates.length - 1]).toMatchObject({ analysisId: 'a1', status: 'cancelled', progress: 0 });
+
+    expect(await analyzer.cancel('a1')).toBe(false);
+  });
+
+  it('cancels an analysis waiting for a slot without opening a browser context for it', async () => {
+    const first = start('a1');
+    await waitFor(() => release.has('a1'));
+    const waiting = start('a2');
+    await waitFor(() => updates.some(update => update.analysisId === 'a2' && update.currentTest === 'En espera de un espacio disponible'));
+
+    expect(await analyzer.cancel('a2')).toBe(true);
+    expect(await waiting).toBe('a2');
+    expect(newContext).toHaveBeenCalledTimes(1);
+    expect(statusUpdates('a2')).toEqual(['in_progress', 'cancelled']);
+
+    // The slot stays with the running analysis, which still completes
+    release.get('a1')!();
+    expect(await first).toBe('a1');
+    expect(statusUpdates('a1')).toEqual(['in_progress', 'completed']);
+  });
+
+  it('can no longer cancel an analysis once it has completed', async () => {
+    const analysis = start('a1');
+    await waitFor(() => release.has('a1'));
+    release.get('a1')!();
+
+    expect(await analysis).toBe('a1');
+    expect(statusUpdates('a1')).toEqual(['in_progress', 'completed']);
+    expect(db.createTestResult).toHaveBeenCalledWith(expect.objectContaining({ analysis_id: 'a1', test_name: 'Prueba controlada' }));
+
+    expect(await analyzer.cancel('a1')).toBe(false);
+    expect(await analyzer.cancel('desconocido')).toBe(false);
+  });
+});
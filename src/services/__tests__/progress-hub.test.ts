@@ -0,0 +1,67 @@
+import { ProgressUpdate } from '../nortic-analyzer';
+import { ProgressHub } from '../progress-hub';
+
+const update = (analysisId: string, completedTests: number, status: ProgressUpdate['status'] = 'in_progress'): ProgressUpdate => ({
+  analysisId,
+  status,
+  progress: 15,
+  currentTest: `Prueba ${completedTests}`,
+  completedTests,
+  totalTests: 600
+});
+
+describe('ProgressHub', () => {
+  it('numbers the events of each analysis from 1 and hands them to every listener', () => {
+    const hub = new ProgressHub();
+    const received: Array<[string, number]> = [];
+    const unsubscribe = hub.subscribe((progress, eventId) => received.push([progress.analysisId, eventId]));
+
+    hub.publish(update('a1', 0));
+    hub.publish(update('a1', 1));
+    hub.publish(update('a2', 0));
+    unsubscribe();
+    hub.publish(update('a1', 2));
+
+    expect(received).toEqual([['a1', 1], ['a1', 2], ['a2', 1]]);
+    expect(hub.getLatestEvent('a1')).toMatchObject({ id: 3, update: { completedTests: 2 } });
+  });
+
+  it('replays the events after Last-Event-ID while they are retained', () => {
+    const hub = new ProgressHub();
+    for (let test = 0; test < 5; test++) hub.publish(update('a1', test));
+
+    expect(hub.getEventsSince('a1', 3)!.map(event => event.id)).toEqual([4, 5]);
+    expect(hub.getEventsSince('a1', 0)!.map(event => event.id)).toEqual([1, 2, 3, 4, 5]);
+    expect(hub.getEventsSince('a1', 5)).toEqual([]);
+  });
+
+  it('returns null once the events after Last-Event-ID were evicted, so the stream starts over', () => {
+    const hub = new ProgressHub();
+    // 500 events are kept per analysis; the first two fall out
+    for (let test = 0; test < 502; test++) hub.publish(update('a1', test));
+
+    expect(hub.getEventsSince('a1', 0)).toBeNull();
+    expect(hub.getEventsSince('a1', 1)).toBeNull();
+
+    const replay = hub.getEventsSince('a1', 2)!;
+    expect(replay).toHaveLength(500);
+    expect(replay[0].id).toBe(3);
+    expect(replay[499].id).toBe(502);
+  });
+
+  it('returns null for analyses it has no events for', () => {
+    const hub = new ProgressHub();
+    hub.publish(update('a1', 0));
+
+    expect(hub.getEventsSince('desconocido', 0)).toBeNull();
+  });
+
+  it('lists only the analyses that have not finished', () => {
+    const hub = new ProgressHub();
+    hub.publish(update('a1', 3));
+    hub.publish(update('a2', 0, 'pending'));
+    hub.publish(update('a3', 600, 'completed'));
+
+    expect(hub.getActive().map(progress => progress.analysisId)).toEqual(['a1', 'a2']);
+  });
+});
@@ -0,0 +1,71 @@
+import { dbManager, InstitutionLatestAnalysis } from '../../models/database';
+import { getRankings } from '../rankings';
+
+jest.mock('../../models/database', () => ({
+  dbManager: {
+    getLatestInstitutionAnalyses: jest.fn(),
+    getCategoryScoresForAnalyses: jest.fn()
+  }
+}));
+
+const db = dbManager as unknown as { [method: string]: jest.Mock };
+
+const latest = (institution_id: number, institution_name: string, overall_score: number | null): InstitutionLatestAnalysis => ({
+  institution_id,
+  institution_name,
+  institution_acronym: null,
+  sector: 'Obras',
+  analysis_id: `analysis-${institution_id}`,
+  url: `https://inst${institution_id}.gob.do`,
+  overall_score,
+  compliance_level: null,
+  completed_at: '2025-03-01T10:00:00.000Z'
+});
+
+const cutoff = new Date('2025-03-31T23:59:59.999Z');
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  db.getCategoryScoresForAnalyses.mockResolvedValue([]);
+});
+
+describe('getRankings', () => {
+  it('gives tied institutions the same position and skips the following ones', async () => {
+    db.getLatestInstitutionAnalyses.mockImplementation(async (until: string) => until === cutoff.toISOString()
+      ? [latest(1, 'Beta', 80), latest(2, 'Alfa', 90), latest(3, 'Gamma', 80), latest(4, 'Delta', 70), latest(5, 'Epsilon', null)]
+      : []);
+
+    const ranking = await getRankings({ cutoff, period: 'month' });
+
+    expect(ranking.rankings.map(row => [row.position, row.name])).toEqual([
+      [1, 'Alfa'],
+      [2, 'Beta'],
+      [2, 'Gamma'],
+      [4, 'Delta'],
+      [5, 'Epsilon']
+    ]);
+  });
+
+  it('compares each position with the previous period', async () => {
+    db.getLatestInstitutionAnalyses.mockImplementation(async (until: string) => until === cutoff.toISOString()
+      ? [latest(1, 'Alfa', 90), latest(2, 'Beta', 85), latest(3, 'Gamma', 85)]
+      : [latest(2, 'Beta', 95), latest(1, 'Alfa', 60)]);
+    db.getCategoryScoresForAnalyses.mockResolvedValue([
+      { analysis_id: 'analysis-1', category_id: 'seo', score: 88 },
+      { analysis_id: 'analysis-1', category_id: 'seguridad', score: 70 },
+      { analysis_id: 'analysis-3', category_id: 'seo', score: 60 }
+    ]);
+
+    const ranking = await getRankings({ cutoff, period: 'week', sector: 'Obras' });
+
+    expect(db.getLatestInstitutionAnalyses).toHaveBeenCalledWith('2025-03-24T23:59:59.999Z', 'Obras');
+    expect(ranking.rankings.map(row => [row.name, row.position, row.previousPosition, row.positionChange])).toEqual([
+      ['Alfa', 1, 2, 1],
+      ['Beta', 2, 1, -1],
+      ['Gamma', 2, null, null]
+    ]);
+    expect(db.getCategoryScoresForAnalyses).toHaveBeenCalledTimes(1);
+    expect(db.getCategoryScoresForAnalyses).toHaveBeenCalledWith(['analysis-1', 'analysis-2', 'analysis-3']);
+    expect(ranking.rankings.map(row => row.categories)).toEqual([{ seo: 88, seguridad: 70 }, {}, { seo: 60 }]);
+  });
+});
@@ -0,0 +1,72 @@
+import { TestResult } from '../../models/database';
+import { AXE_AUDIT_TEST } from '../../tests/accessibility';
+import { testerRegistry } from '../../tests/registry';
+import { GENERAL_REMEDIATION_CODE, REMEDIATION_CATALOG, remediationForTest, remediationForViolation } from '../remediation-catalog';
+
+const test = (test_name: string, status: TestResult['status'], extra: Partial<TestResult> = {}): TestResult => ({
+  analysis_id: 'a1',
+  category: 'Accesibilidad',
+  test_name,
+  status,
+  score: 40,
+  message: '',
+  ...extra
+});
+
+const registeredTests = testerRegistry.list().flatMap(definition => Object.keys(definition.requirements));
+
+describe('REMEDIATION_CATALOG', () => {
+  it('has exactly one general entry for every registered test', () => {
+    for (const testName of registeredTests) {
+      const general = REMEDIATION_CATALOG.filter(entry => entry.testName === testName && entry.code === GENERAL_REMEDIATION_CODE);
+      expect({ testName, general: general.length }).toEqual({ testName, general: 1 });
+      expect(general[0].match).toBeUndefined();
+    }
+  });
+
+  it('only lists registered tests, with codes unique within each test', () => {
+    const keys = REMEDIATION_CATALOG.map(entry => `${entry.testName}|${entry.code}`);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(REMEDIATION_CATALOG.filter(entry => !registeredTests.includes(entry.testName))).toEqual([]);
+  });
+});
+
+describe('remediationForTest', () => {
+  it('returns the general entry of every registered test when the message names no known issue', () => {
+    for (const testName of registeredTests) {
+      expect(remediationForTest(test(testName, 'failed', { message: 'Mensaje sin problemas conocidos' })).map(guidance => [guidance.testName, guidance.code]))
+        .toEqual([[testName, GENERAL_REMEDIATION_CODE]]);
+    }
+  });
+
+  it('returns the entries whose pattern matches the message instead of the general one', () => {
+    const guidance = remediationForTest(test('Atributos Alt de Imágenes', 'warning', { message: '3 imágenes sin atributo alt' }));
+    expect(guidance.map(entry => entry.code)).toEqual(['imagenes-sin-alt']);
+  });
+
+  it('maps the violated axe rules to their entries and unknown rules to the general one', () => {
+    const audit = (ids: string[]) => test(AXE_AUDIT_TEST, 'failed', {
+      details: { violatedRules: ids.map(id => ({ id, impact: 'serious', nodes: 1 })) }
+    });
+
+    expect(remediationForTest(audit(['image-alt', 'color-contrast', 'regla-nueva'])).map(entry => entry.code)).toEqual(['color-contrast', 'image-alt']);
+    expect(remediationForTest(audit(['regla-nueva'])).map(entry => entry.code)).toEqual([GENERAL_REMEDIATION_CODE]);
+
+    const ruleEntries = REMEDIATION_CATALOG.filter(entry => entry.testName === AXE_AUDIT_TEST && entry.code !== GENERAL_REMEDIATION_CODE);
+    expect(remediationForTest(audit(ruleEntries.map(entry => entry.code))).map(entry => entry.code)).toEqual(ruleEntries.map(entry => entry.code));
+  });
+
+  it('gives no guidance for passed tests', () => {
+    expect(remediationForTest(test('Contraste de Colores', 'passed'))).toEqual([]);
+  });
+});
+
+describe('remediationForViolation', () => {
+  it('finds the entry of a catalogued axe rule', () => {
+    expect(remediationForViolation({ analysis_id: 'a1', rule_id: 'label', impact: 'critical', description: '' })).toMatchObject({
+      testName: AXE_AUDIT_TEST,
+      code: 'label'
+    });
+    expect(remediationForViolation({ analysis_id: 'a1', rule_id: 'regla-nueva', impact: 'minor', description: '' })).toBeNull();
+  });
+});
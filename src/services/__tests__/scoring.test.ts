@@ -0,0 +1,112 @@
+import { ScoringProfile, TestResult } from '../../models/database';
+import {
+  complianceLevelFor,
+  DEFAULT_SCORING_PROFILE,
+  statusForScore,
+  validateScoringProfile,
+  weightedCategoryScore,
+  weightedOverallScore
+} from '../scoring';
+
+const test = (test_name: string, score: number, status: TestResult['status'] = 'passed'): TestResult => ({
+  analysis_id: 'a1',
+  category: 'Usabilidad',
+  test_name,
+  status,
+  score
+});
+
+const profileWith = (overrides: Partial<ScoringProfile>): ScoringProfile => ({ ...DEFAULT_SCORING_PROFILE, ...overrides });
+
+describe('weightedCategoryScore', () => {
+  const tests = [test('Carga', 100), test('Formularios', 40, 'failed'), test('Búsqueda', 70, 'warning')];
+
+  it("keeps the tester's own score when no test is weighted", () => {
+    expect(weightedCategoryScore(67, tests, DEFAULT_SCORING_PROFILE)).toBe(67);
+  });
+
+  it('averages the tests by weight once one of them is weighted', () => {
+    const profile = profileWith({ test_weights: { Formularios: 3 } });
+    // (100 + 40 * 3 + 70) / 5
+    expect(weightedCategoryScore(67, tests, profile)).toBe(58);
+  });
+
+  it('ignores tests whose weight is zero', () => {
+    const profile = profileWith({ test_weights: { Formularios: 0 } });
+    expect(weightedCategoryScore(67, tests, profile)).toBe(85);
+  });
+
+  it("rescores the tests left after suppressions with the tester's own method", () => {
+    const suppression = { id: 1, justification: 'Formulario de terceros', author: 'ogtic', expires_at: '2099-12-31', expired: false };
+    const marked = [tests[0], { ...tests[1], suppression }, tests[2]];
+    const passRatio = (remaining: TestResult[]) =>
+      Math.round((remaining.filter(t => t.status === 'passed').length / remaining.length) * 100);
+
+    expect(weightedCategoryScore(33, marked, DEFAULT_SCORING_PROFILE, passRatio)).toBe(50);
+    expect(weightedCategoryScore(33, marked.map(t => ({ ...t, suppression })), DEFAULT_SCORING_PROFILE, passRatio)).toBe(100);
+    // An expired suppression counts the test again
+    expect(weightedCategoryScore(33, [tests[0], { ...tests[1], suppression: { ...suppression, expired: true } }, tests[2]], DEFAULT_SCORING_PROFILE, passRatio)).toBe(33);
+  });
+});
+
+describe('weightedOverallScore', () => {
+  it('averages categories, using a weight of 1 for the ones not listed', () => {
+    const profile = profileWith({ category_weights: { seguridad: 2 } });
+    expect(weightedOverallScore({ usabilidad: 90, seguridad: 60 }, DEFAULT_SCORING_PROFILE)).toBe(75);
+    expect(weightedOverallScore({ usabilidad: 90, seguridad: 60 }, profile)).toBe(70);
+  });
+
+  it('returns 0 when every weight is zero', () => {
+    const profile = profileWith({ category_weights: { usabilidad: 0 } });
+    expect(weightedOverallScore({ usabilidad: 90 }, profile)).toBe(0);
+  });
+});
+
+describe('statusForScore and complianceLevelFor', () => {
+  it('applies the profile thresholds and bands', () => {
+    expect(statusForScore(80, DEFAULT_SCORING_PROFILE)).toBe('passed');
+    expect(statusForScore(79, DEFAULT_SCORING_PROFILE)).toBe('warning');
+    expect(statusForScore(59, DEFAULT_SCORING_PROFILE)).toBe('failed');
+    expect(complianceLevelFor(95, DEFAULT_SCORING_PROFILE)).toBe('Excelente');
+    expect(complianceLevelFor(60, DEFAULT_SCORING_PROFILE)).toBe('Parcial');
+    expect(complianceLevelFor(12, DEFAULT_SCORING_PROFILE)).toBe('No Cumple');
+  });
+});
+
+describe('validateScoringProfile', () => {
+  it('fills defaults and maps category aliases to canonical ids', () => {
+    const result = validateScoringProfile({ id: 'ministerios', name: ' Ministerios ', category_weights: { security: 2 } });
+    expect(result).toEqual({
+      valid: true,
+      profile: expect.objectContaining({
+        id: 'ministerios',
+        name: 'Ministerios',
+        category_weights: { seguridad: 2 },
+        thresholds: DEFAULT_SCORING_PROFILE.thresholds,
+        compliance_bands: DEFAULT_SCORING_PROFILE.compliance_bands,
+        is_default: false
+      })
+    });
+  });
+
+  it('collects every error', () => {
+    const result = validateScoringProfile({
+      id: 'con espacios',
+      category_weights: { rendimiento: 1 },
+      test_weights: { Carga: -1 },
+      thresholds: { passed: 50, warning: 70 },
+      compliance_bands: [{ min_score: 50, label: 'Cumple' }]
+    });
+    expect(result).toEqual({
+      valid: false,
+      errors: [
+        'id is required and may only contain letters, numbers, "-" and "_"',
+        'name is required',
+        'Unknown category in category_weights: rendimiento',
+        'Weight for test "Carga" must be a number >= 0',
+        'thresholds.warning cannot be higher than thresholds.passed',
+        'compliance_bands must include a band with min_score 0'
+      ]
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { BrowserContext } from 'playwright';
+import { CrawlEntry, CrawlOptions, SiteCrawler, validateCrawlOptions } from '../site-crawler';
+
+// Answers context.request.get from a map of URL to body; missing URLs are 404s
+const fakeContext = (responses: { [url: string]: string } = {}) => {
+  const get = jest.fn(async (url: string) => ({
+    ok: () => url in responses,
+    text: async () => responses[url] ?? ''
+  }));
+  return { context: { request: { get } } as unknown as BrowserContext, get };
+};
+
+const crawler = (options: CrawlOptions = {}, responses?: { [url: string]: string }) =>
+  new SiteCrawler(fakeContext(responses).context, 'https://www.mopc.gob.do/', options);
+
+const drain = (site: SiteCrawler): CrawlEntry[] => {
+  const entries: CrawlEntry[] = [];
+  for (let entry = site.next(); entry; entry = site.next()) entries.push(entry);
+  return entries;
+};
+
+describe('validateCrawlOptions', () => {
+  it('accepts the documented options and an empty object', () => {
+    const crawl = { maxPages: 100, maxDepth: 0, sameOrigin: false, useSitemap: true, include: ['/servicios/*'], exclude: ['*?page=*'] };
+    expect(validateCrawlOptions(crawl)).toEqual({ valid: true, crawl });
+    expect(validateCrawlOptions({})).toEqual({ valid: true, crawl: {} });
+  });
+
+  it('rejects anything that is not an object', () => {
+    for (const raw of [null, true, 'maxPages=5', [{ maxPages: 5 }]]) {
+      expect(validateCrawlOptions(raw)).toEqual({ valid: false, errors: ['crawl must be an object'] });
+    }
+  });
+
+  it('collects every invalid option', () => {
+    expect(validateCrawlOptions({ maxPages: 0, maxDepth: 11, sameOrigin: 'yes', useSitemap: 1, include: '/servicios/*', exclude: ['/buscar', ' '] }))
+      .toEqual({
+        valid: false,
+        errors: [
+          'maxPages must be an integer between 1 and 100',
+          'maxDepth must be an integer between 0 and 10',
+          'sameOrigin must be a boolean',
+          'useSitemap must be a boolean',
+          'include must be an array of non-empty path patterns',
+          'exclude must be an array of non-empty path patterns'
+        ]
+      });
+  });
+
+  it('rejects page and depth limits that are not integers', () => {
+    expect(validateCrawlOptions({ maxPages: 2.5 }).valid).toBe(false);
+    expect(validateCrawlOptions({ maxPages: '10' }).valid).toBe(false);
+    expect(validateCrawlOptions({ maxPages: 101 }).valid).toBe(false);
+    expect(validateCrawlOptions({ maxDepth: -1 }).valid).toBe(false);
+  });
+});
+
+describe('SiteCrawler', () => {
+  it('starts with the start page and skips duplicates, fragments and non-HTML links', () => {
+    const site = crawler();
+    const added = site.addUrls([
+      '/servicios',
+      'https://www.mopc.gob.do/servicios#tramites',
+      'https://www.mopc.gob.do/',
+      '/documentos/memoria-2024.PDF',
+      'mailto:info@mopc.gob.do',
+      'javascript:void(0)'
+    ], 1, 'link');
+
+    expect(added).toBe(1);
+    expect(drain(site)).toEqual([
+      { url: 'https://www.mopc.gob.do/', depth: 0, source: 'start' },
+      { url: 'https://www.mopc.gob.do/servicios', depth: 1, source: 'link' }
+    ]);
+  });
+
+  it('treats the www. and bare host as the same origin but not other hosts or schemes', () => {
+    const site = crawler();
+    site.addUrls([
+      'https://mopc.gob.do/noticias',
+      'https://WWW.MOPC.GOB.DO/contacto',
+      'http://www.mopc.gob.do/inseguro',
+      'https://transparencia.mopc.gob.do/',
+      'https://www.gob.do/'
+    ], 1, 'link');
+    expect(drain(site).slice(1).map(entry => entry.url)).toEqual(['https://mopc.gob.do/noticias', 'https://www.mopc.gob.do/contacto']);
+
+    const anyOrigin = crawler({ sameOrigin: false });
+    expect(anyOrigin.addUrls(['https://www.gob.do/', 'http://www.mopc.gob.do/inseguro'], 1, 'link')).toBe(2);
+  });
+
+  it('matches include and exclude wildcards against the path and query, ignoring case', () => {
+    const site = crawler({ include: ['/servicios*', '/noticias/*'], exclude: ['*?page=*', '/servicios/archivo*'] });
+    site.addUrls([
+      '/Servicios/licencias',
+      '/servicios',
+      '/noticias/2025/obra',
+      '/noticias',
+      '/noticias/lista?page=2',
+      '/servicios/archivo/2019',
+      '/contacto',
+      '/servicios.old'
+    ], 1, 'link');
+
+    expect(drain(site).slice(1).map(entry => new URL(entry.url).pathname)).toEqual([
+      '/Servicios/licencias',
+      '/servicios',
+      '/noticias/2025/obra',
+      '/servicios.old'
+    ]);
+  });
+
+  it('stops at the page and depth limits', () => {
+    const site = crawler({ maxPages: 2, maxDepth: 1 });
+    expect(site.addUrls(['/a', '/b', '/c'], 1, 'link')).toBe(3);
+    expect(site.addUrls(['/d'], 2, 'link')).toBe(0);
+    expect(site.plannedPages()).toBe(2);
+    expect(drain(site)).toHaveLength(2);
+  });
+
+  it('reads the sitemaps declared in robots.txt, following sitemap indexes', async () => {
+    const { context, get } = fakeContext({
+      'https://www.mopc.gob.do/robots.txt': 'User-agent: *\nDisallow: /admin\n  Sitemap: https://www.mopc.gob.do/sitemap_index.xml\n',
+      'https://www.mopc.gob.do/sitemap_index.xml':
+        '<?xml version="1.0"?><sitemapindex><sitemap><loc>https://www.mopc.gob.do/paginas.xml</loc></sitemap></sitemapindex>',
+      'https://www.mopc.gob.do/paginas.xml':
+        '<urlset><url><loc> https://www.mopc.gob.do/servicios </loc></url><url><loc>https://www.mopc.gob.do/buscar?q=a&amp;p=2</loc></url>' +
+        '<url><loc>https://otro.gob.do/</loc></url></urlset>'
+    });
+    const site = new SiteCrawler(context, 'https://www.mopc.gob.do/', { maxDepth: 3 });
+
+    expect(await site.discoverSitemap()).toBe(2);
+    expect(get.mock.calls.map(([url]) => url)).toEqual([
+      'https://www.mopc.gob.do/robots.txt',
+      'https://www.mopc.gob.do/sitemap.xml',
+      'https://www.mopc.gob.do/sitemap_index.xml',
+      'https://www.mopc.gob.do/paginas.xml'
+    ]);
+    expect(drain(site).slice(1)).toEqual([
+      { url: 'https://www.mopc.gob.do/servicios', depth: 1, source: 'sitemap' },
+      { url: 'https://www.mopc.gob.do/buscar?q=a&p=2', depth: 1, source: 'sitemap' }
+    ]);
+  });
+
+  it('skips the sitemap when disabled and adds its pages at depth 0 when links are not followed', async () => {
+    const responses = { 'https://www.mopc.gob.do/sitemap.xml': '<urlset><url><loc>https://www.mopc.gob.do/servicios</loc></url></urlset>' };
+
+    const disabled = fakeContext(responses);
+    expect(await new SiteCrawler(disabled.context, 'https://www.mopc.gob.do/', { useSitemap: false }).discoverSitemap()).toBe(0);
+    expect(disabled.get).not.toHaveBeenCalled();
+
+    const site = crawler({ maxDepth: 0 }, responses);
+    expect(await site.discoverSitemap()).toBe(1);
+    expect(drain(site)[1]).toEqual({ url: 'https://www.mopc.gob.do/servicios', depth: 0, source: 'sitemap' });
+  });
+});
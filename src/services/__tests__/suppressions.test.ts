@@ -0,0 +1,155 @@
+import { AccessibilityViolation, Suppression, TestResult } from '../../models/database';
+import { AXE_AUDIT_TEST } from '../../tests/accessibility';
+import { applySuppressions, isSuppressionExpired, validateSuppression } from '../suppressions';
+
+const NOW = new Date('2025-03-14T15:00:00.000Z');
+
+const suppression = (id: number, overrides: Partial<Suppression>): Suppression => ({
+  id,
+  url: 'mopc.gob.do',
+  justification: 'Widget de un proveedor externo',
+  author: 'equipo-ogtic',
+  expires_at: '2025-12-31',
+  ...overrides
+});
+
+const test = (test_name: string, status: TestResult['status'], extra: Partial<TestResult> = {}): TestResult => ({
+  analysis_id: 'a1',
+  category: 'Accesibilidad',
+  test_name,
+  status,
+  score: status === 'passed' ? 100 : 40,
+  message: `${test_name}: ${status}`,
+  ...extra
+});
+
+const violation = (rule_id: string, impact: AccessibilityViolation['impact'], selector: string): AccessibilityViolation => ({
+  analysis_id: 'a1',
+  rule_id,
+  impact,
+  description: `Regla ${rule_id}`,
+  selector
+});
+
+describe('validateSuppression', () => {
+  const input = {
+    url: 'https://www.mopc.gob.do/servicios/',
+    rule_id: 'image-alt',
+    justification: ' Imagen decorativa ',
+    author: 'equipo-ogtic',
+    expires_at: '2025-06-30'
+  };
+
+  it('normalizes the url and trims the text fields', () => {
+    expect(validateSuppression(input, undefined, NOW)).toEqual({
+      valid: true,
+      suppression: {
+        institution_id: null,
+        url: 'mopc.gob.do/servicios',
+        test_name: null,
+        rule_id: 'image-alt',
+        selector: null,
+        justification: 'Imagen decorativa',
+        author: 'equipo-ogtic',
+        expires_at: '2025-06-30'
+      }
+    });
+  });
+
+  it('collects every error', () => {
+    expect(validateSuppression({ institution_id: 3, url: 'mopc.gob.do', test_name: 'Contenido Mixto', rule_id: 'region', expires_at: '30/06/2025' }, undefined, NOW))
+      .toEqual({
+        valid: false,
+        errors: [
+          'Exactly one of institution_id or url is required',
+          'test_name cannot be combined with rule_id or selector',
+          'justification is required',
+          'author is required',
+          'expires_at must be a date (YYYY-MM-DD)'
+        ]
+      });
+  });
+
+  it('accepts today as expiry date but not an earlier day', () => {
+    expect(validateSuppression({ ...input, expires_at: '2025-03-14' }, undefined, NOW).valid).toBe(true);
+    expect(validateSuppression({ ...input, expires_at: '2025-03-13' }, undefined, NOW))
+      .toEqual({ valid: false, errors: ['expires_at cannot be in the past'] });
+  });
+
+  it('lets an update keep the date of a suppression that has expired', () => {
+    const existing = suppression(7, { rule_id: 'image-alt', expires_at: '2025-01-31' });
+    expect(validateSuppression({ justification: 'Proveedor notificado' }, existing, NOW)).toMatchObject({
+      valid: true,
+      suppression: { justification: 'Proveedor notificado', expires_at: '2025-01-31' }
+    });
+    expect(validateSuppression({ expires_at: '2025-02-28' }, existing, NOW).valid).toBe(false);
+  });
+});
+
+describe('isSuppressionExpired', () => {
+  it('keeps applying through the whole expiry day', () => {
+    expect(isSuppressionExpired({ expires_at: '2025-03-14' }, NOW)).toBe(false);
+    expect(isSuppressionExpired({ expires_at: '2025-03-13' }, NOW)).toBe(true);
+  });
+});
+
+describe('applySuppressions', () => {
+  it('marks failed and warning tests only, on the suppressed page and the ones below it', () => {
+    const suppressions = [suppression(1, { url: 'mopc.gob.do/servicios', test_name: 'Contenido Mixto' })];
+    const tests = [test('Contenido Mixto', 'failed'), test('Implementación HTTPS', 'failed')];
+
+    const below = applySuppressions(suppressions, 'https://mopc.gob.do/servicios/licencias', tests, [], NOW);
+    expect(below.changed).toBe(true);
+    expect(below.tests[0].suppression).toEqual({
+      id: 1,
+      justification: 'Widget de un proveedor externo',
+      author: 'equipo-ogtic',
+      expires_at: '2025-12-31',
+      expired: false
+    });
+    expect(below.tests[1].suppression).toBeUndefined();
+
+    expect(applySuppressions(suppressions, 'https://mopc.gob.do/serviciosweb', tests, [], NOW).changed).toBe(false);
+    expect(applySuppressions(suppressions, 'https://mopc.gob.do/servicios', [test('Contenido Mixto', 'passed')], [], NOW).tests[0].suppression)
+      .toBeUndefined();
+  });
+
+  it('prefers an active suppression and keeps an expired one as a marker that still counts', () => {
+    const expired = suppression(1, { test_name: 'Contenido Mixto', expires_at: '2025-01-31' });
+    const active = suppression(2, { test_name: 'Contenido Mixto' });
+
+    const onlyExpired = applySuppressions([expired], 'https://mopc.gob.do', [test('Contenido Mixto', 'failed')], [], NOW);
+    expect(onlyExpired.tests[0].suppression).toMatchObject({ id: 1, expired: true });
+    expect(onlyExpired.changed).toBe(false);
+
+    const both = applySuppressions([expired, active], 'https://mopc.gob.do', [test('Contenido Mixto', 'failed')], [], NOW);
+    expect(both.tests[0].suppression).toMatchObject({ id: 2, expired: false });
+    expect(both.changed).toBe(true);
+  });
+
+  it('rescores the axe audit without the rules whose elements are all suppressed', () => {
+    const violations = [
+      violation('image-alt', 'critical', '#logo'),
+      violation('image-alt', 'critical', '#banner'),
+      violation('color-contrast', 'serious', '.footer a')
+    ];
+    const audit = test(AXE_AUDIT_TEST, 'failed', {
+      score: 60,
+      message: '2 reglas incumplidas',
+      details: { violatedRules: [{ id: 'image-alt', impact: 'critical' }, { id: 'color-contrast', impact: 'serious' }] }
+    });
+
+    const partly = applySuppressions([suppression(1, { rule_id: 'image-alt', selector: '#logo' })], 'https://mopc.gob.do', [audit], violations, NOW);
+    expect(partly.violations.map(v => !!v.suppression)).toEqual([true, false, false]);
+    expect(partly.tests[0]).toMatchObject({ score: 60, status: 'failed', message: '2 reglas incumplidas (1 elemento suprimido)' });
+
+    const rule = applySuppressions([suppression(1, { rule_id: 'image-alt' })], 'https://mopc.gob.do', [audit], violations, NOW);
+    expect(rule.changed).toBe(true);
+    expect(rule.tests[0]).toMatchObject({
+      score: 85,
+      status: 'passed',
+      message: '2 reglas incumplidas (2 elementos suprimidos)',
+      details: { suppressedElements: 2 }
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { dbManager, ScoreHistoryEntry } from '../../models/database';
+import { getScoreTrend, normalizeAnalysisUrl } from '../trends';
+
+jest.mock('../../models/database', () => ({
+  dbManager: {
+    getInstitution: jest.fn(),
+    getScoreHistory: jest.fn()
+  }
+}));
+
+const db = dbManager as unknown as { [method: string]: jest.Mock };
+
+const entry = (
+  analysis_id: string,
+  completed_at: string,
+  overall_score: number | null,
+  categories: { [categoryId: string]: number } = {},
+  url = 'https://mopc.gob.do/'
+): ScoreHistoryEntry => ({
+  analysis_id,
+  url,
+  institution_id: 1,
+  completed_at,
+  overall_score,
+  categories: Object.fromEntries(Object.entries(categories).map(([id, score]) => [id, { label: id.toUpperCase(), score }]))
+});
+
+beforeEach(() => {
+  db.getInstitution.mockResolvedValue({ id: 1, name: 'Ministerio de Obras Públicas', acronym: 'MOPC', domains: [] });
+  db.getScoreHistory.mockResolvedValue([]);
+});
+
+describe('normalizeAnalysisUrl', () => {
+  it('ignores scheme, www, port, query and trailing slashes', () => {
+    expect(normalizeAnalysisUrl('http://www.MOPC.gob.do:8080/servicios//?page=2')).toBe('mopc.gob.do/servicios');
+    expect(normalizeAnalysisUrl('https://mopc.gob.do/')).toBe('mopc.gob.do');
+  });
+
+  it('rejects non-web URLs', () => {
+    expect(normalizeAnalysisUrl('ftp://mopc.gob.do')).toBeNull();
+    expect(normalizeAnalysisUrl('mopc.gob.do')).toBeNull();
+  });
+});
+
+describe('getScoreTrend', () => {
+  const history = [
+    entry('a1', '2024-12-29T23:00:00.000Z', 60, { seo: 50 }),
+    entry('a2', '2024-12-30T10:00:00.000Z', 70, { seo: 70, seguridad: 90 }),
+    entry('a3', '2025-01-05T12:00:00.000Z', 81),
+    entry('a4', '2025-01-06T08:00:00.000Z', null)
+  ];
+
+  it('groups by UTC day', async () => {
+    db.getScoreHistory.mockResolvedValue(history);
+    const trend = await getScoreTrend({ institutionId: 1 }, 'day');
+    expect(trend!.points.map(point => [point.period, point.start])).toEqual([
+      ['2024-12-29', '2024-12-29'],
+      ['2024-12-30', '2024-12-30'],
+      ['2025-01-05', '2025-01-05'],
+      ['2025-01-06', '2025-01-06']
+    ]);
+  });
+
+  it('groups by ISO week, which belongs to the year of its Thursday', async () => {
+    db.getScoreHistory.mockResolvedValue(history);
+    const trend = await getScoreTrend({ institutionId: 1 }, 'week');
+    expect(trend!.points.map(point => [point.period, point.start, point.analysisCount])).toEqual([
+      ['2024-W52', '2024-12-23', 1],
+      ['2025-W01', '2024-12-30', 2],
+      ['2025-W02', '2025-01-06', 1]
+    ]);
+  });
+
+  it('groups by month and averages the scores of each period', async () => {
+    db.getScoreHistory.mockResolvedValue(history);
+    const trend = await getScoreTrend({ institutionId: 1 }, 'month');
+
+    expect(trend!.institution).toEqual({ id: 1, name: 'Ministerio de Obras Públicas', acronym: 'MOPC' });
+    expect(trend!.categories).toEqual([
+      { categoryId: 'seo', label: 'SEO' },
+      { categoryId: 'seguridad', label: 'SEGURIDAD' }
+    ]);
+    expect(trend!.points).toEqual([
+      {
+        period: '2024-12',
+        start: '2024-12-01',
+        analysisCount: 2,
+        overallScore: 65,
+        minScore: 60,
+        maxScore: 70,
+        categories: { seo: 60, seguridad: 90 },
+        latestAnalysisId: 'a2'
+      },
+      {
+        period: '2025-01',
+        start: '2025-01-01',
+        analysisCount: 2,
+        overallScore: 81,
+        minScore: 81,
+        maxScore: 81,
+        categories: {},
+        latestAnalysisId: 'a4'
+      }
+    ]);
+  });
+
+  it('keeps only the analyses of the exact page for URL trends', async () => {
+    db.getScoreHistory.mockResolvedValue([
+      entry('a1', '2025-01-05T12:00:00.000Z', 80, {}, 'https://mopc.gob.do/servicios/'),
+      entry('a2', '2025-01-05T13:00:00.000Z', 40, {}, 'https://mopc.gob.do/servicios/tramites')
+    ]);
+
+    const trend = await getScoreTrend({ url: 'http://www.mopc.gob.do/servicios' }, 'day', { dateTo: '2025-01-31T23:59:59.999Z' });
+
+    expect(db.getScoreHistory).toHaveBeenCalledWith({ urlContains: 'mopc.gob.do', dateTo: '2025-01-31T23:59:59.999Z' });
+    expect(trend!.url).toBe('mopc.gob.do/servicios');
+    expect(trend!.points.map(point => point.latestAnalysisId)).toEqual(['a1']);
+  });
+
+  it('returns null for an unknown institution', async () => {
+    db.getInstitution.mockResolvedValue(null);
+    expect(await getScoreTrend({ institutionId: 99 }, 'month')).toBeNull();
+  });
+});
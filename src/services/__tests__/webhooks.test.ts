@@ -0,0 +1,178 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { dbManager, Webhook } from '../../models/database';
+import { signWebhookPayload, WebhookDispatcher } from '../webhooks';
+
+jest.mock('../../models/database', () => ({
+  dbManager: {
+    getWebhooks: jest.fn(),
+    getWebhook: jest.fn(),
+    getAnalysis: jest.fn(),
+    createWebhookDelivery: jest.fn(),
+    createWebhookRetry: jest.fn(),
+    takeWebhookRetry: jest.fn()
+  }
+}));
+
+jest.mock('../nortic-analyzer', () => ({
+  norticAnalyzer: { getAnalysisResult: jest.fn() }
+}));
+
+const db = dbManager as unknown as { [method: string]: jest.Mock };
+
+const RETRY_BASE_MS = 20;
+
+interface ReceivedRequest {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+let server: http.Server;
+let received: ReceivedRequest[];
+// Status codes answered in order; the last one repeats
+let responses: number[];
+let webhook: Webhook;
+
+const waitFor = async (check: () => boolean, timeoutMs = 2000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the webhook deliveries');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body: Buffer.concat(chunks).toString('utf8') });
+      res.statusCode = responses.length > 1 ? responses.shift()! : responses[0];
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  received = [];
+  webhook = {
+    id: 'wh-1',
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`,
+    secret: 'a-secret-of-sufficient-length',
+    events: ['analysis.failed'],
+    description: null,
+    active: true
+  };
+  db.getWebhooks.mockResolvedValue([webhook]);
+  db.getWebhook.mockResolvedValue(webhook);
+  db.getAnalysis.mockResolvedValue({ id: 'a1', url: 'https://mopc.gob.do', status: 'failed' });
+  db.createWebhookDelivery.mockResolvedValue(undefined);
+  db.createWebhookRetry.mockResolvedValue(undefined);
+  db.takeWebhookRetry.mockResolvedValue(true);
+
+  process.env.WEBHOOK_MAX_ATTEMPTS = '3';
+  process.env.WEBHOOK_RETRY_BASE_MS = String(RETRY_BASE_MS);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+  delete process.env.WEBHOOK_MAX_ATTEMPTS;
+  delete process.env.WEBHOOK_RETRY_BASE_MS;
+});
+
+describe('WebhookDispatcher', () => {
+  it('signs the raw body with HMAC-SHA256 and logs a successful delivery', async () => {
+    responses = [204];
+    await new WebhookDispatcher().dispatch('a1', 'analysis.failed', 'Timeout');
+    await waitFor(() => db.createWebhookDelivery.mock.calls.length === 1);
+
+    const [request] = received;
+    const expected = 'sha256=' + crypto.createHmac('sha256', webhook.secret).update(request.body).digest('hex');
+    expect(request.headers['x-nortic-signature']).toBe(expected);
+    expect(signWebhookPayload(webhook.secret, request.body)).toBe(expected);
+
+    const payload = JSON.parse(request.body);
+    expect(request.headers['x-nortic-event']).toBe('analysis.failed');
+    expect(request.headers['x-nortic-delivery']).toBe(payload.id);
+    expect(payload).toMatchObject({ event: 'analysis.failed', analysisId: 'a1', status: 'failed', error: 'Timeout', result: null });
+
+    expect(db.createWebhookDelivery).toHaveBeenCalledWith(expect.objectContaining({
+      delivery_id: payload.id,
+      webhook_id: 'wh-1',
+      attempt: 1,
+      status: 'success',
+      response_status: 204,
+      error: null
+    }));
+    expect(db.createWebhookRetry).not.toHaveBeenCalled();
+  });
+
+  it('stores a retry with exponential backoff after an error response and stops once it is delivered', async () => {
+    responses = [500, 500, 200];
+    const before = Date.now();
+    await new WebhookDispatcher().dispatch('a1', 'analysis.failed');
+    await waitFor(() => db.createWebhookDelivery.mock.calls.length === 3);
+    const after = Date.now();
+
+    expect(db.createWebhookDelivery.mock.calls.map(([delivery]) => [delivery.attempt, delivery.status, delivery.response_status, delivery.error]))
+      .toEqual([
+        [1, 'failed', 500, 'HTTP 500'],
+        [2, 'failed', 500, 'HTTP 500'],
+        [3, 'success', 200, null]
+      ]);
+
+    // One retry row per failed attempt, each for the next attempt and delayed by base * 2 ** (attempt - 1)
+    const retries = db.createWebhookRetry.mock.calls.map(([retry]) => retry);
+    expect(retries.map(retry => retry.attempt)).toEqual([2, 3]);
+    retries.forEach((retry, index) => {
+      const delay = RETRY_BASE_MS * 2 ** index;
+      const dueAt = new Date(retry.next_attempt_at).getTime();
+      expect(dueAt).toBeGreaterThanOrEqual(before + delay);
+      expect(dueAt).toBeLessThanOrEqual(after + delay);
+      expect(retry).toMatchObject({ webhook_id: 'wh-1', analysis_id: 'a1', payload: received[0].body });
+    });
+
+    // Every attempt resends the same delivery
+    expect(new Set(received.map(request => request.body)).size).toBe(1);
+    expect(db.takeWebhookRetry).toHaveBeenCalledTimes(2);
+
+    await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * 8));
+    expect(received).toHaveLength(3);
+  });
+
+  it('gives up after the last attempt without storing another retry', async () => {
+    responses = [503];
+    await new WebhookDispatcher().dispatch('a1', 'analysis.failed');
+    await waitFor(() => db.createWebhookDelivery.mock.calls.length === 3);
+
+    expect(db.createWebhookRetry).toHaveBeenCalledTimes(2);
+    await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * 8));
+    expect(received).toHaveLength(3);
+  });
+
+  it('drops a retry that was already taken or whose webhook was disabled', async () => {
+    responses = [500, 200];
+    db.takeWebhookRetry.mockResolvedValueOnce(false);
+    await new WebhookDispatcher().dispatch('a1', 'analysis.failed');
+    await waitFor(() => db.takeWebhookRetry.mock.calls.length === 1);
+    await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * 4));
+    expect(received).toHaveLength(1);
+
+    received = [];
+    responses = [500, 200];
+    db.getWebhook.mockResolvedValueOnce({ ...webhook, active: false });
+    await new WebhookDispatcher().dispatch('a1', 'analysis.failed');
+    await waitFor(() => db.getWebhook.mock.calls.length === 1);
+    await new Promise(resolve => setTimeout(resolve, RETRY_BASE_MS * 4));
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,115 @@
+import zlib from 'zlib';
+import { PassThrough, Writable } from 'stream';
+import { escapeXml, waitForDrain, XlsxWriter } from '../xlsx-writer';
+import { csvField } from '../exports';
+
+// Reads the entries back through the central directory, as a spreadsheet application would
+function unzip(archive: Buffer): Map<string, string> {
+  const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+
+  const files = new Map<string, string>();
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf8', position + 46, position + 46 + nameLength);
+
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26);
+    const content = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    expect(content.length).toBe(size);
+    files.set(name, content.toString('utf8'));
+    position += 46 + nameLength;
+  }
+  return files;
+}
+
+async function writeWorkbook(build: (workbook: XlsxWriter) => Promise<void>): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on('data', (chunk: Buffer) => chunks.push(chunk));
+  await build(new XlsxWriter(output));
+  output.end();
+  return Buffer.concat(chunks);
+}
+
+describe('XlsxWriter', () => {
+  it('writes a readable workbook with one part per sheet', async () => {
+    async function* rows() {
+      yield ['a1', 'https://mopc.gob.do', 87];
+      yield ['a2', 'Fallo <crítico> & "otro"', null];
+    }
+
+    const archive = await writeWorkbook(async workbook => {
+      await workbook.addSheet('Analisis', ['ID', 'URL', 'Puntuacion'], rows());
+      await workbook.addSheet('Pruebas: [todas]', ['Prueba'], [['HTTPS']]);
+      await workbook.finish();
+    });
+    const files = unzip(archive);
+
+    expect(Array.from(files.keys())).toEqual([
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml'
+    ]);
+
+    const sheet = files.get('xl/worksheets/sheet1.xml')!;
+    expect(sheet).toContain('<row><c t="inlineStr" s="1"><is><t xml:space="preserve">ID</t></is></c>');
+    expect(sheet).toContain('<c><v>87</v></c>');
+    expect(sheet).toContain('Fallo &lt;crítico&gt; &amp; &quot;otro&quot;</t></is></c><c/></row>');
+    expect(files.get('xl/workbook.xml')).toContain('<sheet name="Pruebas   todas " sheetId="2" r:id="rId2"/>');
+  });
+
+  it('fails instead of waiting forever when the output closes', async () => {
+    const stalled = new Writable({ highWaterMark: 1, write: () => undefined });
+    const workbook = new XlsxWriter(stalled);
+    const writing = workbook.addSheet('Analisis', ['ID'], [['a1']]);
+    stalled.destroy();
+
+    await expect(writing).rejects.toThrow('Output closed before the export finished');
+  });
+});
+
+describe('waitForDrain', () => {
+  it('resolves on drain and rejects on close', async () => {
+    const drained = new PassThrough();
+    const waiting = waitForDrain(drained);
+    drained.emit('drain');
+    await expect(waiting).resolves.toBeUndefined();
+
+    const closed = new PassThrough();
+    const pending = waitForDrain(closed);
+    closed.destroy();
+    await expect(pending).rejects.toThrow('Output closed before the export finished');
+    await expect(waitForDrain(closed)).rejects.toThrow('Output closed before the export finished');
+  });
+});
+
+describe('escapeXml', () => {
+  it('escapes markup and drops characters XML cannot hold', () => {
+    expect(escapeXml('a < b & "c"\u0001\uFFFF')).toBe('a &lt; b &amp; &quot;c&quot;');
+  });
+});
+
+describe('csvField', () => {
+  it('quotes fields with separators, quotes or line breaks', () => {
+    expect(csvField('Obras, Públicas')).toBe('"Obras, Públicas"');
+    expect(csvField('dice "hola"')).toBe('"dice ""hola"""');
+    expect(csvField(null)).toBe('');
+    expect(csvField(42)).toBe('42');
+  });
+
+  it('keeps text that looks like a formula from running in Excel', () => {
+    expect(csvField('=HYPERLINK("http://x")')).toBe('"\'=HYPERLINK(""http://x"")"');
+    expect(csvField('+1')).toBe("'+1");
+    expect(csvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    expect(csvField(-5)).toBe('-5');
+  });
+});
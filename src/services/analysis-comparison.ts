@@ -0,0 +1,274 @@
+import { dbManager, AccessibilityViolation, AnalysisPage, NorticAnalysis, TestResult } from '../models/database';
+
+export type TestChangeKind = 'fixed' | 'regressed' | 'new' | 'removed';
+
+export interface ComparedAnalysis {
+  analysisId: string;
+  url: string;
+  endTime: string | null;
+  overallScore: number | null;
+  complianceLevel: string | null;
+}
+
+export interface ScoreDelta {
+  base: number | null;
+  target: number | null;
+  // null when either side has no score
+  delta: number | null;
+}
+
+export interface CategoryDelta extends ScoreDelta {
+  categoryId: string;
+  label: string;
+}
+
+export interface TestChange {
+  change: TestChangeKind;
+  categoryId: string;
+  category: string;
+  testName: string;
+  // Page path in crawl mode; null for tests run on the start URL only
+  page: string | null;
+  baseStatus: TestResult['status'] | null;
+  targetStatus: TestResult['status'] | null;
+  baseScore: number | null;
+  targetScore: number | null;
+  message: string | null;
+}
+
+export interface ViolationChange {
+  ruleId: string;
+  impact: AccessibilityViolation['impact'];
+  description: string;
+  helpUrl: string | null;
+  selector: string | null;
+  html: string | null;
+  page: string | null;
+}
+
+export interface AnalysisComparison {
+  base: ComparedAnalysis;
+  target: ComparedAnalysis;
+  overall: ScoreDelta;
+  categories: CategoryDelta[];
+  tests: {
+    summary: { [kind in TestChangeKind]: number } & { unchanged: number };
+    changes: TestChange[];
+  };
+  violations: {
+    summary: { added: number; resolved: number; unchanged: number };
+    added: ViolationChange[];
+    resolved: ViolationChange[];
+  };
+}
+
+export type ComparisonResult =
+  | { valid: true; comparison: AnalysisComparison }
+  | { valid: false; reason: 'not_found' | 'not_completed'; error: string };
+
+// Skipped tests rank with passed: there is nothing left to fix in them
+const STATUS_RANK: { [status in TestResult['status']]: number } = {
+  passed: 0,
+  skipped: 0,
+  warning: 1,
+  failed: 2
+};
+
+const CHANGE_ORDER: TestChangeKind[] = ['regressed', 'fixed', 'new', 'removed'];
+
+const IMPACT_ORDER: AccessibilityViolation['impact'][] = ['critical', 'serious', 'moderate', 'minor'];
+
+interface AnalysisSnapshot {
+  categories: Map<string, { label: string; score: number }>;
+  tests: Map<string, TestResult & { page: string | null }>;
+  violations: Map<string, ViolationChange>;
+}
+
+// Pages are matched by path so that http/https or www differences between runs don't count as changes
+function pagePath(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+function pageResolver(analysis: NorticAnalysis, pages: AnalysisPage[]): (pageId?: number | null) => string | null {
+  const startPath = pagePath(analysis.url);
+  const paths = new Map(pages.map(page => [page.id, pagePath(page.url)]));
+
+  // The crawl's start page and a single-page run describe the same page
+  return pageId => {
+    const path = pageId ? paths.get(pageId) ?? null : null;
+    return path === startPath ? null : path;
+  };
+}
+
+async function loadSnapshot(analysis: NorticAnalysis): Promise<AnalysisSnapshot> {
+  const [categoryScores, testResults, violations, pages] = await Promise.all([
+    dbManager.getCategoryScores(analysis.id),
+    dbManager.getTestResults(analysis.id),
+    dbManager.getAccessibilityViolations(analysis.id),
+    dbManager.getAnalysisPages(analysis.id)
+  ]);
+  const resolvePage = pageResolver(analysis, pages);
+
+  const snapshot: AnalysisSnapshot = {
+    categories: new Map(categoryScores.map(score => [score.category_id, { label: score.label, score: score.score }])),
+    tests: new Map(),
+    violations: new Map()
+  };
+
+  for (const test of testResults) {
+    const page = resolvePage(test.page_id);
+    const categoryId = test.category_id || test.category;
+    snapshot.tests.set(`${categoryId}|${test.test_name}|${page ?? ''}`, { ...test, page });
+  }
+
+  for (const violation of violations) {
+    const page = resolvePage(violation.page_id);
+    snapshot.violations.set(`${violation.rule_id}|${violation.selector ?? ''}|${page ?? ''}`, {
+      ruleId: violation.rule_id,
+      impact: violation.impact,
+      description: violation.description,
+      helpUrl: violation.help_url ?? null,
+      selector: violation.selector ?? null,
+      html: violation.html ?? null,
+      page
+    });
+  }
+
+  return snapshot;
+}
+
+function scoreDelta(base: number | null | undefined, target: number | null | undefined): ScoreDelta {
+  const baseScore = base ?? null;
+  const targetScore = target ?? null;
+  return {
+    base: baseScore,
+    target: targetScore,
+    delta: baseScore !== null && targetScore !== null ? targetScore - baseScore : null
+  };
+}
+
+function describe(analysis: NorticAnalysis): ComparedAnalysis {
+  return {
+    analysisId: analysis.id,
+    url: analysis.url,
+    endTime: analysis.end_time ?? null,
+    overallScore: analysis.overall_score ?? null,
+    complianceLevel: analysis.compliance_level ?? null
+  };
+}
+
+function compareTests(base: AnalysisSnapshot, target: AnalysisSnapshot): AnalysisComparison['tests'] {
+  const changes: TestChange[] = [];
+  let unchanged = 0;
+
+  for (const key of new Set([...base.tests.keys(), ...target.tests.keys()])) {
+    const before = base.tests.get(key);
+    const after = target.tests.get(key);
+    const test = (after || before)!;
+
+    let change: TestChangeKind | null;
+    if (!before) {
+      change = 'new';
+    } else if (!after) {
+      change = 'removed';
+    } else if (STATUS_RANK[after.status] < STATUS_RANK[before.status]) {
+      change = 'fixed';
+    } else if (STATUS_RANK[after.status] > STATUS_RANK[before.status]) {
+      change = 'regressed';
+    } else {
+      change = null;
+    }
+
+    if (!change) {
+      unchanged++;
+      continue;
+    }
+
+    changes.push({
+      change,
+      categoryId: test.category_id || test.category,
+      category: test.category,
+      testName: test.test_name,
+      page: test.page,
+      baseStatus: before?.status ?? null,
+      targetStatus: after?.status ?? null,
+      baseScore: before?.score ?? null,
+      targetScore: after?.score ?? null,
+      message: test.message ?? null
+    });
+  }
+
+  changes.sort((a, b) =>
+    CHANGE_ORDER.indexOf(a.change) - CHANGE_ORDER.indexOf(b.change) ||
+    a.categoryId.localeCompare(b.categoryId) ||
+    a.testName.localeCompare(b.testName)
+  );
+
+  const count = (kind: TestChangeKind) => changes.filter(change => change.change === kind).length;
+  return {
+    summary: { fixed: count('fixed'), regressed: count('regressed'), new: count('new'), removed: count('removed'), unchanged },
+    changes
+  };
+}
+
+function compareViolations(base: AnalysisSnapshot, target: AnalysisSnapshot): AnalysisComparison['violations'] {
+  const byImpact = (a: ViolationChange, b: ViolationChange) =>
+    IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || a.ruleId.localeCompare(b.ruleId);
+
+  const added = Array.from(target.violations.entries())
+    .filter(([key]) => !base.violations.has(key))
+    .map(([, violation]) => violation)
+    .sort(byImpact);
+  const resolved = Array.from(base.violations.entries())
+    .filter(([key]) => !target.violations.has(key))
+    .map(([, violation]) => violation)
+    .sort(byImpact);
+
+  return {
+    summary: { added: added.length, resolved: resolved.length, unchanged: target.violations.size - added.length },
+    added,
+    resolved
+  };
+}
+
+// Compares two completed analyses, usually an earlier and a later run of the same site
+export async function compareAnalyses(baseId: string, targetId: string): Promise<ComparisonResult> {
+  const base = await dbManager.getAnalysis(baseId);
+  if (!base) return { valid: false, reason: 'not_found', error: 'Base analysis not found' };
+  const target = await dbManager.getAnalysis(targetId);
+  if (!target) return { valid: false, reason: 'not_found', error: 'Target analysis not found' };
+
+  if (base.status !== 'completed' || target.status !== 'completed') {
+    return { valid: false, reason: 'not_completed', error: 'Only completed analyses can be compared' };
+  }
+
+  const [baseSnapshot, targetSnapshot] = [await loadSnapshot(base), await loadSnapshot(target)];
+
+  const categoryIds = new Set([...baseSnapshot.categories.keys(), ...targetSnapshot.categories.keys()]);
+  const categories = Array.from(categoryIds).map(categoryId => {
+    const before = baseSnapshot.categories.get(categoryId);
+    const after = targetSnapshot.categories.get(categoryId);
+    return {
+      categoryId,
+      label: (after || before)!.label,
+      ...scoreDelta(before?.score, after?.score)
+    };
+  });
+
+  return {
+    valid: true,
+    comparison: {
+      base: describe(base),
+      target: describe(target),
+      overall: scoreDelta(base.overall_score, target.overall_score),
+      categories,
+      tests: compareTests(baseSnapshot, targetSnapshot),
+      violations: compareViolations(baseSnapshot, targetSnapshot)
+    }
+  };
+}
@@ -0,0 +1,215 @@
+import { v4 as uuidv4 } from 'uuid';
+import { dbManager, NorticAnalysis, QueuedAnalysis } from '../models/database';
+import { norticAnalyzer, AnalysisOptions, ProgressUpdate } from './nortic-analyzer';
+import { plannedTestCount } from '../tests/registry';
+
+export interface QueueSnapshot {
+  concurrency: number;
+  running: QueuedAnalysis[];
+  pending: QueuedAnalysis[];
+}
+
+export interface EnqueueResult {
+  analysisId: string;
+  queuePosition: number | null;
+}
+
+const POLL_INTERVAL_MS = 5000;
+
+// Options are stored as JSON when queued; unreadable options fall back to the defaults
+export function parseAnalysisOptions(analysis: NorticAnalysis): AnalysisOptions {
+  try {
+    return analysis.options ? JSON.parse(analysis.options) : {};
+  } catch {
+    console.error(`[WARNING] Ignoring unreadable options for analysis ${analysis.id}`);
+    return {};
+  }
+}
+
+export class AnalysisQueue {
+  private running: Set<string> = new Set();
+  private claiming: Promise<NorticAnalysis | null> | null = null;
+  private cancelled: Set<string> = new Set();
+  private started = false;
+  private draining = false;
+  private drainRequested = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private progressHandler: ((update: ProgressUpdate) => void) | null = null;
+  private maxAttempts: number;
+
+  constructor() {
+    const envAttempts = parseInt(process.env.ANALYSIS_MAX_ATTEMPTS || '', 10);
+    this.maxAttempts = Number.isNaN(envAttempts) ? 3 : Math.max(1, envAttempts);
+  }
+
+  setProgressHandler(handler: (update: ProgressUpdate) => void): void {
+    this.progressHandler = handler;
+  }
+
+  async start(): Promise<void> {
+    if (this.started) return;
+
+    // Nothing runs before start(), so every in_progress row belongs to a previous process
+    const { requeued, failed } = await dbManager.resetStaleAnalyses(this.maxAttempts);
+    if (requeued.length > 0) {
+      console.log(`[INFO] Requeued ${requeued.length} interrupted analyses: ${requeued.join(', ')}`);
+    }
+    if (failed.length > 0) {
+      console.log(`[WARNING] Marked ${failed.length} analyses as failed after ${this.maxAttempts} attempts: ${failed.join(', ')}`);
+    }
+
+    this.started = true;
+    // Polling covers rows inserted by other processes sharing the same database
+    this.pollTimer = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.drain();
+  }
+
+  stop(): void {
+    this.started = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  async enqueue(url: string, options: AnalysisOptions = {}, batchId: string | null = null): Promise<EnqueueResult> {
+    const analysisId = uuidv4();
+    const now = new Date().toISOString();
+
+    await dbManager.createAnalysis({
+      id: analysisId,
+      url,
+      status: 'pending',
+      start_time: now,
+      options: JSON.stringify(options),
+      batch_id: batchId
+    });
+
+    const queuePosition = await dbManager.getQueuePosition(analysisId);
+    console.log(`[INFO] Analysis ${analysisId} queued for ${url} (position ${queuePosition})`);
+
+    this.emit({
+      analysisId,
+      status: 'pending',
+      progress: 0,
+      currentTest: 'En cola',
+      completedTests: 0,
+      totalTests: plannedTestCount(options.testCategories),
+      queuePosition: queuePosition ?? undefined
+    });
+
+    this.drain();
+    return { analysisId, queuePosition };
+  }
+
+  // Queued analyses are cancelled in the database; running ones are stopped by the analyzer
+  async cancel(analysisId: string): Promise<boolean> {
+    if (await dbManager.cancelPendingAnalysis(analysisId)) {
+      console.log(`[INFO] Queued analysis ${analysisId} cancelled`);
+      const analysis = await dbManager.getAnalysis(analysisId);
+      this.emit({
+        analysisId,
+        status: 'cancelled',
+        progress: 0,
+        currentTest: null,
+        completedTests: 0,
+        totalTests: plannedTestCount(analysis ? parseAnalysisOptions(analysis).testCategories : undefined)
+      });
+      return true;
+    }
+
+    // A worker may have claimed the row a moment ago; the analyzer knows the id as soon as that claim settles
+    if (this.claiming) {
+      await this.claiming.catch(() => null);
+    }
+
+    const cancelled = await norticAnalyzer.cancel(analysisId);
+    if (cancelled) {
+      this.cancelled.add(analysisId);
+    }
+    return cancelled;
+  }
+
+  async getQueuePosition(analysisId: string): Promise<number | null> {
+    return dbManager.getQueuePosition(analysisId);
+  }
+
+  async getSnapshot(): Promise<QueueSnapshot> {
+    const queued = await dbManager.getQueuedAnalyses();
+    return {
+      concurrency: norticAnalyzer.getConcurrencyLimit(),
+      running: queued.filter(q => q.status === 'in_progress'),
+      pending: queued.filter(q => q.status === 'pending')
+    };
+  }
+
+  private emit(update: ProgressUpdate): void {
+    if (this.progressHandler) {
+      this.progressHandler(update);
+    }
+  }
+
+  private drain(): void {
+    if (!this.started) return;
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+
+    this.draining = true;
+    this.fillWorkers()
+      .catch(error => console.error('[ERROR] Failed to pick up queued analyses:', error))
+      .finally(() => {
+        this.draining = false;
+        if (this.drainRequested) {
+          this.drainRequested = false;
+          this.drain();
+        }
+      });
+  }
+
+  private async fillWorkers(): Promise<void> {
+    while (this.started && this.running.size < norticAnalyzer.getConcurrencyLimit()) {
+      this.claiming = dbManager.claimNextPendingAnalysis();
+      try {
+        const job = await this.claiming;
+        if (!job) return;
+
+        // runJob hands the id to the analyzer synchronously, so it stays cancellable from the claim on
+        this.running.add(job.id);
+        this.runJob(job).finally(() => {
+          this.running.delete(job.id);
+          this.drain();
+        });
+      } finally {
+        this.claiming = null;
+      }
+    }
+  }
+
+  private async runJob(job: NorticAnalysis): Promise<void> {
+    const options = parseAnalysisOptions(job);
+
+    if (this.progressHandler) {
+      norticAnalyzer.setProgressCallback(job.id, this.progressHandler);
+    }
+
+    try {
+      console.log(`[INFO] Worker picked up analysis ${job.id} (attempt ${job.attempts})`);
+      await norticAnalyzer.analyze(job.url, job.id, options);
+      if (this.cancelled.has(job.id)) {
+        console.log(`[INFO] Analysis cancelled: ${job.id}`);
+      } else {
+        console.log(`[SUCCESS] Analysis completed: ${job.id}`);
+      }
+    } catch (error: any) {
+      // The analyzer already stored the failure and sent the final progress update
+      console.error(`[ERROR] Analysis failed for ${job.id}:`, error.message || error);
+    } finally {
+      this.cancelled.delete(job.id);
+      norticAnalyzer.removeProgressCallback(job.id);
+    }
+  }
+}
+
+export const analysisQueue = new AnalysisQueue();
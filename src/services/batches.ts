@@ -0,0 +1,205 @@
+import { v4 as uuidv4 } from 'uuid';
+import { dbManager, BatchCounts, NorticAnalysis } from '../models/database';
+import { AnalysisOptions } from './nortic-analyzer';
+import { analysisQueue } from './analysis-queue';
+import { progressHub, isTerminalStatus } from './progress-hub';
+
+const envMaxUrls = parseInt(process.env.BATCH_MAX_URLS || '', 10);
+export const MAX_BATCH_URLS = Number.isNaN(envMaxUrls) ? 200 : Math.max(1, envMaxUrls);
+
+export type BatchUrlValidation =
+  | { valid: true; urls: string[] }
+  | { valid: false; error: string; invalidUrls?: string[] };
+
+export interface BatchAnalysisRow {
+  analysisId: string;
+  url: string;
+  status: NorticAnalysis['status'];
+  progress: number;
+  overallScore: number | null;
+  complianceLevel: string | null;
+  categories: { [categoryId: string]: number };
+}
+
+export interface BatchStatus {
+  batchId: string;
+  name: string | null;
+  createdAt: string;
+  testCategories: string[];
+  status: 'pending' | 'in_progress' | 'completed';
+  progress: BatchCounts & { percent: number };
+  summary: {
+    averageScore: number | null;
+    minScore: number | null;
+    maxScore: number | null;
+    complianceLevels: { [level: string]: number };
+  };
+  analyses: BatchAnalysisRow[];
+}
+
+// Splits one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',' || char === ';') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+// Takes the "url" column when the first row is a header, otherwise the first column
+export function parseUrlCsv(csv: string): string[] {
+  const rows = csv
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(splitCsvLine);
+
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(field => field.toLowerCase());
+  const urlColumn = header.findIndex(field => field === 'url' || field === 'urls' || field === 'sitio');
+  const dataRows = urlColumn >= 0 ? rows.slice(1) : rows;
+  const column = Math.max(urlColumn, 0);
+
+  return dataRows.map(row => row[column] || '').filter(url => url.length > 0);
+}
+
+// Rejects the whole batch when a URL is invalid; duplicates are dropped
+export function validateBatchUrls(raw: unknown): BatchUrlValidation {
+  if (!Array.isArray(raw) || raw.some(value => typeof value !== 'string')) {
+    return { valid: false, error: 'urls must be an array of strings' };
+  }
+
+  const urls = Array.from(new Set((raw as string[]).map(url => url.trim()).filter(url => url.length > 0)));
+  if (urls.length === 0) {
+    return { valid: false, error: 'The batch must include at least one URL' };
+  }
+  if (urls.length > MAX_BATCH_URLS) {
+    return { valid: false, error: `A batch can include at most ${MAX_BATCH_URLS} URLs` };
+  }
+
+  const invalidUrls = urls.filter(url => {
+    try {
+      return !['http:', 'https:'].includes(new URL(url).protocol);
+    } catch {
+      return true;
+    }
+  });
+  if (invalidUrls.length > 0) {
+    return { valid: false, error: 'Invalid URL format', invalidUrls };
+  }
+
+  return { valid: true, urls };
+}
+
+export async function createBatch(urls: string[], options: AnalysisOptions, name: string | null): Promise<{
+  batchId: string;
+  analyses: { analysisId: string; url: string; queuePosition: number | null }[];
+}> {
+  const batchId = uuidv4();
+  await dbManager.createBatch({ id: batchId, name, options: JSON.stringify(options) });
+
+  const analyses = [];
+  for (const url of urls) {
+    const { analysisId, queuePosition } = await analysisQueue.enqueue(url, options, batchId);
+    analyses.push({ analysisId, url, queuePosition });
+  }
+
+  console.log(`[INFO] Batch ${batchId} queued with ${analyses.length} analyses`);
+  return { batchId, analyses };
+}
+
+// Running analyses report their live progress; finished ones count as 100%
+function analysisProgress(analysis: NorticAnalysis): number {
+  if (isTerminalStatus(analysis.status)) return 100;
+  if (analysis.status === 'pending') return 0;
+  return progressHub.getLatestEvent(analysis.id)?.update.progress ?? 0;
+}
+
+export async function getBatchStatus(batchId: string): Promise<BatchStatus | null> {
+  const batch = await dbManager.getBatch(batchId);
+  if (!batch) return null;
+
+  const analyses = await dbManager.getBatchAnalyses(batchId);
+
+  const rows: BatchAnalysisRow[] = [];
+  for (const analysis of analyses) {
+    const categories: { [categoryId: string]: number } = {};
+    if (analysis.status === 'completed') {
+      for (const categoryScore of await dbManager.getCategoryScores(analysis.id)) {
+        categories[categoryScore.category_id] = categoryScore.score;
+      }
+    }
+
+    rows.push({
+      analysisId: analysis.id,
+      url: analysis.url,
+      status: analysis.status,
+      progress: analysisProgress(analysis),
+      overallScore: analysis.overall_score ?? null,
+      complianceLevel: analysis.compliance_level ?? null,
+      categories
+    });
+  }
+
+  const counts: BatchCounts = {
+    total: rows.length,
+    pending: rows.filter(row => row.status === 'pending').length,
+    in_progress: rows.filter(row => row.status === 'in_progress').length,
+    completed: rows.filter(row => row.status === 'completed').length,
+    failed: rows.filter(row => row.status === 'failed').length,
+    cancelled: rows.filter(row => row.status === 'cancelled').length
+  };
+  const percent = rows.length > 0
+    ? Math.round(rows.reduce((sum, row) => sum + row.progress, 0) / rows.length)
+    : 0;
+
+  const scores = rows.filter(row => row.status === 'completed' && row.overallScore !== null).map(row => row.overallScore as number);
+  const complianceLevels: { [level: string]: number } = {};
+  for (const row of rows) {
+    if (row.status === 'completed' && row.complianceLevel) {
+      complianceLevels[row.complianceLevel] = (complianceLevels[row.complianceLevel] || 0) + 1;
+    }
+  }
+
+  const finished = counts.completed + counts.failed + counts.cancelled;
+  const status = finished === counts.total ? 'completed' : counts.pending === counts.total ? 'pending' : 'in_progress';
+
+  return {
+    batchId,
+    name: batch.name ?? null,
+    createdAt: batch.created_at as string,
+    testCategories: batch.options ? JSON.parse(batch.options).testCategories || [] : [],
+    status,
+    progress: { ...counts, percent },
+    summary: {
+      averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+      minScore: scores.length > 0 ? Math.min(...scores) : null,
+      maxScore: scores.length > 0 ? Math.max(...scores) : null,
+      complianceLevels
+    },
+    analyses: rows
+  };
+}
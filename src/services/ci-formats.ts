@@ -0,0 +1,237 @@
+import { AccessibilityViolation, TestResult } from '../models/database';
+import { testerRegistry } from '../tests/registry';
+import { ReportData } from './reports';
+import { escapeXml } from './xlsx-writer';
+import { isSuppressed } from './suppressions';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+// A URL whose analysis could not run or finish; reported as a JUnit <error>
+export interface AnalysisError {
+  url: string;
+  message: string;
+}
+
+const TOOL_NAME = 'NORTIC Validator';
+
+const IMPACT_LEVELS: { [impact in AccessibilityViolation['impact']]: SarifLevel } = {
+  critical: 'error',
+  serious: 'error',
+  moderate: 'warning',
+  minor: 'note'
+};
+
+function categoryIdOf(test: TestResult): string {
+  return test.category_id || testerRegistry.get(test.category)?.id || test.category;
+}
+
+function pageUrlResolver(data: ReportData): (pageId?: number | null) => string {
+  const urls = new Map(data.pages.map(page => [page.id, page.url]));
+  return pageId => (pageId ? urls.get(pageId) : undefined) || data.analysis.url;
+}
+
+// "Implementación HTTPS" -> "implementacion-https"
+function slug(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+function attribute(value: unknown): string {
+  return escapeXml(value === null || value === undefined ? '' : String(value));
+}
+
+// Findings with an active suppression are reported as skipped instead of failing the build
+const countFailures = (tests: TestResult[]) =>
+  tests.filter(test => test.status === 'failed' && !isSuppressed(test)).length;
+
+const countSkipped = (tests: TestResult[]) =>
+  tests.filter(test => test.status === 'warning' || test.status === 'skipped' || isSuppressed(test)).length;
+
+// SARIF "accepted" suppressions are shown by code scanning tools as dismissed results
+function sarifSuppressions(finding: { suppression?: TestResult['suppression'] }): object {
+  if (!finding.suppression || !isSuppressed(finding)) return {};
+  return {
+    suppressions: [{
+      kind: 'external',
+      status: 'accepted',
+      justification: `${finding.suppression.justification} (${finding.suppression.author}, hasta ${finding.suppression.expires_at})`
+    }]
+  };
+}
+
+// One <testsuite> per category; with several analyses the suite names carry the URL
+function renderTestsuites(data: ReportData, withUrl: boolean): string[] {
+  const resolvePage = pageUrlResolver(data);
+  const crawled = data.pages.length > 1;
+
+  const suites = new Map<string, { label: string; tests: TestResult[] }>();
+  for (const test of data.testResults) {
+    const categoryId = categoryIdOf(test);
+    if (!suites.has(categoryId)) suites.set(categoryId, { label: test.category, tests: [] });
+    suites.get(categoryId)!.tests.push(test);
+  }
+
+  const testcase = (categoryId: string, test: TestResult) => {
+    // In crawl mode the same test runs once per page
+    const name = crawled ? `${test.test_name} (${resolvePage(test.page_id)})` : test.test_name;
+    const attributes = `classname="nortic.${attribute(categoryId)}" name="${attribute(name)}" time="0"`;
+    const open = `    <testcase ${attributes}>`;
+    const output = test.details ? `\n      <system-out>${escapeXml(JSON.stringify(test.details, null, 2))}</system-out>` : '';
+
+    if (test.suppression && isSuppressed(test)) {
+      const { justification, author, expires_at } = test.suppression;
+      const message = `[suppressed] ${justification} (${author}, hasta ${expires_at}): ${test.message ?? ''}`;
+      return `${open}\n      <skipped message="${attribute(message)}"/>${output}\n    </testcase>`;
+    }
+    if (test.status === 'failed') {
+      return `${open}\n      <failure type="failed" message="${attribute(test.message)}">${escapeXml(`Score: ${test.score ?? 0}\n${test.message ?? ''}`)}</failure>${output}\n    </testcase>`;
+    }
+    if (test.status === 'warning' || test.status === 'skipped') {
+      return `${open}\n      <skipped message="${attribute(`[${test.status}] ${test.message ?? ''}`)}"/>${output}\n    </testcase>`;
+    }
+    return output ? `${open}${output}\n    </testcase>` : `    <testcase ${attributes}/>`;
+  };
+
+  const lines: string[] = [];
+  for (const [categoryId, suite] of suites) {
+    const score = data.categories.find(category => category.category_id === categoryId);
+    const name = withUrl ? `${suite.label} - ${data.analysis.url}` : suite.label;
+    lines.push(
+      `  <testsuite name="${attribute(name)}" tests="${suite.tests.length}" failures="${countFailures(suite.tests)}" ` +
+        `skipped="${countSkipped(suite.tests)}" errors="0" time="0" timestamp="${attribute(data.analysis.start_time)}">`,
+      '    <properties>',
+      `      <property name="analysis_id" value="${attribute(data.analysis.id)}"/>`,
+      `      <property name="url" value="${attribute(data.analysis.url)}"/>`,
+      `      <property name="category_score" value="${attribute(score?.score)}"/>`,
+      `      <property name="overall_score" value="${attribute(data.analysis.overall_score)}"/>`,
+      `      <property name="compliance_level" value="${attribute(data.analysis.compliance_level)}"/>`,
+      '    </properties>',
+      ...suite.tests.map(test => testcase(categoryId, test)),
+      '  </testsuite>'
+    );
+  }
+  return lines;
+}
+
+function renderErrorSuite(errors: AnalysisError[]): string[] {
+  if (errors.length === 0) return [];
+  return [
+    `  <testsuite name="Errores de análisis" tests="${errors.length}" failures="0" skipped="0" errors="${errors.length}" time="0">`,
+    ...errors.map(error =>
+      `    <testcase classname="nortic.analysis" name="${attribute(error.url)}" time="0">\n` +
+        `      <error type="analysis-error" message="${attribute(error.message.split('\n')[0])}">${escapeXml(error.message)}</error>\n` +
+        '    </testcase>'
+    ),
+    '  </testsuite>'
+  ];
+}
+
+/**
+ * One <testcase> per test result, for one analysis or several (the CLI with a file of URLs).
+ * Failed tests are failures; warnings are reported as skipped so they show up in CI without breaking the pipeline.
+ * URLs whose analysis failed get a testcase with an <error> so they are not silently left out.
+ */
+export function renderJUnit(reports: ReportData | ReportData[], errors: AnalysisError[] = []): string {
+  const list = Array.isArray(reports) ? reports : [reports];
+  const tests = list.flatMap(data => data.testResults);
+  const seconds = list.reduce((sum, data) => sum + (data.analysis.duration ?? 0), 0).toFixed(3);
+  const urls = [...list.map(data => data.analysis.url), ...errors.map(error => error.url)];
+  const name = urls.length === 1 ? `NORTIC A2 - ${urls[0]}` : 'NORTIC A2';
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${attribute(name)}" tests="${tests.length + errors.length}" failures="${countFailures(tests)}" ` +
+      `skipped="${countSkipped(tests)}" errors="${errors.length}" time="${seconds}">`,
+    ...list.flatMap(data => renderTestsuites(data, urls.length > 1)),
+    ...renderErrorSuite(errors),
+    '</testsuites>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * SARIF 2.1.0 log with the axe violations (located by page and CSS selector) and the failed or
+ * warning security tests (located by page). Accepted by GitLab, Jenkins and GitHub code scanning.
+ */
+export function renderSarif(data: ReportData): object {
+  const resolvePage = pageUrlResolver(data);
+  const rules = new Map<string, object>();
+  const results: object[] = [];
+
+  for (const violation of data.violations) {
+    const ruleId = `accessibility/${violation.rule_id}`;
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, {
+        id: ruleId,
+        name: violation.rule_id,
+        shortDescription: { text: violation.description },
+        ...(violation.help_url ? { helpUri: violation.help_url } : {}),
+        defaultConfiguration: { level: IMPACT_LEVELS[violation.impact] },
+        properties: { tags: ['accessibility', 'nortic-a2'] }
+      });
+    }
+
+    const pageUrl = resolvePage(violation.page_id);
+    results.push({
+      ruleId,
+      level: IMPACT_LEVELS[violation.impact],
+      message: { text: violation.description },
+      locations: [{
+        physicalLocation: {
+          artifactLocation: { uri: pageUrl },
+          ...(violation.html ? { region: { snippet: { text: violation.html } } } : {})
+        },
+        ...(violation.selector ? { logicalLocations: [{ fullyQualifiedName: violation.selector, kind: 'element' }] } : {})
+      }],
+      partialFingerprints: { 'nortic/v1': `${violation.rule_id}|${violation.selector ?? ''}|${pageUrl}` },
+      ...sarifSuppressions(violation),
+      properties: { impact: violation.impact }
+    });
+  }
+
+  const security = testerRegistry.get('security');
+  for (const test of data.testResults) {
+    if (categoryIdOf(test) !== security?.id || (test.status !== 'failed' && test.status !== 'warning')) continue;
+
+    const ruleId = `security/${slug(test.test_name)}`;
+    if (!rules.has(ruleId)) {
+      rules.set(ruleId, {
+        id: ruleId,
+        name: test.test_name,
+        shortDescription: { text: test.test_name },
+        defaultConfiguration: { level: 'error' },
+        properties: { tags: ['security', 'nortic-a2', ...(security.requirements[test.test_name] || [])] }
+      });
+    }
+
+    const pageUrl = resolvePage(test.page_id);
+    results.push({
+      ruleId,
+      level: test.status === 'failed' ? 'error' : 'warning',
+      message: { text: test.message || test.test_name },
+      locations: [{ physicalLocation: { artifactLocation: { uri: pageUrl } } }],
+      partialFingerprints: { 'nortic/v1': `${ruleId}|${pageUrl}` },
+      ...sarifSuppressions(test),
+      properties: { score: test.score ?? null }
+    });
+  }
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: { driver: { name: TOOL_NAME, rules: Array.from(rules.values()) } },
+      automationDetails: { id: `nortic-a2/${data.analysis.id}` },
+      invocations: [{
+        executionSuccessful: true,
+        startTimeUtc: data.analysis.start_time,
+        ...(data.analysis.end_time ? { endTimeUtc: data.analysis.end_time } : {})
+      }],
+      results,
+      properties: {
+        url: data.analysis.url,
+        overallScore: data.analysis.overall_score ?? null,
+        complianceLevel: data.analysis.compliance_level ?? null
+      }
+    }]
+  };
+}
@@ -0,0 +1,13 @@
+const BARE_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads a dateFrom/dateTo query value. Stored times are full ISO timestamps, so a bare date (YYYY-MM-DD)
+ * is taken as the first or last millisecond of that day (UTC). Returns null for unreadable values.
+ */
+export function parseDateBound(value: string, bound: 'start' | 'end'): Date | null {
+  const bare = BARE_DATE.test(value);
+  const date = new Date(bare ? `${value}T${bound === 'start' ? '00:00:00.000' : '23:59:59.999'}Z` : value);
+  if (Number.isNaN(date.getTime())) return null;
+  // Date rolls days that do not exist (2025-02-30) over into the next month
+  return bare && date.toISOString().slice(0, 10) !== value ? null : date;
+}
@@ -0,0 +1,160 @@
+import { Writable } from 'stream';
+import { dbManager, AnalysisFilters, AnalysisSorting, NorticAnalysis } from '../models/database';
+import { testerRegistry } from '../tests/registry';
+import { CellValue, XlsxWriter, waitForDrain } from './xlsx-writer';
+
+export type ExportSheet = 'analyses' | 'tests';
+
+export const EXPORT_SHEETS: ExportSheet[] = ['analyses', 'tests'];
+
+export interface ExportQuery {
+  filters: AnalysisFilters;
+  sorting?: AnalysisSorting;
+}
+
+interface ExportTable {
+  header: string[];
+  rows: AsyncIterable<CellValue[]>;
+}
+
+type ExportedAnalysis = NorticAnalysis & { institution_name: string | null; institution_acronym: string | null };
+
+// Analyses are read a page at a time so that exports of the whole history stay within memory
+const PAGE_SIZE = 200;
+
+async function* matchingAnalyses(query: ExportQuery): AsyncGenerator<ExportedAnalysis[]> {
+  // An analysis created mid-export shifts later pages by one; ids already sent are skipped
+  const seen = new Set<string>();
+
+  for (let page = 1; ; page++) {
+    const { analyses, pagination } = await dbManager.getAnalyses({ page, limit: PAGE_SIZE, ...query });
+    const fresh = analyses.filter(analysis => !seen.has(analysis.id));
+    fresh.forEach(analysis => seen.add(analysis.id));
+    if (fresh.length > 0) yield fresh;
+    if (!pagination.hasNext) return;
+  }
+}
+
+function analysesTable(query: ExportQuery): ExportTable {
+  const categories = testerRegistry.list();
+
+  async function* rows() {
+    for await (const analyses of matchingAnalyses(query)) {
+      const scores = new Map<string, { [categoryId: string]: number }>();
+      for (const score of await dbManager.getCategoryScoresForAnalyses(analyses.map(analysis => analysis.id))) {
+        scores.set(score.analysis_id, { ...scores.get(score.analysis_id), [score.category_id]: score.score });
+      }
+
+      for (const analysis of analyses) {
+        const categoryScores = scores.get(analysis.id) || {};
+        yield [
+          analysis.id,
+          analysis.url,
+          analysis.institution_name,
+          analysis.institution_acronym,
+          analysis.status,
+          analysis.overall_score,
+          analysis.compliance_level,
+          analysis.start_time,
+          analysis.end_time,
+          analysis.duration,
+          analysis.batch_id,
+          ...categories.map(category => categoryScores[category.id])
+        ];
+      }
+    }
+  }
+
+  return {
+    header: [
+      'ID', 'URL', 'Institucion', 'Siglas', 'Estado', 'Puntuacion', 'Nivel', 'Inicio', 'Fin', 'Duracion (s)', 'Lote',
+      ...categories.map(category => category.displayName)
+    ],
+    rows: rows()
+  };
+}
+
+function testsTable(query: ExportQuery): ExportTable {
+  async function* rows() {
+    for await (const analyses of matchingAnalyses(query)) {
+      const results = new Map<string, Awaited<ReturnType<typeof dbManager.getTestResultsForAnalyses>>>();
+      for (const result of await dbManager.getTestResultsForAnalyses(analyses.map(analysis => analysis.id))) {
+        if (!results.has(result.analysis_id)) results.set(result.analysis_id, []);
+        results.get(result.analysis_id)!.push(result);
+      }
+
+      // Keep the order of the analyses sheet
+      for (const analysis of analyses) {
+        for (const result of results.get(analysis.id) || []) {
+          yield [
+            analysis.id,
+            analysis.url,
+            analysis.institution_name,
+            result.page_url || analysis.url,
+            result.category_id || result.category,
+            result.category,
+            result.test_name,
+            result.status,
+            result.score,
+            result.message,
+            result.suppression
+              ? `${result.suppression.expired ? 'Vencida' : 'Vigente'} hasta ${result.suppression.expires_at} (${result.suppression.author}): ${result.suppression.justification}`
+              : null
+          ];
+        }
+      }
+    }
+  }
+
+  return {
+    header: ['ID del analisis', 'URL', 'Institucion', 'Pagina', 'ID de categoria', 'Categoria', 'Prueba', 'Estado', 'Puntuacion', 'Mensaje', 'Supresion'],
+    rows: rows()
+  };
+}
+
+// Text starting with =, +, -, @, a tab or a carriage return would run as a formula in Excel; the leading quote keeps it as text
+export function csvField(value: CellValue): string {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// UTF-8 with BOM and CRLF line endings so Excel opens it with accents intact
+export async function writeCsvExport(output: Writable, query: ExportQuery, sheet: ExportSheet): Promise<void> {
+  const table = sheet === 'tests' ? testsTable(query) : analysesTable(query);
+
+  // Throwing here ends the row generators too, so no more pages are read once the client is gone
+  const write = async (line: string) => {
+    if (output.destroyed) {
+      throw new Error('Output closed before the export finished');
+    }
+    if (!output.write(line)) {
+      await waitForDrain(output);
+    }
+  };
+
+  await write('\uFEFF' + table.header.map(csvField).join(',') + '\r\n');
+  for await (const row of table.rows) {
+    await write(row.map(csvField).join(',') + '\r\n');
+  }
+}
+
+// One workbook with the analyses and their test results in separate sheets
+export async function writeXlsxExport(output: Writable, query: ExportQuery): Promise<void> {
+  const workbook = new XlsxWriter(output);
+
+  const analyses = analysesTable(query);
+  await workbook.addSheet('Analisis', analyses.header, analyses.rows);
+
+  const tests = testsTable(query);
+  await workbook.addSheet('Pruebas', tests.header, tests.rows);
+
+  await workbook.finish();
+}
+
+export function exportFileName(extension: string, sheet?: ExportSheet): string {
+  const date = new Date().toISOString().slice(0, 10);
+  return `historial${sheet === 'tests' ? '-pruebas' : ''}-${date}.${extension}`;
+}
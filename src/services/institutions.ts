@@ -0,0 +1,89 @@
+import { Institution } from '../models/database';
+
+export type InstitutionInput = Partial<Omit<Institution, 'id' | 'created_at' | 'updated_at'>>;
+
+export type InstitutionValidation =
+  | { valid: true; institution: Omit<Institution, 'id' | 'created_at' | 'updated_at'> }
+  | { valid: false; errors: string[] };
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+// Accepts a bare domain or a URL; "www." is dropped so both forms of the same site match
+export function normalizeDomain(value: string): string {
+  let host = value.trim().toLowerCase();
+  try {
+    if (/^[a-z][a-z0-9+.-]*:\/\//.test(host)) {
+      host = new URL(host).hostname;
+    }
+  } catch {
+    // Left as typed; the pattern check reports it
+  }
+  return host.replace(/\/.*$/, '').replace(/\.$/, '').replace(/^www\./, '');
+}
+
+// The URL's host and each parent domain, most specific first (transparencia.mopc.gob.do, mopc.gob.do, gob.do)
+export function domainCandidates(url: string): string[] {
+  let host: string;
+  try {
+    host = normalizeDomain(new URL(url).hostname);
+  } catch {
+    return [];
+  }
+
+  const labels = host.split('.');
+  const candidates: string[] = [];
+  for (let i = 0; i < labels.length - 1; i++) {
+    candidates.push(labels.slice(i).join('.'));
+  }
+  return candidates;
+}
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Missing fields are taken from the existing institution when updating
+export function validateInstitution(input: InstitutionInput, existing?: Institution): InstitutionValidation {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object') {
+    return { valid: false, errors: ['Institution must be an object'] };
+  }
+
+  const name = optionalText(input.name ?? existing?.name);
+  if (!name) {
+    errors.push('name is required');
+  }
+
+  const rawDomains = input.domains ?? existing?.domains ?? [];
+  const domains: string[] = [];
+  if (!Array.isArray(rawDomains) || rawDomains.some(domain => typeof domain !== 'string')) {
+    errors.push('domains must be an array of strings');
+  } else {
+    for (const raw of rawDomains) {
+      const domain = normalizeDomain(raw);
+      if (!DOMAIN_PATTERN.test(domain)) {
+        errors.push(`Invalid domain: ${raw}`);
+      } else if (!domains.includes(domain)) {
+        domains.push(domain);
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  const pick = (key: 'acronym' | 'sector' | 'parent_ministry') =>
+    optionalText(input[key] !== undefined ? input[key] : existing?.[key]);
+
+  return {
+    valid: true,
+    institution: {
+      name: name as string,
+      acronym: pick('acronym'),
+      sector: pick('sector'),
+      parent_ministry: pick('parent_ministry'),
+      domains
+    }
+  };
+}
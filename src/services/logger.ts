@@ -0,0 +1,3 @@
+// Where the analyzer, the crawler and the database write their log; console unless the caller passes another
+// (the CLI keeps stdout for its report)
+export type Logger = Pick<Console, 'log' | 'error'>;
@@ -1,17 +1,36 @@
-import { chromium, Browser, Page, LaunchOptions } from 'playwright';
+import { chromium, Browser, BrowserContext, Page, LaunchOptions } from 'playwright';
 import { v4 as uuidv4 } from 'uuid';
-import { dbManager, TestResult, AccessibilityViolation } from '../models/database';
-import { UsabilityTester } from '../tests/usability';
-import { LayoutTester } from '../tests/layout';
-import { ContentTester } from '../tests/content';
-import { SecurityTester } from '../tests/security';
-import { SEOTester } from '../tests/seo';
-import { AccessibilityTester } from '../tests/accessibility';
+import { dbManager, TestResult, AccessibilityViolation, ScoringProfile, Suppression } from '../models/database';
+import { testerRegistry, validateTestCategories } from '../tests/registry';
+import { TestProgressEvent } from '../tests/tester';
+import { SiteCrawler, CrawlOptions } from './site-crawler';
+import { evaluateRequirements } from './requirements-catalog';
+import { remediationForTest, remediationForViolation } from './remediation-catalog';
+import { DEFAULT_SCORING_PROFILE, statusForScore, complianceLevelFor, weightedCategoryScore, weightedOverallScore } from './scoring';
+import { applySuppressions } from './suppressions';
+import { Logger } from './logger';
 
 export interface AnalysisOptions {
   testCategories?: string[];
   timeout?: number;
   waitForNetworkIdle?: boolean;
+  viewport?: { width: number; height: number };
+  // Si se indica, se recorre el portal en lugar de analizar solo la URL dada
+  crawl?: CrawlOptions;
+  // Id del perfil de puntuación; sin él se usa el perfil predeterminado
+  scoringProfile?: string;
+}
+
+export interface AnalyzerConfig {
+  // Máximo de análisis ejecutándose a la vez; el resto espera turno
+  maxConcurrentAnalyses?: number;
+  logger?: Logger;
+}
+
+export interface CategoryResult {
+  label: string;
+  score: number;
+  status: 'passed' | 'warning' | 'failed';
 }
 
 export interface AnalysisResult {
@@ -19,11 +38,10 @@ export interface AnalysisResult {
   url: string;
   overallScore: number;
   complianceLevel: string;
+  scoringProfileId: string | null;
+  // Keyed by the stable category id (usabilidad, diseno, ...)
   categories: {
-    [key: string]: {
-      score: number;
-      status: 'passed' | 'warning' | 'failed';
-    };
+    [categoryId: string]: CategoryResult;
   };
   startTime: string;
   endTime: string;
@@ -32,18 +50,133 @@ export interface AnalysisResult {
 
 export interface ProgressUpdate {
   analysisId: string;
-  status: 'in_progress' | 'completed' | 'failed';
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   progress: number;
   currentTest: string | null;
   completedTests: number;
   totalTests: number;
+  queuePosition?: number;
   error?: string;
+  // Set on per-test updates: the test that just started or finished
+  test?: TestProgress;
+}
+
+export interface TestProgress extends TestProgressEvent {
+  categoryId: string;
+  pageUrl?: string;
 }
 
+const DEFAULT_VIEWPORT = { width: 1366, height: 768 };
+
 export class NorticAnalyzer {
   private browser: Browser | null = null;
-  private page: Page | null = null;
+  private browserLaunch: Promise<void> | null = null;
   private progressCallbacks: Map<string, (update: ProgressUpdate) => void> = new Map();
+  private maxConcurrentAnalyses: number;
+  private runningAnalyses = 0;
+  private waitingAnalyses: Array<{ analysisId: string; resolve: () => void; reject: (error: Error) => void }> = [];
+  private activeAnalyses: Set<string> = new Set();
+  private activeContexts: Map<string, BrowserContext> = new Map();
+  private cancelledAnalyses: Set<string> = new Set();
+  private logger: Logger;
+
+  constructor(config: AnalyzerConfig = {}) {
+    this.logger = config.logger || console;
+    const envLimit = parseInt(process.env.MAX_CONCURRENT_ANALYSES || '', 10);
+    const limit = config.maxConcurrentAnalyses ?? (Number.isNaN(envLimit) ? 2 : envLimit);
+    this.maxConcurrentAnalyses = Math.max(1, limit);
+  }
+
+  getConcurrencyLimit(): number {
+    return this.maxConcurrentAnalyses;
+  }
+
+  private acquireSlot(analysisId: string): Promise<void> {
+    if (this.runningAnalyses < this.maxConcurrentAnalyses) {
+      this.runningAnalyses++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => this.waitingAnalyses.push({ analysisId, resolve, reject }));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waitingAnalyses.shift();
+    if (next) {
+      // El cupo pasa directamente al siguiente análisis en espera
+      next.resolve();
+    } else {
+      this.runningAnalyses--;
+    }
+  }
+
+  // Stops an analysis running in this process: closing its context makes the current tester fail fast
+  async cancel(analysisId: string): Promise<boolean> {
+    if (!this.activeAnalyses.has(analysisId) || this.cancelledAnalyses.has(analysisId)) {
+      return false;
+    }
+
+    this.logger.log(`[INFO] Cancelling analysis ${analysisId}`);
+    this.cancelledAnalyses.add(analysisId);
+
+    const waitingIndex = this.waitingAnalyses.findIndex(waiting => waiting.analysisId === analysisId);
+    if (waitingIndex >= 0) {
+      const [waiting] = this.waitingAnalyses.splice(waitingIndex, 1);
+      waiting.reject(new Error('Análisis cancelado'));
+    }
+
+    const context = this.activeContexts.get(analysisId);
+    if (context) {
+      await context.close().catch((closeError) => {
+        this.logger.error(`[ERROR] Failed to close browser context for cancelled analysis ${analysisId}:`, closeError);
+      });
+    }
+
+    return true;
+  }
+
+  private throwIfCancelled(analysisId: string): void {
+    if (this.cancelledAnalyses.has(analysisId)) {
+      throw new Error('Análisis cancelado');
+    }
+  }
+
+  // Lanza el navegador una sola vez aunque varios análisis arranquen a la vez
+  private async ensureBrowser(): Promise<Browser> {
+    if (this.browser && this.browser.isConnected()) {
+      return this.browser;
+    }
+    if (!this.browserLaunch) {
+      this.browserLaunch = this.initialize().finally(() => {
+        this.browserLaunch = null;
+      });
+    }
+    await this.browserLaunch;
+    if (!this.browser) {
+      throw new Error('Failed to initialize browser');
+    }
+    return this.browser;
+  }
+
+  // Prints a self-contained HTML document with the analyzer's browser; the page never touches the network
+  async renderPdf(html: string, footerLabel: string = ''): Promise<Buffer> {
+    const browser = await this.ensureBrowser();
+    const context = await browser.newContext({ javaScriptEnabled: false, offline: true });
+    try {
+      const page = await context.newPage();
+      await page.setContent(html, { waitUntil: 'load' });
+      return await page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '16mm', bottom: '18mm', left: '14mm', right: '14mm' },
+        displayHeaderFooter: true,
+        headerTemplate: '<span></span>',
+        footerTemplate: `<div style="width:100%;font-size:8px;color:#6b7280;padding:0 14mm;display:flex;justify-content:space-between">
+          <span>${footerLabel}</span><span><span class="pageNumber"></span> / <span class="totalPages"></span></span></div>`
+      });
+    } finally {
+      await context.close();
+    }
+  }
 
   async initialize(): Promise<void> {
     // Detecta el binario de Chromium en Alpine/Docker y fuerza su uso.
@@ -95,12 +228,12 @@ export class NorticAnalyzer {
   }
 
   setProgressCallback(analysisId: string, callback: (update: ProgressUpdate) => void): void {
-    console.log(`[DEBUG] Setting progress callback for analysis: ${analysisId}`);
+    this.logger.log(`[DEBUG] Setting progress callback for analysis: ${analysisId}`);
     this.progressCallbacks.set(analysisId, callback);
   }
 
   removeProgressCallback(analysisId: string): void {
-    console.log(`[DEBUG] Removing progress callback for analysis: ${analysisId}`);
+    this.logger.log(`[DEBUG] Removing progress callback for analysis: ${analysisId}`);
     this.progressCallbacks.delete(analysisId);
   }
 
@@ -113,41 +246,201 @@ export class NorticAnalyzer {
         progress: 0,
         currentTest: null,
         completedTests: 0,
-        totalTests: 36,
+        totalTests: 0,
         ...update
       };
-      console.log(`[PROGRESS] Sending update for ${analysisId}: ${fullUpdate.progress}% - ${fullUpdate.currentTest || 'N/A'}`);
+      this.logger.log(`[PROGRESS] Sending update for ${analysisId}: ${fullUpdate.progress}% - ${fullUpdate.currentTest || 'N/A'}`);
       callback(fullUpdate);
     } else {
-      console.log(`[WARNING] No progress callback found for analysis ${analysisId}`);
+      this.logger.log(`[WARNING] No progress callback found for analysis ${analysisId}`);
     }
   }
 
+  private buildErrorTestResult(analysisId: string, error: Error, currentTest: string, category: string = 'system'): TestResult {
+    const definition = testerRegistry.get(category);
+    return {
+      analysis_id: analysisId,
+      category: definition ? definition.displayName : category,
+      category_id: definition ? definition.id : category,
+      test_name: currentTest || 'Error del Sistema',
+      status: 'failed',
+      score: 0,
+      message: error.message || 'Error desconocido durante el análisis',
+      details: {
+        error_type: error.constructor.name,
+        error_message: error.message,
+        error_stack: error.stack,
+        timestamp: new Date().toISOString(),
+        test_phase: currentTest
+      },
+      created_at: new Date().toISOString()
+    };
+  }
+
   // Helper method to save error as test result
   private async saveErrorAsTestResult(analysisId: string, error: Error, currentTest: string, category: string = 'system'): Promise<void> {
     try {
-      const errorTestResult: TestResult = {
-        analysis_id: analysisId,
-        category: category,
-        test_name: currentTest || 'Error del Sistema',
-        status: 'failed',
-        score: 0,
-        message: error.message || 'Error desconocido durante el análisis',
-        details: {
-          error_type: error.constructor.name,
-          error_message: error.message,
-          error_stack: error.stack,
-          timestamp: new Date().toISOString(),
-          test_phase: currentTest
-        },
-        created_at: new Date().toISOString()
-      };
-
-      await dbManager.createTestResult(errorTestResult);
-      console.log(`[INFO] Error saved as test result for analysis ${analysisId}: ${error.message}`);
+      await dbManager.createTestResult(this.buildErrorTestResult(analysisId, error, currentTest, category));
+      this.logger.log(`[INFO] Error saved as test result for analysis ${analysisId}: ${error.message}`);
     } catch (saveError) {
-      console.error(`[ERROR] Failed to save error as test result for analysis ${analysisId}:`, saveError);
+      this.logger.error(`[ERROR] Failed to save error as test result for analysis ${analysisId}:`, saveError);
+    }
+  }
+
+  // Navigates to a URL and returns the HTTP status; throws a readable error when the page can't be analyzed
+  private async loadPage(
+    page: Page,
+    url: string,
+    analysisId: string,
+    timeout: number,
+    waitForNetworkIdle: boolean | undefined,
+    currentTestName: string,
+    recordErrors: boolean = true
+  ): Promise<number> {
+    let response;
+    try {
+      this.logger.log(`[INFO] Entro a navegar hacia ${url} for analysis ${analysisId}`);
+      response = await page.goto(url, { 
+        waitUntil: waitForNetworkIdle ? 'networkidle' : 'domcontentloaded',
+        timeout: timeout
+      });
+    } catch (navigationError: any) {
+      this.logger.error(`[ERROR] Navigation error for analysis ${analysisId}:`, {
+        error: navigationError.message,
+        url: url,
+        timeout: timeout
+      });
+      
+      // Save navigation error as test result
+      if (recordErrors) {
+        await this.saveErrorAsTestResult(analysisId, navigationError, currentTestName, 'navigation');
+      }
+      
+      // Try to get more specific error information
+      let errorMessage = `Error al cargar la página: ${navigationError.message}`;
+      
+      if (navigationError.message.includes('timeout')) {
+        errorMessage = `Tiempo de espera agotado al cargar ${url}. El sitio puede estar lento o no responder.`;
+      } else if (navigationError.message.includes('net::ERR_')) {
+        errorMessage = `Error de red al acceder a ${url}. Verifique que la URL sea correcta y el sitio esté disponible.`;
+      }
+      
+      throw new Error(errorMessage);
+    }
+
+    if (!response) {
+      const noResponseError = new Error(`No se pudo obtener respuesta del servidor para ${url}`);
+      if (recordErrors) {
+        await this.saveErrorAsTestResult(analysisId, noResponseError, currentTestName, 'navigation');
+      }
+      throw noResponseError;
+    }
+
+    const statusCode = response.status();
+    this.logger.log(`[INFO] Page loaded with status: ${statusCode} for analysis ${analysisId}, URL: ${url}`);
+
+    if (statusCode >= 400) {
+      let errorMessage = `El servidor respondió con código ${statusCode}`;
+      
+      if (statusCode === 404) {
+        errorMessage = `Página no encontrada (404) en ${url}`;
+      } else if (statusCode === 500) {
+        errorMessage = `Error interno del servidor (500) en ${url}. El sitio puede tener problemas técnicos.`;
+      } else if (statusCode === 403) {
+        errorMessage = `Acceso denegado (403) a ${url}. El sitio puede bloquear análisis automatizados.`;
+      } else if (statusCode >= 500) {
+        errorMessage = `Error del servidor (${statusCode}) en ${url}. El sitio tiene problemas técnicos.`;
+      }
+      
+      const httpError = new Error(errorMessage);
+      if (recordErrors) {
+        await this.saveErrorAsTestResult(analysisId, httpError, currentTestName, 'http');
+      }
+      throw httpError;
+    }
+
+    return statusCode;
+  }
+
+  // Runs the selected categories against the page that is currently loaded
+  private async runCategoryTests(
+    page: Page,
+    analysisId: string,
+    testCategories: string[],
+    scoringProfile: ScoringProfile,
+    pageUrl: string,
+    suppressions: Suppression[],
+    onCategoryStart: (categoryName: string, index: number) => void,
+    onTestProgress: (categoryId: string, event: TestProgressEvent) => void
+  ): Promise<{
+    categoryResults: { [categoryId: string]: CategoryResult };
+    tests: TestResult[];
+    violations: AccessibilityViolation[];
+  }> {
+    const categoryResults: { [categoryId: string]: CategoryResult } = {};
+    const tests: TestResult[] = [];
+    const violations: AccessibilityViolation[] = [];
+
+    for (const [index, category] of testCategories.entries()) {
+      this.throwIfCancelled(analysisId);
+
+      const definition = testerRegistry.get(category);
+      if (!definition) {
+        this.logger.log(`[WARNING] Unknown test category "${category}" skipped for analysis ${analysisId}`);
+        continue;
+      }
+
+      const categoryName = `Pruebas de ${definition.displayName}`;
+      try {
+        this.logger.log(`[INFO] Running ${categoryName} tests for analysis ${analysisId}`);
+        onCategoryStart(categoryName, index);
+
+        const result = await definition
+          .create(page, analysisId, event => onTestProgress(definition.id, event))
+          .runAllTests();
+        // Testers turn errors into failed tests, so a closed page would otherwise look like a bad score
+        this.throwIfCancelled(analysisId);
+        const marked = applySuppressions(suppressions, pageUrl, result.tests, result.violations || []);
+        const score = weightedCategoryScore(result.score, marked.tests, scoringProfile, marked.changed ? definition.scoreTests : null);
+        this.logger.log(`[INFO] ${definition.displayName} tests completed for analysis ${analysisId}. Score: ${score}`);
+
+        categoryResults[definition.id] = {
+          label: definition.displayName,
+          score,
+          status: statusForScore(score, scoringProfile)
+        };
+        tests.push(...marked.tests.map(test => ({ ...test, category_id: definition.id })));
+        violations.push(...marked.violations);
+      } catch (categoryError: any) {
+        if (this.cancelledAnalyses.has(analysisId)) throw categoryError;
+
+        this.logger.error(`[ERROR] Error running ${definition.id} tests for analysis ${analysisId}:`, categoryError);
+        
+        // Keep the category error as a test result
+        tests.push(this.buildErrorTestResult(analysisId, categoryError, `Ejecutando ${categoryName}`, definition.id));
+        
+        categoryResults[definition.id] = {
+          label: definition.displayName,
+          score: 0,
+          status: 'failed'
+        };
+      }
     }
+
+    return { categoryResults, tests, violations };
+  }
+
+  // Profile selected for an analysis, or the default one (stored or built-in)
+  async resolveScoringProfile(profileId?: string): Promise<ScoringProfile> {
+    if (profileId) {
+      const profile = await dbManager.getScoringProfile(profileId);
+      if (!profile) {
+        throw new Error(`Scoring profile not found: ${profileId}`);
+      }
+      return profile;
+    }
+
+    return (await dbManager.getDefaultScoringProfile()) || DEFAULT_SCORING_PROFILE;
   }
 
   // Modified analyze method to accept analysisId as parameter
@@ -155,226 +448,254 @@ export class NorticAnalyzer {
     const startTime = new Date().toISOString();
     let currentTestName = 'Inicializando análisis';
     let currentCategory = 'system';
+    let context: BrowserContext | null = null;
+    let page: Page | null = null;
+    let slotAcquired = false;
+    let completedTests = 0;
+    let totalTests = 0;
+    const reportProgress = (update: Partial<ProgressUpdate>) =>
+      this.updateProgress(analysisId, { completedTests, totalTests, ...update });
 
-    console.log(`[INFO] Starting analysis ${analysisId} for URL: ${url}`);
+    this.logger.log(`[INFO] Starting analysis ${analysisId} for URL: ${url}`);
+    this.activeAnalyses.add(analysisId);
 
     try {
-      // Create analysis record
-      await dbManager.createAnalysis({
-        id: analysisId,
-        url,
-        status: 'in_progress',
-        start_time: startTime
-      });
+      // Queued analyses already have a record; direct calls create it here
+      const existingAnalysis = await dbManager.getAnalysis(analysisId);
+      if (existingAnalysis) {
+        await dbManager.updateAnalysis(analysisId, {
+          status: 'in_progress',
+          start_time: startTime
+        });
+      } else {
+        await dbManager.createAnalysis({
+          id: analysisId,
+          url,
+          status: 'in_progress',
+          start_time: startTime,
+          options: JSON.stringify(options)
+        });
+      }
+
+      this.logger.log(`[INFO] Analysis record ready for ${analysisId}`);
+
+      // Accepted findings of the analysis' institution and of the analyzed URLs
+      const record = existingAnalysis || await dbManager.getAnalysis(analysisId);
+      const suppressions = await dbManager.getSuppressionsForInstitution(record?.institution_id ?? null);
+
+      const categoryValidation = validateTestCategories(options.testCategories);
+      if (categoryValidation.valid === false) {
+        throw new Error(categoryValidation.error);
+      }
+      const testCategories = categoryValidation.categories;
+
+      // Counts are per test; in crawl mode the total grows as more pages are planned
+      const testsPerPage = testerRegistry.countTests(testCategories);
+      totalTests = testsPerPage;
+
+      if (this.runningAnalyses >= this.maxConcurrentAnalyses) {
+        this.logger.log(`[INFO] Analysis ${analysisId} waiting for a free slot (${this.runningAnalyses}/${this.maxConcurrentAnalyses} running)`);
+        reportProgress({
+          status: 'in_progress',
+          progress: 0,
+          currentTest: 'En espera de un espacio disponible'
+        });
+      }
 
-      console.log(`[INFO] Analysis record created for ${analysisId}`);
+      await this.acquireSlot(analysisId);
+      slotAcquired = true;
+      this.throwIfCancelled(analysisId);
 
       currentTestName = 'Inicializando navegador';
-      this.updateProgress(analysisId, {
+      reportProgress({
         status: 'in_progress',
         progress: 5,
-        currentTest: currentTestName,
-        completedTests: 0,
-        totalTests: 36
+        currentTest: currentTestName
       });
 
-      // Initialize browser if not already done
-      if (!this.browser) {
-        console.log(`[INFO] Initializing browser for analysis ${analysisId}`);
-        await this.initialize();
-      }
+      const browser = await this.ensureBrowser();
 
-      if (!this.browser) {
-        throw new Error('Failed to initialize browser');
-      }
+      // Cada análisis trabaja en su propio contexto: cookies, almacenamiento y viewport aislados
+      context = await browser.newContext({
+        viewport: options.viewport || DEFAULT_VIEWPORT
+      });
+      this.activeContexts.set(analysisId, context);
+      page = await context.newPage();
 
-      // Create new page
-      this.page = await this.browser.newPage();
-      
       // Set timeout
       const timeout = options.timeout || 60000; // Increased timeout to 60 seconds
-      this.page.setDefaultTimeout(timeout);
+      page.setDefaultTimeout(timeout);
 
-      console.log(`[INFO] Browser page created for analysis ${analysisId}, timeout set to ${timeout}ms`);
+      this.logger.log(`[INFO] Browser context created for analysis ${analysisId}, timeout set to ${timeout}ms`);
 
       currentTestName = 'Cargando página web';
-      this.updateProgress(analysisId, {
+      reportProgress({
         progress: 10,
-        currentTest: currentTestName,
-        completedTests: 1
+        currentTest: currentTestName
       });
 
       // Navigate to URL with better error handling
-      let response;
-      try {
-        console.log(`[INFO] Entro a navegar hacia ${url} for analysis ${analysisId}`);
-        response = await this.page.goto(url, { 
-          waitUntil: options.waitForNetworkIdle ? 'networkidle' : 'domcontentloaded',
-          timeout: timeout
-        });
-      } catch (navigationError: any) {
-        console.error(`[ERROR] Navigation error for analysis ${analysisId}:`, {
-          error: navigationError.message,
-          url: url,
-          timeout: timeout
-        });
-        
-        // Save navigation error as test result
-        await this.saveErrorAsTestResult(analysisId, navigationError, currentTestName, 'navigation');
-        
-        // Try to get more specific error information
-        let errorMessage = `Error al cargar la página: ${navigationError.message}`;
-        
-        if (navigationError.message.includes('timeout')) {
-          errorMessage = `Tiempo de espera agotado al cargar ${url}. El sitio puede estar lento o no responder.`;
-        } else if (navigationError.message.includes('net::ERR_')) {
-          errorMessage = `Error de red al acceder a ${url}. Verifique que la URL sea correcta y el sitio esté disponible.`;
-        }
-        
-        throw new Error(errorMessage);
-      }
-
-      if (!response) {
-        const noResponseError = new Error(`No se pudo obtener respuesta del servidor para ${url}`);
-        await this.saveErrorAsTestResult(analysisId, noResponseError, currentTestName, 'navigation');
-        throw noResponseError;
-      }
-
-      const statusCode = response.status();
-      console.log(`[INFO] Page loaded with status: ${statusCode} for analysis ${analysisId}, URL: ${url}`);
-
-      if (statusCode >= 400) {
-        let errorMessage = `El servidor respondió con código ${statusCode}`;
-        
-        if (statusCode === 404) {
-          errorMessage = `Página no encontrada (404) en ${url}`;
-        } else if (statusCode === 500) {
-          errorMessage = `Error interno del servidor (500) en ${url}. El sitio puede tener problemas técnicos.`;
-        } else if (statusCode === 403) {
-          errorMessage = `Acceso denegado (403) a ${url}. El sitio puede bloquear análisis automatizados.`;
-        } else if (statusCode >= 500) {
-          errorMessage = `Error del servidor (${statusCode}) en ${url}. El sitio tiene problemas técnicos.`;
-        }
-        
-        const httpError = new Error(errorMessage);
-        await this.saveErrorAsTestResult(analysisId, httpError, currentTestName, 'http');
-        throw httpError;
-      }
+      const startStatus = await this.loadPage(page, url, analysisId, timeout, options.waitForNetworkIdle, currentTestName);
 
       currentTestName = 'Página cargada exitosamente. Iniciando análisis';
-      this.updateProgress(analysisId, {
+      reportProgress({
         progress: 15,
-        currentTest: currentTestName,
-        completedTests: 2
+        currentTest: currentTestName
       });
 
       // Run tests
-      const testCategories = options.testCategories || [
-        'usabilidad', 'diseno', 'contenido', 'seguridad', 'seo', 'accesibilidad' // 'usability', 'layout', 'content', 'security', 'seo', 'accessibility'
-      ];
+      // The profile is copied onto the analysis so its score can be reproduced after the profile changes
+      const scoringProfile = await this.resolveScoringProfile(options.scoringProfile);
+      await dbManager.updateAnalysis(analysisId, {
+        scoring_profile_id: scoringProfile.id,
+        scoring_profile: JSON.stringify(scoringProfile)
+      });
 
-      console.log(`[INFO] Running tests for analysis ${analysisId}. Categories: ${testCategories.join(', ')}`);
+      this.logger.log(`[INFO] Running tests for analysis ${analysisId}. Categories: ${testCategories.join(', ')}`);
 
-      const categoryResults: { [key: string]: any } = {};
+      let categoryResults: { [categoryId: string]: CategoryResult } = {};
       const allTestResults: TestResult[] = [];
       const allViolations: AccessibilityViolation[] = [];
 
-      const testNames = {
-        'usabilidad': 'Pruebas de Usabilidad',
-        'diseno': 'Pruebas de Diseño y Layout',
-        'contenido': 'Pruebas de Contenido',
-        'seguridad': 'Pruebas de Seguridad',
-        'seo': 'Pruebas de SEO',
-        'accesibilidad': 'Pruebas de Accesibilidad'
+      // Tests run between 15% and 85%; a category that fails as a whole skips its remaining tests
+      const testProgress = () => 15 + Math.round((Math.min(completedTests, totalTests) / Math.max(totalTests, 1)) * 70);
+      const startCategory = (pageStart: number, index: number) => {
+        currentCategory = testCategories[index];
+        completedTests = pageStart + testerRegistry.countTests(testCategories.slice(0, index));
+      };
+      const reportTest = (categoryId: string, event: TestProgressEvent, prefix: string, pageUrl?: string) => {
+        if (event.status !== 'running') {
+          completedTests++;
+        }
+        currentTestName = `${prefix}${event.testName}`;
+        reportProgress({
+          progress: testProgress(),
+          currentTest: currentTestName,
+          test: { categoryId, ...event, pageUrl }
+        });
       };
 
-      let completedCategories = 0;
-      const totalCategories = testCategories.length;
-
-      for (const category of testCategories) {
-        try {
-          const categoryName = testNames[category as keyof typeof testNames] || category;
+      if (!options.crawl) {
+        const pageResults = await this.runCategoryTests(page, analysisId, testCategories, scoringProfile, url, suppressions, (categoryName, index) => {
           currentTestName = `Ejecutando ${categoryName}`;
-          currentCategory = category;
-          
-          console.log(`[INFO] Running ${categoryName} tests for analysis ${analysisId}`);
-          
-          this.updateProgress(analysisId, {
-            progress: 15 + Math.round((completedCategories / totalCategories) * 70),
-            currentTest: currentTestName,
-            completedTests: 2 + completedCategories * 6
+          startCategory(0, index);
+          reportProgress({
+            progress: testProgress(),
+            currentTest: currentTestName
           });
-
-          let result;
-          
-          switch (category) {
-            case 'usabilidad':
-              const usabilityTester = new UsabilityTester(this.page, analysisId);
-              result = await usabilityTester.runAllTests();
-              console.log(`[INFO] Usability tests completed for analysis ${analysisId}. Score: ${result.score}`);
-              break;
-            case 'diseno':
-              const layoutTester = new LayoutTester(this.page, analysisId);
-              result = await layoutTester.runAllTests();
-              console.log(`[INFO] Layout tests completed for analysis ${analysisId}. Score: ${result.score}`);
-              break;
-            case 'contenido':
-              const contentTester = new ContentTester(this.page, analysisId);
-              result = await contentTester.runAllTests();
-              console.log(`[INFO] Content tests completed for analysis ${analysisId}. Score: ${result.score}`);
-              break;
-            case 'seguridad':
-              const securityTester = new SecurityTester(this.page, analysisId);
-              result = await securityTester.runAllTests();
-              console.log(`[INFO] Security tests completed for analysis ${analysisId}. Score: ${result.score}`);
-              break;
-            case 'seo':
-              const seoTester = new SEOTester(this.page, analysisId);
-              result = await seoTester.runAllTests();
-              console.log(`[INFO] SEO tests completed for analysis ${analysisId}. Score: ${result.score}`);
-              break;
-            case 'accesibilidad':
-              const accessibilityTester = new AccessibilityTester(this.page, analysisId);
-              result = await accessibilityTester.runAllTests();
-              console.log(`[INFO] Accessibility tests completed for analysis ${analysisId}. Score: ${result.score}`);
-              if (result.violations) {
-                allViolations.push(...result.violations);
-              }
-              break;
-            default:
-              continue;
-          }
-
-          if (result) {
-            categoryResults[category] = {
-              score: result.score,
-              status: result.score >= 80 ? 'passed' : result.score >= 60 ? 'warning' : 'failed'
-            };
-            allTestResults.push(...result.tests);
+        }, (categoryId, event) => reportTest(categoryId, event, ''));
+
+        categoryResults = pageResults.categoryResults;
+        allTestResults.push(...pageResults.tests);
+        allViolations.push(...pageResults.violations);
+      } else {
+        const crawler = new SiteCrawler(context, url, options.crawl, this.logger);
+        const discovered = await crawler.discoverSitemap();
+        this.logger.log(`[INFO] Crawl mode for analysis ${analysisId}: ${discovered} pages found in sitemap`);
+
+        const viewport = options.viewport || DEFAULT_VIEWPORT;
+        const scoresByCategory: { [category: string]: number[] } = {};
+        let pageIndex = 0;
+
+        for (let entry = crawler.next(); entry; entry = crawler.next()) {
+          const pageUrl = entry.url;
+          const pageNumber = ++pageIndex;
+          const pageStart = (pageNumber - 1) * testsPerPage;
+          currentCategory = 'navigation';
+          completedTests = pageStart;
+          totalTests = testsPerPage * crawler.plannedPages();
+
+          try {
+            let httpStatus = startStatus;
+            if (pageNumber > 1) {
+              // Some testers resize the viewport; every page starts from the same one
+              await page.setViewportSize(viewport);
+              currentTestName = `Cargando página ${pageNumber}: ${pageUrl}`;
+              reportProgress({
+                progress: testProgress(),
+                currentTest: currentTestName
+              });
+              httpStatus = await this.loadPage(page, pageUrl, analysisId, timeout, options.waitForNetworkIdle, currentTestName, false);
+            }
+
+            if (entry.depth < crawler.maxDepth) {
+              crawler.addUrls(await SiteCrawler.extractLinks(page), entry.depth + 1, 'link');
+            }
+
+            const pageResults = await this.runCategoryTests(page, analysisId, testCategories, scoringProfile, pageUrl, suppressions, (categoryName, index) => {
+              totalTests = testsPerPage * crawler.plannedPages();
+              currentTestName = `Página ${pageNumber}/${crawler.plannedPages()}: Ejecutando ${categoryName}`;
+              startCategory(pageStart, index);
+              reportProgress({
+                progress: testProgress(),
+                currentTest: currentTestName
+              });
+            }, (categoryId, event) => {
+              totalTests = testsPerPage * crawler.plannedPages();
+              reportTest(categoryId, event, `Página ${pageNumber}/${crawler.plannedPages()}: `, pageUrl);
+            });
+
+            const pageCategoryScores: { [category: string]: number } = {};
+            for (const [category, result] of Object.entries(pageResults.categoryResults)) {
+              pageCategoryScores[category] = result.score;
+              (scoresByCategory[category] = scoresByCategory[category] || []).push(result.score);
+            }
+            const pageScoreValues = Object.values(pageCategoryScores);
+
+            const pageId = await dbManager.createAnalysisPage({
+              analysis_id: analysisId,
+              url: pageUrl,
+              depth: entry.depth,
+              source: entry.source,
+              status: 'completed',
+              http_status: httpStatus,
+              score: pageScoreValues.length > 0
+                ? Math.round(pageScoreValues.reduce((sum, score) => sum + score, 0) / pageScoreValues.length)
+                : null,
+              category_scores: pageCategoryScores
+            });
+
+            allTestResults.push(...pageResults.tests.map(test => ({ ...test, page_id: pageId })));
+            allViolations.push(...pageResults.violations.map(violation => ({ ...violation, page_id: pageId })));
+          } catch (pageError: any) {
+            if (this.cancelledAnalyses.has(analysisId)) throw pageError;
+
+            // The start page must load (loadPage throws above for it); other pages are recorded and skipped
+            this.logger.error(`[ERROR] Page ${pageUrl} failed in analysis ${analysisId}:`, pageError.message);
+            await dbManager.createAnalysisPage({
+              analysis_id: analysisId,
+              url: pageUrl,
+              depth: entry.depth,
+              source: entry.source,
+              status: 'failed',
+              error: pageError.message || 'Error desconocido'
+            });
           }
+        }
 
-          completedCategories++;
-        } catch (categoryError: any) {
-          console.error(`[ERROR] Error running ${category} tests for analysis ${analysisId}:`, categoryError);
-          
-          // Save category error as test result
-          await this.saveErrorAsTestResult(analysisId, categoryError, currentTestName, category);
-          
+        // Category scores are the average across every page that was tested
+        for (const [category, scores] of Object.entries(scoresByCategory)) {
+          const score = Math.round(scores.reduce((sum, value) => sum + value, 0) / scores.length);
           categoryResults[category] = {
-            score: 0,
-            status: 'failed'
+            label: testerRegistry.get(category)?.displayName || category,
+            score,
+            status: statusForScore(score, scoringProfile)
           };
-          completedCategories++;
         }
+
+        // The final total covers the pages actually visited
+        totalTests = testsPerPage * pageIndex;
+        this.logger.log(`[INFO] Crawl finished for analysis ${analysisId}: ${pageIndex} pages visited`);
       }
 
-      console.log(`[INFO] All tests completed for analysis ${analysisId}. Saving results...`);
+      this.logger.log(`[INFO] All tests completed for analysis ${analysisId}. Saving results...`);
 
+      this.throwIfCancelled(analysisId);
       currentTestName = 'Guardando resultados';
-      this.updateProgress(analysisId, {
+      completedTests = totalTests;
+      reportProgress({
         progress: 90,
-        currentTest: currentTestName,
-        completedTests: 34
+        currentTest: currentTestName
       });
 
       // Save test results to database
@@ -387,19 +708,33 @@ export class NorticAnalyzer {
         await dbManager.createAccessibilityViolation(violation);
       }
 
+      // Category scores are stored as computed so /results doesn't have to rebuild them
+      for (const [categoryId, result] of Object.entries(categoryResults)) {
+        await dbManager.createCategoryScore({
+          analysis_id: analysisId,
+          category_id: categoryId,
+          label: result.label,
+          score: result.score,
+          status: result.status
+        });
+      }
+
       // Calculate overall score and compliance level
-      const scores = Object.values(categoryResults).map(r => r.score);
-      const overallScore = Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length);
-      
-      let complianceLevel = 'No Cumple';
-      if (overallScore >= 90) complianceLevel = 'Excelente';
-      else if (overallScore >= 80) complianceLevel = 'Cumple';
-      else if (overallScore >= 60) complianceLevel = 'Parcial';
+      const scores: { [categoryId: string]: number } = {};
+      for (const [categoryId, result] of Object.entries(categoryResults)) {
+        scores[categoryId] = result.score;
+      }
+      const overallScore = weightedOverallScore(scores, scoringProfile);
+      const complianceLevel = complianceLevelFor(overallScore, scoringProfile);
 
       const endTime = new Date().toISOString();
       const duration = Math.round((new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000);
 
-      console.log(`[INFO] Analysis ${analysisId} completed. Overall score: ${overallScore}, Compliance: ${complianceLevel}, Duration: ${duration}s`);
+      this.logger.log(`[INFO] Analysis ${analysisId} completed. Overall score: ${overallScore}, Compliance: ${complianceLevel}, Duration: ${duration}s`);
+
+      // A cancel that arrived while saving still wins; once marked completed the analysis can no longer be cancelled
+      this.throwIfCancelled(analysisId);
+      this.activeAnalyses.delete(analysisId);
 
       // Update analysis record
       await dbManager.updateAnalysis(analysisId, {
@@ -410,18 +745,36 @@ export class NorticAnalyzer {
         duration
       });
 
-      this.updateProgress(analysisId, {
+      reportProgress({
         status: 'completed',
         progress: 100,
-        currentTest: null,
-        completedTests: 36
+        currentTest: null
       });
 
-      console.log(`[SUCCESS] Analysis ${analysisId} completed successfully`);
+      this.logger.log(`[SUCCESS] Analysis ${analysisId} completed successfully`);
       return analysisId;
 
     } catch (error: any) {
-      console.error(`[ERROR] Analysis ${analysisId} failed:`, error);
+      if (this.cancelledAnalyses.has(analysisId)) {
+        this.logger.log(`[INFO] Analysis ${analysisId} cancelled during: ${currentTestName}`);
+
+        // Partial results (navigation errors, crawled pages) would only be misleading
+        await dbManager.deleteAnalysisResults(analysisId);
+        await dbManager.updateAnalysis(analysisId, {
+          status: 'cancelled',
+          end_time: new Date().toISOString()
+        });
+
+        reportProgress({
+          status: 'cancelled',
+          progress: 0,
+          currentTest: null
+        });
+
+        return analysisId;
+      }
+
+      this.logger.error(`[ERROR] Analysis ${analysisId} failed:`, error);
       
       const errorMessage = error.message || 'Error desconocido durante el análisis';
       
@@ -434,21 +787,28 @@ export class NorticAnalyzer {
         end_time: new Date().toISOString()
       });
 
-      this.updateProgress(analysisId, {
+      reportProgress({
         status: 'failed',
         progress: 0,
         currentTest: null,
-        completedTests: 0,
         error: errorMessage
       });
 
       throw new Error(errorMessage);
     } finally {
-      // Clean up page
-      if (this.page) {
-        console.log(`[INFO] Cleaning up page for analysis ${analysisId}`);
-        await this.page.close();
-        this.page = null;
+      this.activeAnalyses.delete(analysisId);
+      this.activeContexts.delete(analysisId);
+      this.cancelledAnalyses.delete(analysisId);
+
+      // Clean up the analysis context (closes its page too)
+      if (context) {
+        this.logger.log(`[INFO] Cleaning up browser context for analysis ${analysisId}`);
+        await context.close().catch((closeError) => {
+          this.logger.error(`[ERROR] Failed to close browser context for analysis ${analysisId}:`, closeError);
+        });
+      }
+      if (slotAcquired) {
+        this.releaseSlot();
       }
     }
   }
@@ -467,34 +827,47 @@ export class NorticAnalyzer {
       throw new Error(`Analysis is not completed. Status: ${analysis.status}`);
     }
 
-    const testResults = await dbManager.getTestResults(analysisId);
-    
-    // Group results by category
-    const categories: { [key: string]: { score: number; status: 'passed' | 'warning' | 'failed' } } = {};
-    
-    const categoryGroups = testResults.reduce((groups, result) => {
-      if (!groups[result.category]) {
-        groups[result.category] = [];
-      }
-      groups[result.category].push(result);
-      return groups;
-    }, {} as { [key: string]: TestResult[] });
-
-    for (const [category, results] of Object.entries(categoryGroups)) {
-      const avgScore = Math.round(
-        results.reduce((sum, r) => sum + (r.score || 0), 0) / results.length
-      );
-      categories[category] = {
-        score: avgScore,
-        status: avgScore >= 80 ? 'passed' : avgScore >= 60 ? 'warning' : 'failed'
+    const categories: { [categoryId: string]: CategoryResult } = {};
+    const categoryScores = await dbManager.getCategoryScores(analysisId);
+
+    for (const categoryScore of categoryScores) {
+      categories[categoryScore.category_id] = {
+        label: categoryScore.label,
+        score: categoryScore.score,
+        status: categoryScore.status
       };
     }
 
+    // Analyses completed before category scores were stored: rebuild them from the test results
+    if (categoryScores.length === 0) {
+      const testResults = await dbManager.getTestResults(analysisId);
+      const categoryGroups = testResults.reduce((groups, result) => {
+        if (!groups[result.category]) {
+          groups[result.category] = [];
+        }
+        groups[result.category].push(result);
+        return groups;
+      }, {} as { [key: string]: TestResult[] });
+
+      for (const [category, results] of Object.entries(categoryGroups)) {
+        const definition = testerRegistry.list().find(d => d.displayName === category) || testerRegistry.get(category);
+        const avgScore = Math.round(
+          results.reduce((sum, r) => sum + (r.score || 0), 0) / results.length
+        );
+        categories[definition ? definition.id : category] = {
+          label: definition ? definition.displayName : category,
+          score: avgScore,
+          status: statusForScore(avgScore, DEFAULT_SCORING_PROFILE)
+        };
+      }
+    }
+
     return {
       analysisId: analysis.id,
       url: analysis.url,
       overallScore: analysis.overall_score || 0,
       complianceLevel: analysis.compliance_level || 'Unknown',
+      scoringProfileId: analysis.scoring_profile_id || null,
       categories,
       startTime: analysis.start_time,
       endTime: analysis.end_time || '',
@@ -508,11 +881,44 @@ export class NorticAnalyzer {
 
     const testResults = await dbManager.getTestResults(analysisId);
     const violations = await dbManager.getAccessibilityViolations(analysisId);
+    const analysisPages = await dbManager.getAnalysisPages(analysisId);
+    const categories = await dbManager.getCategoryScores(analysisId);
+
+    // In crawl mode, show which tests failed on each page
+    const pages = analysisPages.map(page => {
+      const pageTests = testResults.filter(test => test.page_id === page.id);
+      return {
+        ...page,
+        failedTests: pageTests.filter(test => test.status === 'failed').map(test => test.test_name),
+        warningTests: pageTests.filter(test => test.status === 'warning').map(test => test.test_name),
+        violationCount: violations.filter(violation => violation.page_id === page.id).length
+      };
+    });
 
     return {
       analysis,
-      testResults,
-      violations
+      categories,
+      // How to fix each failed or warning test and each violation, from the remediation catalog
+      testResults: testResults.map(test => ({ ...test, guidance: remediationForTest(test) })),
+      violations: violations.map(violation => ({ ...violation, guidance: remediationForViolation(violation) })),
+      pages
+    };
+  }
+
+  // Compliance per NORTIC A2 requirement, built from the stored test results
+  async getRequirementsCompliance(analysisId: string) {
+    const analysis = await dbManager.getAnalysis(analysisId);
+    if (!analysis) return null;
+
+    const testResults = await dbManager.getTestResults(analysisId);
+    const { summary, requirements } = evaluateRequirements(testResults);
+
+    return {
+      analysisId: analysis.id,
+      url: analysis.url,
+      status: analysis.status,
+      summary,
+      requirements
     };
   }
 
@@ -532,6 +938,9 @@ export class NorticAnalyzer {
   }
 
   async close(): Promise<void> {
+    if (this.browserLaunch) {
+      await this.browserLaunch.catch(() => undefined);
+    }
     if (this.browser) {
       await this.browser.close();
       this.browser = null;
@@ -0,0 +1,123 @@
+import { dbManager } from '../models/database';
+import { ProgressUpdate } from './nortic-analyzer';
+import { parseAnalysisOptions } from './analysis-queue';
+import { plannedTestCount } from '../tests/registry';
+
+// Tiempo que se conserva el último estado de un análisis terminado para los clientes que se suscriben tarde
+const FINISHED_RETENTION_MS = 10 * 60 * 1000;
+// Eventos guardados por análisis para reanudar flujos SSE (Last-Event-ID); en modo rastreo hay muchos por página
+const HISTORY_LIMIT = 500;
+
+const TERMINAL_STATUSES: ProgressUpdate['status'][] = ['completed', 'failed', 'cancelled'];
+
+export function isTerminalStatus(status: ProgressUpdate['status']): boolean {
+  return TERMINAL_STATUSES.includes(status);
+}
+
+// Event ids are sequential per analysis, starting at 1
+export interface ProgressEvent {
+  id: number;
+  update: ProgressUpdate;
+}
+
+export type ProgressListener = (update: ProgressUpdate, eventId: number) => void;
+
+// Keeps the recent progress of each analysis and fans updates out to the transports (Socket.IO, SSE)
+export class ProgressHub {
+  private history: Map<string, ProgressEvent[]> = new Map();
+  private lastEventIds: Map<string, number> = new Map();
+  private listeners: Set<ProgressListener> = new Set();
+  private expiryTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  publish(update: ProgressUpdate): void {
+    const { analysisId } = update;
+    const eventId = (this.lastEventIds.get(analysisId) || 0) + 1;
+    this.lastEventIds.set(analysisId, eventId);
+
+    const events = this.history.get(analysisId) || [];
+    events.push({ id: eventId, update });
+    if (events.length > HISTORY_LIMIT) {
+      events.splice(0, events.length - HISTORY_LIMIT);
+    }
+    this.history.set(analysisId, events);
+
+    const previousTimer = this.expiryTimers.get(analysisId);
+    if (previousTimer) {
+      clearTimeout(previousTimer);
+      this.expiryTimers.delete(analysisId);
+    }
+    if (isTerminalStatus(update.status)) {
+      const timer = setTimeout(() => {
+        this.history.delete(analysisId);
+        this.lastEventIds.delete(analysisId);
+        this.expiryTimers.delete(analysisId);
+      }, FINISHED_RETENTION_MS);
+      timer.unref();
+      this.expiryTimers.set(analysisId, timer);
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(update, eventId);
+      } catch (error) {
+        console.error(`[ERROR] Progress listener failed for analysis ${analysisId}:`, error);
+      }
+    }
+  }
+
+  subscribe(listener: ProgressListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Latest known state; analyses this process hasn't reported on are rebuilt from their database row
+  async getLatest(analysisId: string): Promise<ProgressUpdate | null> {
+    const latest = this.getLatestEvent(analysisId);
+    if (latest) return latest.update;
+
+    const analysis = await dbManager.getAnalysis(analysisId);
+    if (!analysis) return null;
+
+    const finished = analysis.status === 'completed';
+    const totalTests = plannedTestCount(parseAnalysisOptions(analysis).testCategories);
+    const update: ProgressUpdate = {
+      analysisId,
+      status: analysis.status,
+      progress: finished ? 100 : 0,
+      currentTest: null,
+      completedTests: finished ? totalTests : 0,
+      totalTests
+    };
+
+    if (analysis.status === 'pending') {
+      update.currentTest = 'En cola';
+      update.queuePosition = (await dbManager.getQueuePosition(analysisId)) ?? undefined;
+    }
+
+    return update;
+  }
+
+  getLatestEvent(analysisId: string): ProgressEvent | null {
+    const events = this.history.get(analysisId);
+    return events && events.length > 0 ? events[events.length - 1] : null;
+  }
+
+  // Events published after lastEventId, or null when some of them are no longer retained
+  getEventsSince(analysisId: string, lastEventId: number): ProgressEvent[] | null {
+    const events = this.history.get(analysisId);
+    if (!events || events.length === 0) return null;
+    if (lastEventId < events[0].id - 1) return null;
+    return events.filter(event => event.id > lastEventId);
+  }
+
+  // Analyses still running or waiting, for the operations view
+  getActive(): ProgressUpdate[] {
+    return Array.from(this.history.values())
+      .map(events => events[events.length - 1].update)
+      .filter(update => !isTerminalStatus(update.status));
+  }
+}
+
+export const progressHub = new ProgressHub();
@@ -0,0 +1,98 @@
+import { dbManager, InstitutionLatestAnalysis } from '../models/database';
+
+export type RankingPeriod = 'week' | 'month' | 'quarter' | 'year';
+
+export const RANKING_PERIODS: RankingPeriod[] = ['week', 'month', 'quarter', 'year'];
+
+export interface RankingRow {
+  position: number;
+  // Positions gained since the previous period (negative when it dropped); null if it wasn't ranked then
+  positionChange: number | null;
+  previousPosition: number | null;
+  institutionId: number;
+  name: string;
+  acronym: string | null;
+  sector: string | null;
+  analysisId: string;
+  url: string;
+  overallScore: number | null;
+  complianceLevel: string | null;
+  completedAt: string;
+  categories: { [categoryId: string]: number };
+}
+
+export interface Ranking {
+  cutoff: string;
+  previousCutoff: string;
+  period: RankingPeriod;
+  sector: string | null;
+  rankings: RankingRow[];
+}
+
+function previousCutoff(cutoff: Date, period: RankingPeriod): Date {
+  const previous = new Date(cutoff);
+  if (period === 'week') previous.setUTCDate(previous.getUTCDate() - 7);
+  if (period === 'month') previous.setUTCMonth(previous.getUTCMonth() - 1);
+  if (period === 'quarter') previous.setUTCMonth(previous.getUTCMonth() - 3);
+  if (period === 'year') previous.setUTCFullYear(previous.getUTCFullYear() - 1);
+  return previous;
+}
+
+// Highest score first; institutions with the same score share a position (1, 2, 2, 4)
+function assignPositions(analyses: InstitutionLatestAnalysis[]): { analysis: InstitutionLatestAnalysis; position: number }[] {
+  const sorted = [...analyses].sort((a, b) =>
+    (b.overall_score ?? -1) - (a.overall_score ?? -1) || a.institution_name.localeCompare(b.institution_name)
+  );
+
+  return sorted.map(analysis => ({
+    analysis,
+    position: sorted.findIndex(other => (other.overall_score ?? -1) === (analysis.overall_score ?? -1)) + 1
+  }));
+}
+
+export async function getRankings(options: { cutoff: Date; period: RankingPeriod; sector?: string }): Promise<Ranking> {
+  const previous = previousCutoff(options.cutoff, options.period);
+  const [current, before] = await Promise.all([
+    dbManager.getLatestInstitutionAnalyses(options.cutoff.toISOString(), options.sector),
+    dbManager.getLatestInstitutionAnalyses(previous.toISOString(), options.sector)
+  ]);
+
+  const previousPositions = new Map(
+    assignPositions(before).map(({ analysis, position }) => [analysis.institution_id, position])
+  );
+
+  // Category scores of every ranked analysis in one query
+  const scores = new Map<string, { [categoryId: string]: number }>();
+  for (const score of await dbManager.getCategoryScoresForAnalyses(current.map(analysis => analysis.analysis_id))) {
+    scores.set(score.analysis_id, { ...scores.get(score.analysis_id), [score.category_id]: score.score });
+  }
+
+  const rankings: RankingRow[] = [];
+  for (const { analysis, position } of assignPositions(current)) {
+    const previousPosition = previousPositions.get(analysis.institution_id) ?? null;
+
+    rankings.push({
+      position,
+      positionChange: previousPosition !== null ? previousPosition - position : null,
+      previousPosition,
+      institutionId: analysis.institution_id,
+      name: analysis.institution_name,
+      acronym: analysis.institution_acronym,
+      sector: analysis.sector,
+      analysisId: analysis.analysis_id,
+      url: analysis.url,
+      overallScore: analysis.overall_score,
+      complianceLevel: analysis.compliance_level,
+      completedAt: analysis.completed_at,
+      categories: scores.get(analysis.analysis_id) || {}
+    });
+  }
+
+  return {
+    cutoff: options.cutoff.toISOString(),
+    previousCutoff: previous.toISOString(),
+    period: options.period,
+    sector: options.sector || null,
+    rankings
+  };
+}
@@ -0,0 +1,885 @@
+import { AccessibilityViolation, TestResult } from '../models/database';
+import { testerRegistry } from '../tests/registry';
+import { AXE_AUDIT_TEST } from '../tests/accessibility';
+import { REQUIREMENTS_CATALOG } from './requirements-catalog';
+
+export type RemediationEffort = 'low' | 'medium' | 'high';
+
+export interface RemediationEntry {
+  testName: string;
+  // Código estable del problema dentro de la prueba; en la auditoría axe es el id de la regla
+  code: string;
+  // Fragmento del mensaje de la prueba que identifica el problema; falta en la guía general (código 'general') y en las reglas axe
+  match?: RegExp;
+  title: string;
+  explanation: string;
+  example?: string;
+  effort: RemediationEffort;
+  wcag: string[];
+  // Requisitos adicionales a los que ya declara la prueba en su módulo
+  nortic?: string[];
+}
+
+export interface RemediationGuidance {
+  testName: string;
+  code: string;
+  title: string;
+  explanation: string;
+  example: string | null;
+  effort: RemediationEffort;
+  nortic: { id: string; title: string }[];
+  wcag: { id: string; title: string; url: string }[];
+}
+
+// Criterios WCAG 2.1 citados en el catálogo, con la página "Understanding" de la W3C
+const WCAG_CRITERIA: { [id: string]: { title: string; slug: string } } = {
+  '1.1.1': { title: 'Contenido no textual (A)', slug: 'non-text-content' },
+  '1.3.1': { title: 'Información y relaciones (A)', slug: 'info-and-relationships' },
+  '1.3.5': { title: 'Identificar el propósito de la entrada (AA)', slug: 'identify-input-purpose' },
+  '1.4.1': { title: 'Uso del color (A)', slug: 'use-of-color' },
+  '1.4.3': { title: 'Contraste mínimo (AA)', slug: 'contrast-minimum' },
+  '1.4.4': { title: 'Cambio de tamaño del texto (AA)', slug: 'resize-text' },
+  '1.4.10': { title: 'Reajuste del contenido (AA)', slug: 'reflow' },
+  '1.4.11': { title: 'Contraste no textual (AA)', slug: 'non-text-contrast' },
+  '2.1.1': { title: 'Teclado (A)', slug: 'keyboard' },
+  '2.4.1': { title: 'Evitar bloques (A)', slug: 'bypass-blocks' },
+  '2.4.2': { title: 'Titulado de páginas (A)', slug: 'page-titled' },
+  '2.4.3': { title: 'Orden del foco (A)', slug: 'focus-order' },
+  '2.4.4': { title: 'Propósito de los enlaces (A)', slug: 'link-purpose-in-context' },
+  '2.4.5': { title: 'Múltiples vías (AA)', slug: 'multiple-ways' },
+  '2.4.6': { title: 'Encabezados y etiquetas (AA)', slug: 'headings-and-labels' },
+  '2.4.7': { title: 'Foco visible (AA)', slug: 'focus-visible' },
+  '3.1.1': { title: 'Idioma de la página (A)', slug: 'language-of-page' },
+  '3.2.3': { title: 'Navegación coherente (AA)', slug: 'consistent-navigation' },
+  '3.2.4': { title: 'Identificación coherente (AA)', slug: 'consistent-identification' },
+  '3.3.1': { title: 'Identificación de errores (A)', slug: 'error-identification' },
+  '3.3.2': { title: 'Etiquetas o instrucciones (A)', slug: 'labels-or-instructions' },
+  '4.1.1': { title: 'Procesamiento (A)', slug: 'parsing' },
+  '4.1.2': { title: 'Nombre, función, valor (A)', slug: 'name-role-value' }
+};
+
+export const REMEDIATION_CATALOG: RemediationEntry[] = [
+  // Capítulo 2: Usabilidad
+  {
+    testName: 'Tiempo de Carga de Página', code: 'general', title: 'Reducir el tiempo de carga',
+    explanation: 'La página tarda más de 3 segundos en cargar. Comprima imágenes (WebP o AVIF), active la compresión gzip o brotli en el servidor, difiera los scripts que no son necesarios para el primer render y configure caché para los recursos estáticos.',
+    example: `<img src="banner.webp" width="1200" height="400" loading="lazy" alt="Nueva sede del ministerio">
+<script src="/js/app.js" defer></script>
+
+# nginx
+gzip on;
+location ~* \\.(css|js|webp|png|jpg|svg)$ { expires 30d; }`,
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Diseño Responsivo', code: 'general', title: 'Adaptar la página a móviles y tabletas',
+    explanation: 'El contenido se desborda o no se adapta en alguno de los tamaños de pantalla evaluados. Declare el viewport, use anchos relativos y media queries, y evite anchos fijos en píxeles en contenedores principales.',
+    example: `<meta name="viewport" content="width=device-width, initial-scale=1">
+
+.contenedor { max-width: 1200px; width: 100%; margin: 0 auto; }
+@media (max-width: 768px) { .columnas { flex-direction: column; } }`,
+    effort: 'medium', wcag: ['1.4.10', '1.4.4']
+  },
+  {
+    testName: 'Consistencia de Navegación', code: 'general', title: 'Incluir una navegación principal consistente',
+    explanation: 'No se encontró un bloque de navegación con enlaces. Use un elemento <nav> con los enlaces principales y manténgalo en la misma posición y orden en todas las páginas.',
+    example: `<nav aria-label="Menú principal">
+  <ul>
+    <li><a href="/sobre-nosotros">Sobre nosotros</a></li>
+    <li><a href="/servicios">Servicios</a></li>
+    <li><a href="/transparencia">Transparencia</a></li>
+  </ul>
+</nav>`,
+    effort: 'low', wcag: ['3.2.3', '2.4.5']
+  },
+  {
+    testName: 'Compatibilidad del Navegador', code: 'general', title: 'Evitar dependencias de funciones no soportadas',
+    explanation: 'La página depende de funciones del navegador que no están disponibles. Verifique el sitio en los navegadores de uso común, agregue alternativas (polyfills) y no bloquee el contenido cuando una función falta.',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Usabilidad de Formularios', code: 'campos-sin-etiqueta', match: /Faltan etiquetas/,
+    title: 'Etiquetar todos los campos del formulario',
+    explanation: 'Hay campos sin etiqueta visible. Cada campo debe tener un <label> asociado por el atributo for, de modo que el ciudadano sepa qué escribir y los lectores de pantalla lo anuncien.',
+    example: `<label for="cedula">Cédula</label>
+<input id="cedula" name="cedula" inputmode="numeric" autocomplete="off">`,
+    effort: 'low', wcag: ['3.3.2', '1.3.1']
+  },
+  {
+    testName: 'Usabilidad de Formularios', code: 'sin-boton-envio', match: /bot[oó]n de env[ií]o/,
+    title: 'Agregar un botón de envío',
+    explanation: 'Algún formulario no tiene un botón de envío. Incluya un <button type="submit"> con un texto que describa la acción; no dependa solo de la tecla Enter o de scripts.',
+    example: `<form action="/contacto" method="post">
+  ...
+  <button type="submit">Enviar solicitud</button>
+</form>`,
+    effort: 'low', wcag: ['3.3.2']
+  },
+  {
+    testName: 'Usabilidad de Formularios', code: 'general', title: 'Revisar la estructura de los formularios',
+    explanation: 'Los formularios deben tener campos etiquetados, un botón de envío claro y mensajes de error que indiquen cómo corregir el dato.',
+    effort: 'low', wcag: ['3.3.1', '3.3.2']
+  },
+  {
+    testName: 'Funcionalidad de Búsqueda', code: 'general', title: 'Ofrecer un buscador de contenidos',
+    explanation: 'No se encontró un buscador completo. Agregue un formulario de búsqueda con role="search", un campo type="search" etiquetado y un botón, visible en el encabezado de todas las páginas.',
+    example: `<form role="search" action="/buscar">
+  <label for="q">Buscar en el portal</label>
+  <input id="q" name="q" type="search">
+  <button type="submit">Buscar</button>
+</form>`,
+    effort: 'medium', wcag: ['2.4.5']
+  },
+
+  // Capítulo 3: Diseño
+  {
+    testName: 'Estructura del Header', code: 'general', title: 'Completar el encabezado institucional',
+    explanation: 'El encabezado debe usar el elemento <header> e incluir el logo de la institución enlazado a la página de inicio, el nombre de la institución y la navegación principal.',
+    example: `<header>
+  <a href="/"><img src="/img/logo.svg" alt="Ministerio de Obras Públicas y Comunicaciones - Inicio"></a>
+  <nav aria-label="Menú principal">...</nav>
+</header>`,
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: 'Elementos de Identidad Gubernamental', code: 'general', title: 'Mostrar la identidad gubernamental',
+    explanation: 'Faltan elementos de identidad del Gobierno dominicano (escudo, barra o mención de gob.do). Aplique el manual de identidad gubernamental en el encabezado y el pie de página.',
+    effort: 'low', wcag: [], nortic: ['A2-3.6']
+  },
+  {
+    testName: 'Estructura del Footer', code: 'general', title: 'Completar el pie de página',
+    explanation: 'El pie de página debe usar el elemento <footer> e incluir dirección, teléfono, correo, horario, redes sociales y los enlaces a términos de uso, privacidad y transparencia.',
+    example: `<footer>
+  <address>Av. Principal 100, Santo Domingo · Tel. 809-000-0000 · info@institucion.gob.do</address>
+  <a href="/terminos">Términos de uso</a> · <a href="/privacidad">Política de privacidad</a>
+</footer>`,
+    effort: 'low', wcag: [], nortic: ['A2-4.5', 'A2-4.6']
+  },
+  {
+    testName: 'Menú de Navegación', code: 'general', title: 'Estructurar el menú principal',
+    explanation: 'El menú principal debe ser una lista de enlaces dentro de <nav>, con pocos elementos de primer nivel y submenús que se puedan abrir con el teclado.',
+    example: `<nav aria-label="Menú principal">
+  <ul>
+    <li><a href="/servicios" aria-expanded="false">Servicios</a>
+      <ul><li><a href="/servicios/licencias">Licencias</a></li></ul>
+    </li>
+  </ul>
+</nav>`,
+    effort: 'medium', wcag: ['2.1.1', '3.2.3']
+  },
+  {
+    testName: 'Área de Contenido Principal', code: 'general', title: 'Delimitar el contenido principal',
+    explanation: 'El contenido principal debe estar dentro de un único <main>, organizado con encabezados y párrafos, para que se distinga del encabezado, el menú y el pie.',
+    example: `<main id="contenido">
+  <h1>Servicios</h1>
+  <p>...</p>
+</main>`,
+    effort: 'low', wcag: ['1.3.1', '2.4.1']
+  },
+  {
+    testName: 'Layout Responsivo', code: 'general', title: 'Corregir la disposición en pantallas pequeñas',
+    explanation: 'La disposición se rompe en alguno de los tamaños evaluados (desplazamiento horizontal o elementos superpuestos). Use CSS Grid o Flexbox con puntos de quiebre y evite anchos fijos.',
+    example: `.rejilla { display: grid; grid-template-columns: repeat(auto-fit, minmax(280px, 1fr)); gap: 1rem; }`,
+    effort: 'medium', wcag: ['1.4.10']
+  },
+
+  // Capítulo 4: Contenido
+  {
+    testName: 'Información Institucional', code: 'general', title: 'Publicar la información institucional',
+    explanation: 'Publique una sección "Sobre nosotros" con misión, visión, valores, historia, base legal, estructura organizacional y la máxima autoridad, enlazada desde el menú principal.',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Información de Servicios', code: 'general', title: 'Describir los servicios al ciudadano',
+    explanation: 'Cada servicio debe tener su propia página con descripción, requisitos, costo, tiempo de respuesta, horario y canales de solicitud, y estar enlazado a su ficha en el Portal de Servicios del Estado si existe.',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Sección de Transparencia', code: 'general', title: 'Habilitar el portal de transparencia',
+    explanation: 'Agregue el enlace "Transparencia" en el menú principal y el pie de página, apuntando a la sección con la estructura que exige la normativa de transparencia (base legal, presupuesto, compras, nómina, estadísticas).',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Noticias y Comunicaciones', code: 'general', title: 'Publicar noticias institucionales',
+    explanation: 'Mantenga una sección de noticias con fecha de publicación visible y actualizaciones frecuentes; enlace las más recientes desde la página de inicio.',
+    effort: 'low', wcag: [], nortic: ['A2-4.7']
+  },
+  {
+    testName: 'Información de Contacto', code: 'general', title: 'Publicar los datos de contacto',
+    explanation: 'Publique teléfono, correo institucional, dirección física y horario de atención en el pie de página y en una página de contacto. Use enlaces tel: y mailto: para que funcionen en móviles.',
+    example: `<a href="tel:+18090000000">809-000-0000</a>
+<a href="mailto:info@institucion.gob.do">info@institucion.gob.do</a>`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Información Legal Requerida', code: 'general', title: 'Publicar términos de uso y privacidad',
+    explanation: 'Publique los términos de uso y la política de privacidad del portal, enlazados desde el pie de página de todas las páginas.',
+    effort: 'low', wcag: []
+  },
+
+  // Capítulo 5: Seguridad
+  {
+    testName: 'Implementación HTTPS', code: 'sin-https', match: /no usa HTTPS|Contexto no seguro/,
+    title: 'Servir el portal por HTTPS',
+    explanation: 'El portal se sirve sin cifrado. Instale un certificado válido (por ejemplo, de Let\'s Encrypt) y redirija todo el tráfico HTTP a HTTPS.',
+    example: `server {
+  listen 80;
+  server_name www.institucion.gob.do;
+  return 301 https://$host$request_uri;
+}`,
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Implementación HTTPS', code: 'contenido-mixto', match: /recursos inseguros/,
+    title: 'Eliminar el contenido mixto',
+    explanation: 'La página HTTPS carga recursos por HTTP. Cambie esas URLs a https:// (o a rutas relativas) y agregue la directiva upgrade-insecure-requests mientras tanto.',
+    example: `Content-Security-Policy: upgrade-insecure-requests`,
+    effort: 'low', wcag: [], nortic: ['A2-5.5']
+  },
+  {
+    testName: 'Implementación HTTPS', code: 'general', title: 'Revisar la configuración HTTPS',
+    explanation: 'Verifique que el certificado sea válido, que todas las páginas y recursos se sirvan por HTTPS y que HTTP redirija a HTTPS.',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Cabeceras de Seguridad', code: 'general', title: 'Enviar las cabeceras de seguridad',
+    explanation: 'El servidor no envía algunas cabeceras de seguridad. Configure X-Frame-Options, X-Content-Type-Options, Strict-Transport-Security, Referrer-Policy y Content-Security-Policy en todas las respuestas.',
+    example: `# nginx
+add_header X-Frame-Options "SAMEORIGIN" always;
+add_header X-Content-Type-Options "nosniff" always;
+add_header Strict-Transport-Security "max-age=31536000; includeSubDomains" always;
+add_header Referrer-Policy "strict-origin-when-cross-origin" always;`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Política de Seguridad de Contenido', code: 'sin-csp', match: /No se encontr[oó] Content Security Policy/,
+    title: 'Definir una Content Security Policy',
+    explanation: 'No hay CSP. Empiece con una política en modo de solo reporte para descubrir los orígenes que usa el portal y luego aplíquela.',
+    example: `Content-Security-Policy-Report-Only: default-src 'self'; img-src 'self' data:; script-src 'self' https://www.googletagmanager.com; report-uri /csp-report`,
+    effort: 'high', wcag: []
+  },
+  {
+    testName: 'Política de Seguridad de Contenido', code: 'csp-unsafe-inline', match: /unsafe-inline/,
+    title: "Quitar 'unsafe-inline' de la CSP",
+    explanation: "'unsafe-inline' anula buena parte de la protección contra XSS. Mueva los scripts y estilos en línea a archivos, o autorícelos con nonces o hashes.",
+    example: `Content-Security-Policy: script-src 'self' 'nonce-r4nd0m'
+<script nonce="r4nd0m">...</script>`,
+    effort: 'high', wcag: []
+  },
+  {
+    testName: 'Política de Seguridad de Contenido', code: 'csp-unsafe-eval', match: /unsafe-eval/,
+    title: "Quitar 'unsafe-eval' de la CSP",
+    explanation: "'unsafe-eval' permite ejecutar código generado como texto (eval, new Function). Actualice las bibliotecas que lo requieren y elimine la directiva.",
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Política de Seguridad de Contenido', code: 'csp-comodin', match: /todas las fuentes/,
+    title: 'Restringir los orígenes de la CSP',
+    explanation: 'La política permite cualquier origen (*). Enumere solo los dominios que el portal necesita en cada directiva.',
+    example: `Content-Security-Policy: default-src 'self'; img-src 'self' https://cdn.institucion.gob.do`,
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Política de Seguridad de Contenido', code: 'general', title: 'Revisar la Content Security Policy',
+    explanation: 'Defina una CSP restrictiva sin \'unsafe-inline\', \'unsafe-eval\' ni comodines, y pruébela primero en modo de solo reporte.',
+    effort: 'high', wcag: []
+  },
+  {
+    testName: 'Seguridad de Formularios', code: 'formulario-inseguro', match: /formularios no son seguros/,
+    title: 'Enviar los formularios por HTTPS',
+    explanation: 'Algún formulario se envía a una dirección HTTP. Cambie el action a HTTPS o a una ruta relativa y use method="post" para datos personales.',
+    example: `<form action="https://www.institucion.gob.do/contacto" method="post">`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Formularios', code: 'sin-csrf', match: /CSRF/,
+    title: 'Proteger los formularios contra CSRF',
+    explanation: 'Los formularios no incluyen un token anti-CSRF. Genere un token por sesión, inclúyalo como campo oculto y valídelo en el servidor; complemente con cookies SameSite.',
+    example: `<input type="hidden" name="_csrf" value="{{ csrfToken }}">`,
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Seguridad de Formularios', code: 'sin-validacion', match: /validaci[oó]n de entrada/,
+    title: 'Validar los datos de entrada',
+    explanation: 'Los campos no declaran restricciones. Use type, required, maxlength y pattern para la validación en el navegador y repita siempre la validación en el servidor.',
+    example: `<input type="email" name="correo" required maxlength="120">
+<input name="cedula" pattern="\\d{3}-?\\d{7}-?\\d" required>`,
+    effort: 'low', wcag: ['3.3.1']
+  },
+  {
+    testName: 'Seguridad de Formularios', code: 'contrasena-insegura', match: /contrase[nñ]a/,
+    title: 'Proteger los campos de contraseña',
+    explanation: 'Los campos de contraseña deben estar en formularios HTTPS con method="post" y declarar autocomplete="current-password" o "new-password" para que los gestores de contraseñas funcionen.',
+    example: `<input type="password" name="clave" autocomplete="current-password" minlength="8" required>`,
+    effort: 'low', wcag: ['1.3.5']
+  },
+  {
+    testName: 'Seguridad de Formularios', code: 'general', title: 'Revisar la seguridad de los formularios',
+    explanation: 'Los formularios deben enviarse por HTTPS con POST, incluir un token anti-CSRF, validar la entrada en el servidor y protegerse contra envíos automatizados (captcha o limitación de frecuencia).',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Seguridad de Cookies', code: 'cookie-secure', match: /cookies no son seguras/,
+    title: 'Marcar las cookies como Secure',
+    explanation: 'Hay cookies sin el atributo Secure, que pueden viajar por conexiones sin cifrar. Configure el servidor o el framework para emitirlas siempre con Secure.',
+    example: `Set-Cookie: sesion=abc123; Secure; HttpOnly; SameSite=Lax; Path=/`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Cookies', code: 'cookie-httponly', match: /HttpOnly/,
+    title: 'Marcar las cookies de sesión como HttpOnly',
+    explanation: 'Hay cookies accesibles desde JavaScript. Las cookies de sesión y autenticación deben llevar HttpOnly para que un script inyectado no pueda leerlas.',
+    example: `// Express
+app.use(session({ cookie: { httpOnly: true, secure: true, sameSite: 'lax' } }));`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Cookies', code: 'cookie-samesite', match: /SameSite/,
+    title: 'Definir SameSite en las cookies',
+    explanation: 'Hay cookies sin SameSite. Use SameSite=Lax (o Strict para cookies que no se necesitan al llegar desde otros sitios) para reducir el riesgo de CSRF.',
+    example: `Set-Cookie: preferencia=es; Secure; SameSite=Lax; Path=/`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Cookies', code: 'general', title: 'Revisar los atributos de las cookies',
+    explanation: 'Todas las cookies deben llevar Secure; las de sesión, además, HttpOnly y SameSite.',
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Recursos Externos', code: 'recurso-inseguro', match: /recursos externos no son seguros/,
+    title: 'Cargar los recursos externos por HTTPS',
+    explanation: 'Se cargan scripts, estilos o imágenes de terceros por HTTP. Cambie sus URLs a HTTPS o aloje el recurso en el propio portal.',
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Recursos Externos', code: 'sin-sri', match: /integridad/,
+    title: 'Agregar Subresource Integrity',
+    explanation: 'Los scripts y estilos de CDN no verifican su integridad. Agregue el atributo integrity con el hash publicado por el proveedor, junto con crossorigin="anonymous".',
+    example: `<script src="https://cdn.jsdelivr.net/npm/bootstrap@5.3.3/dist/js/bootstrap.bundle.min.js"
+        integrity="sha384-..." crossorigin="anonymous"></script>`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Recursos Externos', code: 'sin-crossorigin', match: /crossorigin/,
+    title: 'Declarar crossorigin en los recursos externos',
+    explanation: 'Los recursos de otros orígenes que usan integrity necesitan crossorigin="anonymous" para que el navegador pueda verificarlos sin enviar credenciales.',
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Seguridad de Recursos Externos', code: 'demasiados-dominios', match: /Demasiados dominios/,
+    title: 'Reducir los dominios de terceros',
+    explanation: 'La página depende de muchos dominios externos. Elimine los que no se usan y aloje localmente fuentes y bibliotecas, lo que también mejora el tiempo de carga.',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Seguridad de Recursos Externos', code: 'general', title: 'Revisar los recursos de terceros',
+    explanation: 'Cargue los recursos externos por HTTPS, desde orígenes confiables y con Subresource Integrity.',
+    effort: 'low', wcag: []
+  },
+
+  // Capítulo 6: SEO
+  {
+    testName: 'Optimización de Etiqueta Title', code: 'sin-title', match: /Falta etiqueta title/,
+    title: 'Agregar la etiqueta <title>',
+    explanation: 'La página no tiene título. Cada página debe tener un <title> único que describa su contenido seguido del nombre de la institución.',
+    example: `<title>Solicitud de licencia de construcción | MOPC</title>`,
+    effort: 'low', wcag: ['2.4.2']
+  },
+  {
+    testName: 'Optimización de Etiqueta Title', code: 'title-longitud', match: /Title muy (corto|largo)/,
+    title: 'Ajustar la longitud del título',
+    explanation: 'Los buscadores muestran entre 30 y 60 caracteres del título. Ajuste el texto para que sea descriptivo sin truncarse.',
+    effort: 'low', wcag: ['2.4.2']
+  },
+  {
+    testName: 'Optimización de Etiqueta Title', code: 'title-sin-institucion', match: /nombre de instituci[oó]n/,
+    title: 'Incluir la institución en el título',
+    explanation: 'Agregue el nombre o las siglas de la institución al final del título para que el ciudadano identifique el portal en los resultados de búsqueda y en las pestañas.',
+    example: `<title>Transparencia | Ministerio de Obras Públicas y Comunicaciones</title>`,
+    effort: 'low', wcag: ['2.4.2']
+  },
+  {
+    testName: 'Optimización de Etiqueta Title', code: 'title-palabras-clave', match: /palabras clave/,
+    title: 'Usar términos que busca el ciudadano',
+    explanation: 'El título no contiene términos relevantes. Use las palabras con que el ciudadano busca el servicio o la información de la página.',
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Optimización de Etiqueta Title', code: 'general', title: 'Revisar el título de la página',
+    explanation: 'Cada página debe tener un título único, de 30 a 60 caracteres, con el tema de la página y el nombre de la institución.',
+    effort: 'low', wcag: ['2.4.2']
+  },
+  {
+    testName: 'Meta Descripción', code: 'sin-meta-description', match: /Falta meta description/,
+    title: 'Agregar la meta descripción',
+    explanation: 'La página no tiene meta descripción. Escriba un resumen de 120 a 160 caracteres que los buscadores mostrarán bajo el título.',
+    example: `<meta name="description" content="Solicite en línea la licencia de construcción: requisitos, costos y tiempo de respuesta del MOPC.">`,
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Meta Descripción', code: 'meta-description-longitud', match: /Meta description muy (corta|larga)/,
+    title: 'Ajustar la longitud de la meta descripción',
+    explanation: 'Los buscadores truncan las descripciones largas y las muy cortas no aportan contexto. Ajuste el texto a 120-160 caracteres.',
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Meta Descripción', code: 'meta-description-contenido', match: /informaci[oó]n institucional|llamada a la acci[oó]n/,
+    title: 'Mejorar el contenido de la meta descripción',
+    explanation: 'Mencione la institución y lo que el ciudadano puede hacer en la página (consultar, solicitar, descargar).',
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Meta Descripción', code: 'general', title: 'Revisar la meta descripción',
+    explanation: 'Cada página debe tener una meta descripción única de 120 a 160 caracteres que mencione la institución y la acción principal.',
+    effort: 'low', wcag: []
+  },
+  {
+    testName: 'Estructura de URL', code: 'url-sin-https', match: /URL no usa HTTPS/,
+    title: 'Publicar las URLs con HTTPS',
+    explanation: 'La dirección usa HTTP. Redirija a HTTPS y actualice los enlaces internos y el sitemap.',
+    effort: 'medium', wcag: [], nortic: ['A2-5.1']
+  },
+  {
+    testName: 'Estructura de URL', code: 'dominio-no-oficial', match: /dominio gubernamental/,
+    title: 'Usar el dominio gob.do',
+    explanation: 'El portal no está bajo un dominio gubernamental oficial. Los portales del Estado deben publicarse en un dominio .gob.do registrado por la institución.',
+    effort: 'high', wcag: []
+  },
+  {
+    testName: 'Estructura de URL', code: 'url-poco-descriptiva', match: /URL poco descriptiva|URL muy larga|muy profunda/,
+    title: 'Usar URLs cortas y legibles',
+    explanation: 'La dirección es larga, profunda o usa parámetros e identificadores. Use rutas cortas con palabras separadas por guiones y evite más de tres niveles.',
+    example: `https://www.institucion.gob.do/servicios/licencia-de-construccion
+en lugar de
+https://www.institucion.gob.do/index.php?option=com_content&view=article&id=1432`,
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Estructura de URL', code: 'general', title: 'Revisar la estructura de las URLs',
+    explanation: 'Las URLs deben usar HTTPS, el dominio .gob.do y rutas cortas y descriptivas.',
+    effort: 'medium', wcag: []
+  },
+  {
+    testName: 'Estructura de Encabezados', code: 'h1', match: /H1/,
+    title: 'Usar un único H1 por página',
+    explanation: 'Cada página debe tener exactamente un <h1> con el tema principal de la página; el nombre de la institución en el logo no debe ser un H1 en todas las páginas.',
+    example: `<h1>Licencia de construcción</h1>
+<h2>Requisitos</h2>
+<h2>Costo y tiempo de respuesta</h2>`,
+    effort: 'low', wcag: ['1.3.1', '2.4.6']
+  },
+  {
+    testName: 'Estructura de Encabezados', code: 'jerarquia-encabezados', match: /Jerarqu[ií]a de encabezados/,
+    title: 'Respetar la jerarquía de encabezados',
+    explanation: 'Hay niveles de encabezado omitidos (por ejemplo, un H4 después de un H2). Elija el nivel por la estructura del contenido y el tamaño visual con CSS.',
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: 'Estructura de Encabezados', code: 'pocos-encabezados', match: /Pocos encabezados|Faltan etiquetas H2/,
+    title: 'Dividir el contenido con subtítulos',
+    explanation: 'El contenido tiene pocos encabezados. Use H2 y H3 para las secciones, lo que facilita la lectura, la navegación con lectores de pantalla y la indexación.',
+    effort: 'low', wcag: ['1.3.1', '2.4.6']
+  },
+  {
+    testName: 'Estructura de Encabezados', code: 'general', title: 'Revisar la estructura de encabezados',
+    explanation: 'Use un H1 por página y H2-H6 en orden, sin saltos de nivel.',
+    effort: 'low', wcag: ['1.3.1', '2.4.6']
+  },
+  {
+    testName: 'Atributos Alt de Imágenes', code: 'imagenes-sin-alt', match: /sin atributo alt/,
+    title: 'Agregar texto alternativo a las imágenes',
+    explanation: 'Hay imágenes sin atributo alt. Describa en el alt la información que aporta la imagen; las decorativas deben llevar alt="" para que se ignoren.',
+    example: `<img src="ministro.jpg" alt="El ministro firma el acuerdo con la alcaldía de Santiago">
+<img src="separador.png" alt="">`,
+    effort: 'low', wcag: ['1.1.1'], nortic: ['A2-7.1']
+  },
+  {
+    testName: 'Atributos Alt de Imágenes', code: 'alt-poco-descriptivo', match: /poco descriptivos/,
+    title: 'Escribir textos alternativos descriptivos',
+    explanation: 'Algunos textos alt son genéricos ("imagen", "foto", el nombre del archivo). Describa el contenido o la función de la imagen en pocas palabras.',
+    effort: 'low', wcag: ['1.1.1']
+  },
+  {
+    testName: 'Atributos Alt de Imágenes', code: 'general', title: 'Revisar los textos alternativos',
+    explanation: 'Todas las imágenes informativas necesitan un alt descriptivo y las decorativas alt="".',
+    effort: 'low', wcag: ['1.1.1']
+  },
+  {
+    testName: 'Enlaces Internos', code: 'pocos-enlaces', match: /No se encontraron enlaces|Pocos enlaces internos|enlaces de navegaci[oó]n/,
+    title: 'Enlazar las secciones del portal',
+    explanation: 'La página tiene pocos enlaces a otras secciones del portal. Incluya el menú principal, migas de pan y enlaces a contenidos relacionados.',
+    example: `<nav aria-label="Migas de pan">
+  <a href="/">Inicio</a> › <a href="/servicios">Servicios</a> › Licencia de construcción
+</nav>`,
+    effort: 'low', wcag: ['2.4.5']
+  },
+  {
+    testName: 'Enlaces Internos', code: 'texto-enlace', match: /Textos de enlaces poco descriptivos|Enlaces sin texto/,
+    title: 'Usar textos de enlace descriptivos',
+    explanation: 'Hay enlaces sin texto o con textos como "clic aquí" o "ver más". El texto del enlace debe indicar su destino; los enlaces con solo un ícono necesitan aria-label.',
+    example: `<a href="/servicios/licencias">Requisitos de la licencia de construcción</a>
+<a href="https://facebook.com/institucion" aria-label="Facebook de la institución"><svg aria-hidden="true">...</svg></a>`,
+    effort: 'low', wcag: ['2.4.4', '4.1.2']
+  },
+  {
+    testName: 'Enlaces Internos', code: 'general', title: 'Revisar los enlaces internos',
+    explanation: 'Cada página debe enlazar a las secciones principales del portal con textos que describan el destino.',
+    effort: 'low', wcag: ['2.4.4']
+  },
+
+  // Capítulo 7: Accesibilidad
+  {
+    testName: 'Navegación por Teclado', code: 'sin-enfocables', match: /No se encontraron elementos enfocables/,
+    title: 'Usar elementos interactivos nativos',
+    explanation: 'No hay elementos que reciban el foco. Use <a href> y <button> en lugar de <div> o <span> con eventos de clic, que no se pueden usar con el teclado.',
+    example: `<button type="button" class="menu-toggle">Menú</button>
+en lugar de
+<div class="menu-toggle" onclick="abrirMenu()">Menú</div>`,
+    effort: 'medium', wcag: ['2.1.1', '4.1.2']
+  },
+  {
+    testName: 'Navegación por Teclado', code: 'sin-enlace-salto', match: /enlaces de salto/,
+    title: 'Agregar un enlace "Saltar al contenido"',
+    explanation: 'Agregue como primer elemento de la página un enlace que lleve al contenido principal, visible al recibir el foco, para no tener que recorrer todo el menú con el tabulador.',
+    example: `<a class="saltar" href="#contenido">Saltar al contenido principal</a>
+...
+<main id="contenido">
+
+.saltar { position: absolute; left: -9999px; }
+.saltar:focus { left: 1rem; top: 1rem; }`,
+    effort: 'low', wcag: ['2.4.1']
+  },
+  {
+    testName: 'Navegación por Teclado', code: 'sin-indicador-foco', match: /indicadores de foco/,
+    title: 'Mostrar el indicador de foco',
+    explanation: 'El foco del teclado no es visible. No elimine outline sin reemplazarlo; defina un estilo :focus-visible con contraste suficiente.',
+    example: `a:focus-visible, button:focus-visible, input:focus-visible {
+  outline: 3px solid #002d62;
+  outline-offset: 2px;
+}`,
+    effort: 'low', wcag: ['2.4.7', '1.4.11']
+  },
+  {
+    testName: 'Navegación por Teclado', code: 'tabindex', match: /tabindex/,
+    title: 'Evitar tabindex positivo',
+    explanation: 'Los valores de tabindex mayores que 0 alteran el orden de tabulación. Use solo tabindex="0" o "-1" y ordene el HTML en el orden de lectura.',
+    effort: 'low', wcag: ['2.4.3']
+  },
+  {
+    testName: 'Navegación por Teclado', code: 'sin-nombre-accesible', match: /sin nombres accesibles/,
+    title: 'Dar nombre accesible a los controles',
+    explanation: 'Hay botones o enlaces sin texto que los identifique (por ejemplo, solo un ícono). Agregue texto visible, texto oculto visualmente o aria-label.',
+    example: `<button type="button" aria-label="Abrir menú"><svg aria-hidden="true">...</svg></button>`,
+    effort: 'low', wcag: ['4.1.2', '2.4.4']
+  },
+  {
+    testName: 'Navegación por Teclado', code: 'general', title: 'Revisar el uso con teclado',
+    explanation: 'Recorra la página solo con Tab, Shift+Tab, Enter y Escape: todo control debe alcanzarse, mostrar el foco y poder activarse.',
+    effort: 'medium', wcag: ['2.1.1', '2.4.7']
+  },
+  {
+    testName: 'Contraste de Colores', code: 'contraste', match: /problemas potenciales de contraste|verificar contrastes/,
+    title: 'Aumentar el contraste del texto',
+    explanation: 'Hay textos con poco contraste respecto al fondo. El texto normal necesita una relación de al menos 4.5:1 y el texto grande (24px o 18.66px en negrita) 3:1.',
+    example: `/* #767676 sobre blanco cumple 4.5:1; #999999 no */
+.nota { color: #595959; background: #ffffff; }`,
+    effort: 'low', wcag: ['1.4.3']
+  },
+  {
+    testName: 'Contraste de Colores', code: 'solo-color', match: /solo por color/,
+    title: 'No transmitir información solo con color',
+    explanation: 'Parece haber información que se distingue solo por el color (enlaces sin subrayado, estados en rojo o verde). Agregue texto, íconos o subrayado.',
+    example: `main a { text-decoration: underline; }
+<span class="estado error">✖ Rechazada</span>`,
+    effort: 'low', wcag: ['1.4.1']
+  },
+  {
+    testName: 'Contraste de Colores', code: 'general', title: 'Revisar los colores',
+    explanation: 'Verifique el contraste de textos y controles con una herramienta de contraste y no dependa solo del color para transmitir información.',
+    effort: 'low', wcag: ['1.4.3', '1.4.1']
+  },
+  {
+    testName: 'Etiquetas y Roles ARIA', code: 'landmarks', match: /roles de landmark/,
+    title: 'Definir las regiones de la página',
+    explanation: 'Faltan regiones (landmarks). Use <header>, <nav>, <main>, <aside> y <footer>, que los lectores de pantalla anuncian y permiten recorrer.',
+    example: `<header>...</header>
+<nav aria-label="Menú principal">...</nav>
+<main id="contenido">...</main>
+<footer>...</footer>`,
+    effort: 'low', wcag: ['1.3.1', '2.4.1']
+  },
+  {
+    testName: 'Etiquetas y Roles ARIA', code: 'aria-faltante', match: /atributos ARIA|etiquetas ARIA|roles ARIA/,
+    title: 'Completar los atributos ARIA de los componentes',
+    explanation: 'Los componentes personalizados (menús desplegables, pestañas, carruseles, modales) deben exponer su función y estado con role, aria-expanded, aria-controls y aria-label. Prefiera elementos HTML nativos cuando existan.',
+    example: `<button aria-expanded="false" aria-controls="submenu-servicios">Servicios</button>
+<ul id="submenu-servicios" hidden>...</ul>`,
+    effort: 'medium', wcag: ['4.1.2']
+  },
+  {
+    testName: 'Etiquetas y Roles ARIA', code: 'sin-nombre-accesible', match: /sin nombres accesibles/,
+    title: 'Dar nombre accesible a los controles',
+    explanation: 'Hay controles interactivos sin nombre. Agregue texto visible o aria-label a botones y enlaces de solo ícono.',
+    effort: 'low', wcag: ['4.1.2']
+  },
+  {
+    testName: 'Etiquetas y Roles ARIA', code: 'general', title: 'Revisar el uso de ARIA',
+    explanation: 'Use regiones HTML5 y, en componentes personalizados, los roles y estados ARIA que correspondan.',
+    effort: 'medium', wcag: ['1.3.1', '4.1.2']
+  },
+  {
+    testName: 'Accesibilidad de Formularios', code: 'campos-sin-etiqueta', match: /campos sin etiquetas/,
+    title: 'Asociar una etiqueta a cada campo',
+    explanation: 'Hay campos sin etiqueta asociada; el placeholder no sustituye a la etiqueta. Use <label for> o, si no hay espacio visual, aria-label.',
+    example: `<label for="correo">Correo electrónico</label>
+<input id="correo" type="email" name="correo" autocomplete="email">`,
+    effort: 'low', wcag: ['1.3.1', '3.3.2', '4.1.2']
+  },
+  {
+    testName: 'Accesibilidad de Formularios', code: 'requeridos', match: /campos requeridos/,
+    title: 'Indicar los campos obligatorios',
+    explanation: 'Marque los campos obligatorios en la etiqueta (no solo con color o un asterisco sin explicar) y con el atributo required.',
+    example: `<label for="nombre">Nombre <span aria-hidden="true">*</span><span class="sr-only">(obligatorio)</span></label>
+<input id="nombre" name="nombre" required>`,
+    effort: 'low', wcag: ['3.3.2']
+  },
+  {
+    testName: 'Accesibilidad de Formularios', code: 'sin-fieldset', match: /fieldsets/,
+    title: 'Agrupar los campos relacionados',
+    explanation: 'Los formularios largos y los grupos de opciones deben agruparse con <fieldset> y <legend>.',
+    example: `<fieldset>
+  <legend>Tipo de solicitud</legend>
+  <label><input type="radio" name="tipo" value="nueva"> Nueva</label>
+  <label><input type="radio" name="tipo" value="renovacion"> Renovación</label>
+</fieldset>`,
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: 'Accesibilidad de Formularios', code: 'general', title: 'Revisar la accesibilidad de los formularios',
+    explanation: 'Cada campo necesita una etiqueta asociada, los obligatorios deben indicarse en texto y los errores deben describirse junto al campo.',
+    effort: 'low', wcag: ['3.3.1', '3.3.2']
+  },
+  {
+    testName: 'Accesibilidad de Imágenes', code: 'imagenes-sin-alt', match: /sin atributo alt/,
+    title: 'Agregar texto alternativo a las imágenes',
+    explanation: 'Hay imágenes sin alt; los lectores de pantalla leen entonces el nombre del archivo. Describa la imagen o use alt="" si es decorativa.',
+    example: `<img src="mapa-oficinas.png" alt="Mapa con las 12 oficinas regionales del ministerio">`,
+    effort: 'low', wcag: ['1.1.1']
+  },
+  {
+    testName: 'Accesibilidad de Imágenes', code: 'alt-poco-descriptivo', match: /poco descriptivos/,
+    title: 'Escribir textos alternativos descriptivos',
+    explanation: 'Evite alt genéricos como "imagen" o "logo". Indique lo que la imagen comunica; en imágenes enlazadas, el destino del enlace.',
+    effort: 'low', wcag: ['1.1.1']
+  },
+  {
+    testName: 'Accesibilidad de Imágenes', code: 'sin-descripcion-larga', match: /descripciones largas/,
+    title: 'Describir las imágenes complejas',
+    explanation: 'Gráficos, infografías y mapas necesitan una descripción larga además del alt: un texto junto a la imagen o una tabla con los datos.',
+    example: `<figure>
+  <img src="presupuesto-2025.png" alt="Gráfico del presupuesto 2025 por programa" aria-describedby="desc-presupuesto">
+  <figcaption id="desc-presupuesto">Infraestructura vial: 45 %; edificaciones: 30 %; ...</figcaption>
+</figure>`,
+    effort: 'medium', wcag: ['1.1.1']
+  },
+  {
+    testName: 'Accesibilidad de Imágenes', code: 'general', title: 'Revisar las alternativas de las imágenes',
+    explanation: 'Toda imagen informativa necesita un alt descriptivo, las decorativas alt="" y las complejas una descripción larga.',
+    effort: 'low', wcag: ['1.1.1']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'doctype', match: /DOCTYPE/,
+    title: 'Declarar el DOCTYPE',
+    explanation: 'Sin DOCTYPE el navegador usa el modo de compatibilidad y la página puede mostrarse de forma distinta. Agréguelo como primera línea del documento.',
+    example: `<!DOCTYPE html>`,
+    effort: 'low', wcag: ['4.1.1']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'sin-lang', match: /atributo lang/,
+    title: 'Declarar el idioma de la página',
+    explanation: 'Sin el atributo lang los lectores de pantalla pueden leer el texto con la pronunciación de otro idioma.',
+    example: `<html lang="es-DO">`,
+    effort: 'low', wcag: ['3.1.1']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'sin-titulo', match: /t[ií]tulo del documento/,
+    title: 'Agregar el título del documento',
+    explanation: 'Agregue un <title> descriptivo; es lo primero que anuncia un lector de pantalla al abrir la página.',
+    example: `<title>Contacto | Ministerio de Obras Públicas y Comunicaciones</title>`,
+    effort: 'low', wcag: ['2.4.2']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'sin-main', match: /landmark main/,
+    title: 'Marcar el contenido principal con <main>',
+    explanation: 'Envuelva el contenido principal en un único <main> para que se pueda saltar directamente a él.',
+    example: `<main id="contenido">...</main>`,
+    effort: 'low', wcag: ['1.3.1', '2.4.1']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'sin-nav', match: /landmark navigation/,
+    title: 'Marcar la navegación con <nav>',
+    explanation: 'Coloque el menú principal dentro de <nav> con un aria-label que lo distinga de otras navegaciones.',
+    example: `<nav aria-label="Menú principal">...</nav>`,
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'jerarquia-encabezados', match: /Jerarqu[ií]a de encabezados/,
+    title: 'Respetar la jerarquía de encabezados',
+    explanation: 'Los lectores de pantalla usan los encabezados para recorrer la página; no omita niveles ni use encabezados solo por su tamaño.',
+    effort: 'low', wcag: ['1.3.1', '2.4.6']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'sin-enlace-salto', match: /enlaces de salto/,
+    title: 'Agregar un enlace "Saltar al contenido"',
+    explanation: 'Agregue un enlace al inicio de la página que lleve al <main>, visible al recibir el foco.',
+    example: `<a class="saltar" href="#contenido">Saltar al contenido principal</a>`,
+    effort: 'low', wcag: ['2.4.1']
+  },
+  {
+    testName: 'Estructura del Documento', code: 'general', title: 'Revisar la estructura del documento',
+    explanation: 'El documento debe declarar DOCTYPE, idioma y título, y organizarse con regiones (<header>, <nav>, <main>, <footer>) y encabezados en orden.',
+    effort: 'low', wcag: ['1.3.1', '3.1.1', '2.4.2']
+  },
+
+  // Auditoría axe-core: una entrada por regla frecuente en portales gubernamentales
+  {
+    testName: AXE_AUDIT_TEST, code: 'color-contrast', title: 'Aumentar el contraste del texto',
+    explanation: 'El texto no alcanza la relación de contraste mínima con su fondo: 4.5:1 para texto normal y 3:1 para texto grande. Oscurezca el texto o aclare el fondo.',
+    example: `.boton-secundario { color: #ffffff; background: #0b5394; } /* 7.3:1 */`,
+    effort: 'low', wcag: ['1.4.3']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'image-alt', title: 'Agregar texto alternativo a las imágenes',
+    explanation: 'La imagen no tiene alt, aria-label ni role="presentation". Describa la imagen o marque las decorativas con alt="".',
+    example: `<img src="director.jpg" alt="Retrato del director general">`,
+    effort: 'low', wcag: ['1.1.1']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'link-name', title: 'Dar texto a los enlaces',
+    explanation: 'El enlace no tiene texto accesible (suele ser un ícono o una imagen sin alt). Agregue texto, un alt a la imagen o aria-label.',
+    example: `<a href="https://x.com/institucion" aria-label="Cuenta de X de la institución"><i class="icon-x" aria-hidden="true"></i></a>`,
+    effort: 'low', wcag: ['2.4.4', '4.1.2']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'button-name', title: 'Dar texto a los botones',
+    explanation: 'El botón no tiene nombre accesible. Agregue texto visible o aria-label que describa la acción.',
+    example: `<button type="button" aria-label="Cerrar aviso">×</button>`,
+    effort: 'low', wcag: ['4.1.2']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'label', title: 'Asociar una etiqueta a cada campo',
+    explanation: 'El campo de formulario no tiene etiqueta. Use <label for> con el id del campo, o aria-label si la etiqueta no puede ser visible.',
+    example: `<label for="busqueda">Buscar</label>
+<input id="busqueda" type="search" name="q">`,
+    effort: 'low', wcag: ['1.3.1', '4.1.2']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'html-has-lang', title: 'Declarar el idioma de la página',
+    explanation: 'El elemento <html> no tiene atributo lang.',
+    example: `<html lang="es-DO">`,
+    effort: 'low', wcag: ['3.1.1']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'document-title', title: 'Agregar el título del documento',
+    explanation: 'La página no tiene un <title> con contenido.',
+    example: `<title>Servicios | Institución</title>`,
+    effort: 'low', wcag: ['2.4.2']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'heading-order', title: 'Respetar la jerarquía de encabezados',
+    explanation: 'Los encabezados saltan niveles. Ajuste el nivel del encabezado a su lugar en la estructura y controle el tamaño con CSS.',
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'region', title: 'Ubicar el contenido dentro de regiones',
+    explanation: 'Hay contenido fuera de las regiones de la página. Coloque todo el contenido dentro de <header>, <nav>, <main>, <aside> o <footer>.',
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'landmark-one-main', title: 'Marcar el contenido principal con <main>',
+    explanation: 'La página no tiene una región principal o tiene más de una.',
+    example: `<main id="contenido">...</main>`,
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'duplicate-id', title: 'Eliminar ids duplicados',
+    explanation: 'Varios elementos comparten el mismo id, lo que rompe las asociaciones de etiquetas y aria-labelledby. Cada id debe ser único en la página.',
+    effort: 'low', wcag: ['4.1.1']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'frame-title', title: 'Dar título a los iframes',
+    explanation: 'Los iframes (mapas, videos, formularios embebidos) necesitan un atributo title que describa su contenido.',
+    example: `<iframe src="https://www.google.com/maps/embed?..." title="Mapa de la sede principal"></iframe>`,
+    effort: 'low', wcag: ['4.1.2']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'aria-allowed-attr', title: 'Usar solo atributos ARIA permitidos',
+    explanation: 'El elemento usa atributos ARIA que no corresponden a su rol. Elimínelos o cambie el rol del elemento.',
+    effort: 'medium', wcag: ['4.1.2']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'list', title: 'Usar correctamente las listas',
+    explanation: 'Las listas <ul> y <ol> solo deben contener <li> (o <script>/<template>) como hijos directos.',
+    effort: 'low', wcag: ['1.3.1']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'meta-viewport', title: 'Permitir el zoom',
+    explanation: 'El viewport impide ampliar la página (user-scalable=no o maximum-scale bajo). Quite esas restricciones.',
+    example: `<meta name="viewport" content="width=device-width, initial-scale=1">`,
+    effort: 'low', wcag: ['1.4.4']
+  },
+  {
+    testName: AXE_AUDIT_TEST, code: 'general', title: 'Corregir las violaciones de WCAG 2.1',
+    explanation: 'Revise cada violación en la lista de violaciones de accesibilidad: indica el elemento afectado, su selector y un enlace a la guía de la regla. Corrija primero las de impacto crítico y grave.',
+    effort: 'medium', wcag: []
+  }
+];
+
+function toGuidance(entry: RemediationEntry): RemediationGuidance {
+  const declared = testerRegistry.list().flatMap(definition => definition.requirements[entry.testName] || []);
+  const requirementIds = Array.from(new Set([...declared, ...(entry.nortic || [])]));
+
+  return {
+    testName: entry.testName,
+    code: entry.code,
+    title: entry.title,
+    explanation: entry.explanation,
+    example: entry.example ?? null,
+    effort: entry.effort,
+    nortic: requirementIds
+      .map(id => REQUIREMENTS_CATALOG.find(requirement => requirement.id === id))
+      .filter((requirement): requirement is NonNullable<typeof requirement> => !!requirement)
+      .map(requirement => ({ id: requirement.id, title: requirement.title })),
+    wcag: entry.wcag
+      .filter(id => WCAG_CRITERIA[id])
+      .map(id => ({ id, title: WCAG_CRITERIA[id].title, url: `https://www.w3.org/WAI/WCAG21/Understanding/${WCAG_CRITERIA[id].slug}.html` }))
+  };
+}
+
+export function getRemediationCatalog(): RemediationGuidance[] {
+  return REMEDIATION_CATALOG.map(toGuidance);
+}
+
+// Code of the entry that applies to a test when no specific issue is recognized
+export const GENERAL_REMEDIATION_CODE = 'general';
+
+// The issues named in the test message (the violated rules for the axe audit), or else the test's general entry
+export function remediationForTest(test: TestResult): RemediationGuidance[] {
+  if (test.status !== 'failed' && test.status !== 'warning') return [];
+
+  const entries = REMEDIATION_CATALOG.filter(entry => entry.testName === test.test_name);
+  const violatedRules: string[] = test.test_name === AXE_AUDIT_TEST
+    ? (test.details?.violatedRules || []).map((rule: { id: string }) => rule.id)
+    : [];
+
+  const matched = entries.filter(entry =>
+    test.test_name === AXE_AUDIT_TEST ? violatedRules.includes(entry.code) : !!entry.match && entry.match.test(test.message || '')
+  );
+  const general = entries.filter(entry => !entry.match && entry.code === GENERAL_REMEDIATION_CODE);
+  return (matched.length > 0 ? matched : general).map(toGuidance);
+}
+
+export function remediationForViolation(violation: AccessibilityViolation): RemediationGuidance | null {
+  const entry = REMEDIATION_CATALOG.find(candidate => candidate.testName === AXE_AUDIT_TEST && candidate.code === violation.rule_id);
+  return entry ? toGuidance(entry) : null;
+}
@@ -0,0 +1,449 @@
+import { dbManager, AccessibilityViolation, AnalysisPage, CategoryScore, NorticAnalysis, TestResult } from '../models/database';
+import { normalizeDomain } from './institutions';
+import { isSuppressed } from './suppressions';
+
+export type ReportLanguage = 'es' | 'en';
+
+export const REPORT_LANGUAGES: ReportLanguage[] = ['es', 'en'];
+
+export interface ReportData {
+  analysis: NorticAnalysis;
+  institution: { name: string; acronym: string | null; sector: string | null } | null;
+  categories: CategoryScore[];
+  testResults: TestResult[];
+  violations: AccessibilityViolation[];
+  pages: AnalysisPage[];
+  generatedAt: string;
+}
+
+export type ReportDataResult =
+  | { valid: true; data: ReportData }
+  | { valid: false; reason: 'not_found' | 'not_completed'; error: string };
+
+export interface ReportRenderOptions {
+  // Printed reports (PDF) open every collapsible section and start with a cover page
+  print?: boolean;
+}
+
+const STRINGS = {
+  es: {
+    title: 'Informe de evaluación NORTIC A2',
+    country: 'República Dominicana',
+    subtitle: 'Norma sobre la Publicación de Información Gubernamental en Portales Web',
+    institution: 'Institución',
+    site: 'Sitio evaluado',
+    evaluatedOn: 'Fecha de evaluación',
+    generatedOn: 'Informe generado el',
+    overallScore: 'Puntuación general',
+    complianceLevel: 'Nivel de cumplimiento',
+    duration: 'Duración',
+    seconds: 's',
+    summary: 'Resumen',
+    categories: 'Resultados por categoría',
+    category: 'Categoría',
+    score: 'Puntuación',
+    status: 'Estado',
+    tests: 'Resultados de las pruebas',
+    test: 'Prueba',
+    message: 'Mensaje',
+    details: 'Detalles',
+    page: 'Página',
+    pages: 'Páginas evaluadas',
+    depth: 'Profundidad',
+    violations: 'Violaciones de accesibilidad',
+    noViolations: 'No se encontraron violaciones de accesibilidad.',
+    impact: 'Impacto',
+    selector: 'Selector',
+    html: 'HTML afectado',
+    moreInfo: 'Más información',
+    recommendations: 'Recomendaciones',
+    noRecommendations: 'Todas las pruebas fueron aprobadas. Se recomienda mantener las buenas prácticas y repetir la evaluación periódicamente.',
+    fixTest: 'Corregir',
+    reviewTest: 'Revisar',
+    fixViolation: 'Resolver las violaciones de la regla',
+    occurrences: 'ocurrencias',
+    suppressed: 'Suprimida hasta el',
+    expiredSuppression: 'Supresión vencida el',
+    statuses: { passed: 'Aprobada', warning: 'Advertencia', failed: 'Fallida', skipped: 'Omitida' } as { [status: string]: string },
+    impacts: { critical: 'Crítico', serious: 'Grave', moderate: 'Moderado', minor: 'Menor' } as { [impact: string]: string },
+    footer: 'Evaluación automatizada según la norma NORTIC A2. Los requisitos que no se verifican automáticamente requieren revisión manual.'
+  },
+  en: {
+    title: 'NORTIC A2 evaluation report',
+    country: 'Dominican Republic',
+    subtitle: 'Standard for the Publication of Government Information on Websites',
+    institution: 'Institution',
+    site: 'Evaluated site',
+    evaluatedOn: 'Evaluation date',
+    generatedOn: 'Report generated on',
+    overallScore: 'Overall score',
+    complianceLevel: 'Compliance level',
+    duration: 'Duration',
+    seconds: 's',
+    summary: 'Summary',
+    categories: 'Results by category',
+    category: 'Category',
+    score: 'Score',
+    status: 'Status',
+    tests: 'Test results',
+    test: 'Test',
+    message: 'Message',
+    details: 'Details',
+    page: 'Page',
+    pages: 'Evaluated pages',
+    depth: 'Depth',
+    violations: 'Accessibility violations',
+    noViolations: 'No accessibility violations were found.',
+    impact: 'Impact',
+    selector: 'Selector',
+    html: 'Affected HTML',
+    moreInfo: 'More information',
+    recommendations: 'Recommendations',
+    noRecommendations: 'Every test passed. Keep the current practices and repeat the evaluation periodically.',
+    fixTest: 'Fix',
+    reviewTest: 'Review',
+    fixViolation: 'Resolve the violations of rule',
+    occurrences: 'occurrences',
+    suppressed: 'Suppressed until',
+    expiredSuppression: 'Suppression expired on',
+    statuses: { passed: 'Passed', warning: 'Warning', failed: 'Failed', skipped: 'Skipped' } as { [status: string]: string },
+    impacts: { critical: 'Critical', serious: 'Serious', moderate: 'Moderate', minor: 'Minor' } as { [impact: string]: string },
+    footer: 'Automated evaluation against the NORTIC A2 standard. Requirements that cannot be verified automatically need a manual review.'
+  }
+};
+
+type ReportStrings = typeof STRINGS.es;
+
+const IMPACT_ORDER: AccessibilityViolation['impact'][] = ['critical', 'serious', 'moderate', 'minor'];
+
+const STATUS_COLORS: { [status: string]: string } = {
+  passed: '#15803d',
+  warning: '#b45309',
+  failed: '#b91c1c',
+  skipped: '#6b7280'
+};
+
+// Colores institucionales: azul y rojo de la bandera dominicana
+const STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; color: #1f2937; margin: 0; font-size: 12px; line-height: 1.45; }
+  main { max-width: 960px; margin: 0 auto; padding: 24px; }
+  header.band { background: #002d62; color: #fff; padding: 16px 24px; border-bottom: 6px solid #ce1126; }
+  header.band .country { font-size: 11px; letter-spacing: 2px; text-transform: uppercase; opacity: .85; }
+  header.band h1 { margin: 4px 0 0; font-size: 20px; }
+  h2 { color: #002d62; border-bottom: 2px solid #002d62; padding-bottom: 4px; margin: 28px 0 12px; font-size: 16px; }
+  h3 { color: #002d62; margin: 18px 0 8px; font-size: 14px; }
+  table { width: 100%; border-collapse: collapse; margin-bottom: 12px; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  th { background: #f3f4f6; font-weight: bold; }
+  .kpis { display: flex; gap: 12px; margin: 12px 0; }
+  .kpi { flex: 1; border: 1px solid #e5e7eb; border-radius: 6px; padding: 12px; text-align: center; }
+  .kpi .value { font-size: 26px; font-weight: bold; color: #002d62; }
+  .kpi .label { font-size: 10px; text-transform: uppercase; color: #6b7280; }
+  .badge { display: inline-block; padding: 1px 8px; border-radius: 9px; color: #fff; font-size: 11px; }
+  .bar { background: #e5e7eb; height: 8px; border-radius: 4px; overflow: hidden; }
+  .bar span { display: block; height: 100%; }
+  details { margin: 4px 0; }
+  summary { cursor: pointer; color: #002d62; }
+  pre, code { font-family: Consolas, "Courier New", monospace; font-size: 11px; }
+  pre { background: #f9fafb; border: 1px solid #e5e7eb; padding: 8px; white-space: pre-wrap; word-break: break-word; }
+  .muted { color: #6b7280; }
+  .violation { border-left: 4px solid #ce1126; padding: 4px 12px; margin-bottom: 12px; }
+  .violation.suppressed { border-left-color: #9ca3af; }
+  .suppression { margin-top: 4px; font-style: italic; color: #6b7280; }
+  .suppression.expired { color: #b91c1c; }
+  footer { margin-top: 32px; padding-top: 8px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 10px; }
+  .cover { height: 100vh; display: flex; flex-direction: column; justify-content: space-between; page-break-after: always; }
+  .cover .body { padding: 80px 48px; }
+  .cover .title { font-size: 30px; color: #002d62; font-weight: bold; margin-bottom: 8px; }
+  .cover .institution { font-size: 22px; margin: 48px 0 8px; }
+  .cover .meta { font-size: 13px; color: #374151; }
+  .cover .score { font-size: 64px; font-weight: bold; color: #002d62; margin-top: 48px; }
+  .cover .stripe { height: 24px; background: linear-gradient(90deg, #002d62 50%, #ce1126 50%); }
+  @media print {
+    main { padding: 0; max-width: none; }
+    h2 { page-break-after: avoid; }
+    tr, .violation { page-break-inside: avoid; }
+  }
+`;
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function formatDate(value: string | undefined, lang: ReportLanguage): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(lang === 'es' ? 'es-DO' : 'en-US', {
+    dateStyle: 'long',
+    timeStyle: 'short',
+    timeZone: 'America/Santo_Domingo'
+  });
+}
+
+function statusBadge(status: string, strings: ReportStrings): string {
+  return `<span class="badge" style="background:${STATUS_COLORS[status] || '#6b7280'}">${escapeHtml(strings.statuses[status] || status)}</span>`;
+}
+
+// Suppressed findings stay in the report with the accepted justification; expired ones count again
+function suppressionNote(finding: { suppression?: TestResult['suppression'] }, strings: ReportStrings): string {
+  const suppression = finding.suppression;
+  if (!suppression) return '';
+  const label = suppression.expired ? strings.expiredSuppression : strings.suppressed;
+  return `<div class="suppression${suppression.expired ? ' expired' : ''}">${escapeHtml(label)} ${escapeHtml(suppression.expires_at)} (${escapeHtml(suppression.author)}): ${escapeHtml(suppression.justification)}</div>`;
+}
+
+function scoreBar(score: number, status: string): string {
+  const width = Math.max(0, Math.min(100, score));
+  return `<div class="bar"><span style="width:${width}%;background:${STATUS_COLORS[status] || '#002d62'}"></span></div>`;
+}
+
+function institutionLabel(data: ReportData): string {
+  if (data.institution) {
+    return data.institution.acronym ? `${data.institution.name} (${data.institution.acronym})` : data.institution.name;
+  }
+  try {
+    return normalizeDomain(new URL(data.analysis.url).hostname);
+  } catch {
+    return data.analysis.url;
+  }
+}
+
+function renderCover(data: ReportData, strings: ReportStrings, lang: ReportLanguage): string {
+  return `
+  <section class="cover">
+    <header class="band">
+      <div class="country">${escapeHtml(strings.country)}</div>
+      <h1>${escapeHtml(strings.subtitle)}</h1>
+    </header>
+    <div class="body">
+      <div class="title">${escapeHtml(strings.title)}</div>
+      <div class="institution">${escapeHtml(institutionLabel(data))}</div>
+      <div class="meta">${escapeHtml(strings.site)}: ${escapeHtml(data.analysis.url)}</div>
+      <div class="meta">${escapeHtml(strings.evaluatedOn)}: ${escapeHtml(formatDate(data.analysis.end_time || data.analysis.start_time, lang))}</div>
+      ${data.institution?.sector ? `<div class="meta">${escapeHtml(data.institution.sector)}</div>` : ''}
+      <div class="score">${escapeHtml(data.analysis.overall_score ?? '–')}/100</div>
+      <div class="meta">${escapeHtml(strings.complianceLevel)}: <strong>${escapeHtml(data.analysis.compliance_level || '–')}</strong></div>
+    </div>
+    <div class="stripe"></div>
+  </section>`;
+}
+
+function renderSummary(data: ReportData, strings: ReportStrings, lang: ReportLanguage): string {
+  const counts = ['passed', 'warning', 'failed']
+    .map(status => `${escapeHtml(strings.statuses[status])}: ${data.testResults.filter(test => test.status === status).length}`)
+    .join(' · ');
+
+  return `
+  <h2>${escapeHtml(strings.summary)}</h2>
+  <table>
+    <tr><th>${escapeHtml(strings.institution)}</th><td>${escapeHtml(institutionLabel(data))}</td></tr>
+    <tr><th>${escapeHtml(strings.site)}</th><td>${escapeHtml(data.analysis.url)}</td></tr>
+    <tr><th>${escapeHtml(strings.evaluatedOn)}</th><td>${escapeHtml(formatDate(data.analysis.end_time || data.analysis.start_time, lang))}</td></tr>
+    <tr><th>${escapeHtml(strings.duration)}</th><td>${escapeHtml(data.analysis.duration ?? '–')} ${escapeHtml(strings.seconds)}</td></tr>
+  </table>
+  <div class="kpis">
+    <div class="kpi"><div class="value">${escapeHtml(data.analysis.overall_score ?? '–')}</div><div class="label">${escapeHtml(strings.overallScore)}</div></div>
+    <div class="kpi"><div class="value">${escapeHtml(data.analysis.compliance_level || '–')}</div><div class="label">${escapeHtml(strings.complianceLevel)}</div></div>
+    <div class="kpi"><div class="value">${data.testResults.length}</div><div class="label">${escapeHtml(strings.tests)}</div></div>
+  </div>
+  <p class="muted">${counts}</p>`;
+}
+
+function renderCategories(data: ReportData, strings: ReportStrings): string {
+  const rows = data.categories.map(category => `
+    <tr>
+      <td>${escapeHtml(category.label)}</td>
+      <td style="width:40%">${scoreBar(category.score, category.status)}</td>
+      <td>${escapeHtml(category.score)}/100</td>
+      <td>${statusBadge(category.status, strings)}</td>
+    </tr>`).join('');
+
+  return `
+  <h2>${escapeHtml(strings.categories)}</h2>
+  <table>
+    <tr><th>${escapeHtml(strings.category)}</th><th></th><th>${escapeHtml(strings.score)}</th><th>${escapeHtml(strings.status)}</th></tr>
+    ${rows}
+  </table>`;
+}
+
+function renderTests(data: ReportData, strings: ReportStrings, options: ReportRenderOptions): string {
+  const pageUrls = new Map(data.pages.map(page => [page.id, page.url]));
+  const groups = new Map<string, TestResult[]>();
+  for (const test of data.testResults) {
+    const group = groups.get(test.category) || [];
+    group.push(test);
+    groups.set(test.category, group);
+  }
+
+  const sections = Array.from(groups.entries()).map(([category, tests]) => {
+    const rows = tests.map(test => {
+      const page = test.page_id ? pageUrls.get(test.page_id) : null;
+      const details = test.details
+        ? `<details${options.print ? ' open' : ''}><summary>${escapeHtml(strings.details)}</summary><pre>${escapeHtml(JSON.stringify(test.details, null, 2))}</pre></details>`
+        : '';
+      return `
+      <tr>
+        <td>${escapeHtml(test.test_name)}${page ? `<div class="muted">${escapeHtml(strings.page)}: ${escapeHtml(page)}</div>` : ''}</td>
+        <td>${statusBadge(test.status, strings)}</td>
+        <td>${escapeHtml(test.score ?? '–')}</td>
+        <td>${escapeHtml(test.message || '')}${suppressionNote(test, strings)}${details}</td>
+      </tr>`;
+    }).join('');
+
+    return `
+    <h3>${escapeHtml(category)}</h3>
+    <table>
+      <tr><th style="width:24%">${escapeHtml(strings.test)}</th><th>${escapeHtml(strings.status)}</th><th>${escapeHtml(strings.score)}</th><th>${escapeHtml(strings.message)}</th></tr>
+      ${rows}
+    </table>`;
+  }).join('');
+
+  return `<h2>${escapeHtml(strings.tests)}</h2>${sections}`;
+}
+
+function renderPages(data: ReportData, strings: ReportStrings): string {
+  if (data.pages.length === 0) return '';
+
+  const rows = data.pages.map(page => `
+    <tr>
+      <td>${escapeHtml(page.url)}${page.error ? `<div class="muted">${escapeHtml(page.error)}</div>` : ''}</td>
+      <td>${escapeHtml(page.depth)}</td>
+      <td>${escapeHtml(page.score ?? '–')}</td>
+      <td>${statusBadge(page.status === 'completed' ? 'passed' : 'failed', strings)}</td>
+    </tr>`).join('');
+
+  return `
+  <h2>${escapeHtml(strings.pages)}</h2>
+  <table>
+    <tr><th>URL</th><th>${escapeHtml(strings.depth)}</th><th>${escapeHtml(strings.score)}</th><th>${escapeHtml(strings.status)}</th></tr>
+    ${rows}
+  </table>`;
+}
+
+function renderViolations(data: ReportData, strings: ReportStrings, options: ReportRenderOptions): string {
+  if (data.violations.length === 0) {
+    return `<h2>${escapeHtml(strings.violations)}</h2><p>${escapeHtml(strings.noViolations)}</p>`;
+  }
+
+  const pageUrls = new Map(data.pages.map(page => [page.id, page.url]));
+  const sorted = [...data.violations].sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact));
+  const items = sorted.map(violation => {
+    const page = violation.page_id ? pageUrls.get(violation.page_id) : null;
+    return `
+    <div class="violation${isSuppressed(violation) ? ' suppressed' : ''}">
+      <div><strong>${escapeHtml(violation.rule_id)}</strong> · ${escapeHtml(strings.impact)}: ${escapeHtml(strings.impacts[violation.impact] || violation.impact)}</div>
+      <div>${escapeHtml(violation.description)}</div>
+      ${page ? `<div class="muted">${escapeHtml(strings.page)}: ${escapeHtml(page)}</div>` : ''}
+      ${violation.selector ? `<div>${escapeHtml(strings.selector)}: <code>${escapeHtml(violation.selector)}</code></div>` : ''}
+      ${violation.html ? `<details${options.print ? ' open' : ''}><summary>${escapeHtml(strings.html)}</summary><pre>${escapeHtml(violation.html)}</pre></details>` : ''}
+      ${violation.help_url ? `<div><a href="${escapeHtml(violation.help_url)}">${escapeHtml(strings.moreInfo)}</a></div>` : ''}
+      ${suppressionNote(violation, strings)}
+    </div>`;
+  }).join('');
+
+  return `<h2>${escapeHtml(strings.violations)} (${data.violations.length})</h2>${items}`;
+}
+
+// Failed tests first, then warnings, then one line per accessibility rule by impact; accepted findings are left out
+function renderRecommendations(data: ReportData, strings: ReportStrings): string {
+  const items: string[] = [];
+
+  for (const status of ['failed', 'warning'] as const) {
+    for (const test of data.testResults.filter(result => result.status === status && !isSuppressed(result))) {
+      const verb = status === 'failed' ? strings.fixTest : strings.reviewTest;
+      items.push(`<li><strong>${escapeHtml(verb)}: ${escapeHtml(test.test_name)}</strong> (${escapeHtml(test.category)})${test.message ? ` — ${escapeHtml(test.message)}` : ''}</li>`);
+    }
+  }
+
+  const rules = new Map<string, AccessibilityViolation[]>();
+  for (const violation of data.violations.filter(violation => !isSuppressed(violation))) {
+    rules.set(violation.rule_id, [...(rules.get(violation.rule_id) || []), violation]);
+  }
+  const sortedRules = Array.from(rules.entries()).sort(([, a], [, b]) =>
+    IMPACT_ORDER.indexOf(a[0].impact) - IMPACT_ORDER.indexOf(b[0].impact)
+  );
+  for (const [ruleId, violations] of sortedRules) {
+    items.push(`<li><strong>${escapeHtml(strings.fixViolation)} ${escapeHtml(ruleId)}</strong> (${escapeHtml(strings.impacts[violations[0].impact] || violations[0].impact)}, ${violations.length} ${escapeHtml(strings.occurrences)}) — ${escapeHtml(violations[0].description)}</li>`);
+  }
+
+  return `
+  <h2>${escapeHtml(strings.recommendations)}</h2>
+  ${items.length > 0 ? `<ol>${items.join('')}</ol>` : `<p>${escapeHtml(strings.noRecommendations)}</p>`}`;
+}
+
+// Single self-contained document: inline CSS, no scripts and no requests back to the API
+export function renderReportHtml(data: ReportData, lang: ReportLanguage = 'es', options: ReportRenderOptions = {}): string {
+  const strings = STRINGS[lang];
+
+  return `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(strings.title)} - ${escapeHtml(institutionLabel(data))}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${options.print ? renderCover(data, strings, lang) : `
+<header class="band">
+  <div class="country">${escapeHtml(strings.country)}</div>
+  <h1>${escapeHtml(strings.title)}</h1>
+</header>`}
+<main>
+  ${renderSummary(data, strings, lang)}
+  ${renderCategories(data, strings)}
+  ${renderRecommendations(data, strings)}
+  ${renderTests(data, strings, options)}
+  ${renderPages(data, strings)}
+  ${renderViolations(data, strings, options)}
+  <footer>${escapeHtml(strings.footer)} ${escapeHtml(strings.generatedOn)} ${escapeHtml(formatDate(data.generatedAt, lang))}.</footer>
+</main>
+</body>
+</html>`;
+}
+
+export async function loadReportData(analysisId: string): Promise<ReportDataResult> {
+  const analysis = await dbManager.getAnalysis(analysisId);
+  if (!analysis) return { valid: false, reason: 'not_found', error: 'Analysis not found' };
+  if (analysis.status !== 'completed') {
+    return { valid: false, reason: 'not_completed', error: `Analysis is not completed. Status: ${analysis.status}` };
+  }
+
+  const [categories, testResults, violations, pages, institution] = await Promise.all([
+    dbManager.getCategoryScores(analysisId),
+    dbManager.getTestResults(analysisId),
+    dbManager.getAccessibilityViolations(analysisId),
+    dbManager.getAnalysisPages(analysisId),
+    analysis.institution_id ? dbManager.getInstitution(analysis.institution_id) : Promise.resolve(null)
+  ]);
+
+  return {
+    valid: true,
+    data: {
+      analysis,
+      institution: institution
+        ? { name: institution.name, acronym: institution.acronym ?? null, sector: institution.sector ?? null }
+        : null,
+      categories,
+      testResults,
+      violations,
+      pages,
+      generatedAt: new Date().toISOString()
+    }
+  };
+}
+
+// e.g. informe-nortic-mopc-2025-03-14.pdf, or the domain when the site has no registered institution
+export function reportFileName(data: ReportData, extension: 'pdf' | 'html' | 'junit.xml' | 'sarif'): string {
+  const label = data.institution?.acronym || (data.institution ? data.institution.name : institutionLabel(data));
+  const site = label.replace(/[^a-z0-9.-]+/gi, '-').replace(/^-+|-+$/g, '').toLowerCase();
+  const date = (data.analysis.end_time || data.analysis.start_time || '').slice(0, 10);
+  return `informe-nortic-${site}${date ? `-${date}` : ''}.${extension}`;
+}
@@ -0,0 +1,166 @@
+import { SuppressionMark, TestResult } from '../models/database';
+import { testerRegistry } from '../tests/registry';
+import { isSuppressed } from './suppressions';
+
+export interface NorticRequirement {
+  id: string;
+  chapter: number;
+  title: string;
+  description: string;
+  // 'manual': no hay prueba automática que lo respalde; debe revisarlo un auditor
+  verification: 'automated' | 'manual';
+}
+
+export type RequirementStatus = 'passed' | 'warning' | 'failed' | 'not_evaluated' | 'manual_review';
+
+export interface RequirementEvidence {
+  categoryId: string;
+  testName: string;
+  status: TestResult['status'];
+  score: number | null;
+  message: string | null;
+  pageId: number | null;
+  suppression: SuppressionMark | null;
+}
+
+export interface RequirementCompliance extends NorticRequirement {
+  status: RequirementStatus;
+  score: number | null;
+  coveredBy: { categoryId: string; testName: string }[];
+  evidence: RequirementEvidence[];
+}
+
+export interface RequirementsSummary {
+  total: number;
+  passed: number;
+  warning: number;
+  failed: number;
+  notEvaluated: number;
+  manualReview: number;
+}
+
+// Requisitos agrupados por capítulo, con la misma numeración de capítulos que usan los módulos de prueba
+export const REQUIREMENTS_CATALOG: NorticRequirement[] = [
+  { id: 'A2-2.1', chapter: 2, title: 'Tiempo de carga', description: 'Las páginas deben cargar en un tiempo razonable para el ciudadano.', verification: 'automated' },
+  { id: 'A2-2.2', chapter: 2, title: 'Adaptabilidad a dispositivos', description: 'El portal debe poder usarse en computadoras, tabletas y teléfonos.', verification: 'automated' },
+  { id: 'A2-2.3', chapter: 2, title: 'Navegación consistente', description: 'Los elementos de navegación deben mantenerse iguales en todo el portal.', verification: 'automated' },
+  { id: 'A2-2.4', chapter: 2, title: 'Compatibilidad con navegadores', description: 'El portal debe funcionar en los navegadores de uso común.', verification: 'automated' },
+  { id: 'A2-2.5', chapter: 2, title: 'Formularios usables', description: 'Los formularios deben tener campos identificados y una acción de envío clara.', verification: 'automated' },
+  { id: 'A2-2.6', chapter: 2, title: 'Buscador interno', description: 'El portal debe ofrecer un buscador de contenidos.', verification: 'automated' },
+  { id: 'A2-2.7', chapter: 2, title: 'Evaluación con usuarios', description: 'La institución debe validar la usabilidad del portal con usuarios reales.', verification: 'manual' },
+
+  { id: 'A2-3.1', chapter: 3, title: 'Encabezado institucional', description: 'El encabezado debe mostrar el logo y la identidad gubernamental.', verification: 'automated' },
+  { id: 'A2-3.2', chapter: 3, title: 'Pie de página', description: 'El pie de página debe incluir la información de contacto y los enlaces institucionales.', verification: 'automated' },
+  { id: 'A2-3.3', chapter: 3, title: 'Menú principal', description: 'Debe existir un menú principal de navegación visible.', verification: 'automated' },
+  { id: 'A2-3.4', chapter: 3, title: 'Área de contenido', description: 'El contenido principal debe estar claramente delimitado.', verification: 'automated' },
+  { id: 'A2-3.5', chapter: 3, title: 'Diseño adaptable', description: 'La disposición de la página debe adaptarse al tamaño de la pantalla.', verification: 'automated' },
+  { id: 'A2-3.6', chapter: 3, title: 'Manual de identidad', description: 'Colores, tipografías y logos deben seguir el manual de identidad gubernamental.', verification: 'manual' },
+
+  { id: 'A2-4.1', chapter: 4, title: 'Información institucional', description: 'Deben publicarse la misión, visión, historia y estructura de la institución.', verification: 'automated' },
+  { id: 'A2-4.2', chapter: 4, title: 'Servicios', description: 'Deben describirse los servicios que ofrece la institución.', verification: 'automated' },
+  { id: 'A2-4.3', chapter: 4, title: 'Transparencia', description: 'Debe existir una sección de transparencia accesible desde el portal.', verification: 'automated' },
+  { id: 'A2-4.4', chapter: 4, title: 'Noticias', description: 'Deben publicarse noticias y comunicaciones institucionales.', verification: 'automated' },
+  { id: 'A2-4.5', chapter: 4, title: 'Contacto', description: 'Deben publicarse teléfono, correo y dirección de la institución.', verification: 'automated' },
+  { id: 'A2-4.6', chapter: 4, title: 'Términos de uso y privacidad', description: 'Deben publicarse los términos de uso y la política de privacidad.', verification: 'automated' },
+  { id: 'A2-4.7', chapter: 4, title: 'Actualización de contenidos', description: 'Los contenidos deben revisarse y actualizarse periódicamente.', verification: 'manual' },
+  { id: 'A2-4.8', chapter: 4, title: 'Lenguaje claro', description: 'Los textos deben redactarse en lenguaje claro para el ciudadano.', verification: 'manual' },
+
+  { id: 'A2-5.1', chapter: 5, title: 'Conexión segura', description: 'El portal debe servirse por HTTPS con un certificado válido.', verification: 'automated' },
+  { id: 'A2-5.2', chapter: 5, title: 'Cabeceras de seguridad', description: 'El servidor debe enviar cabeceras de seguridad y una política de seguridad de contenido.', verification: 'automated' },
+  { id: 'A2-5.3', chapter: 5, title: 'Protección de formularios', description: 'Los formularios deben enviarse de forma segura y protegerse contra envíos automatizados.', verification: 'automated' },
+  { id: 'A2-5.4', chapter: 5, title: 'Cookies seguras', description: 'Las cookies deben usar los atributos Secure, HttpOnly y SameSite.', verification: 'automated' },
+  { id: 'A2-5.5', chapter: 5, title: 'Recursos externos', description: 'Los recursos de terceros deben cargarse por HTTPS y desde orígenes confiables.', verification: 'automated' },
+  { id: 'A2-5.6', chapter: 5, title: 'Respaldo y recuperación', description: 'La institución debe mantener copias de respaldo y un plan de recuperación del portal.', verification: 'manual' },
+
+  { id: 'A2-6.1', chapter: 6, title: 'Título de la página', description: 'Cada página debe tener un título único y descriptivo.', verification: 'automated' },
+  { id: 'A2-6.2', chapter: 6, title: 'Meta descripción', description: 'Cada página debe incluir una meta descripción.', verification: 'automated' },
+  { id: 'A2-6.3', chapter: 6, title: 'URLs amigables', description: 'Las direcciones deben ser legibles y descriptivas.', verification: 'automated' },
+  { id: 'A2-6.4', chapter: 6, title: 'Jerarquía de encabezados', description: 'Los encabezados deben seguir una jerarquía lógica.', verification: 'automated' },
+  { id: 'A2-6.5', chapter: 6, title: 'Texto alternativo', description: 'Las imágenes deben tener texto alternativo.', verification: 'automated' },
+  { id: 'A2-6.6', chapter: 6, title: 'Enlaces internos', description: 'El portal debe enlazar sus propias secciones de forma coherente.', verification: 'automated' },
+  { id: 'A2-6.7', chapter: 6, title: 'Registro en buscadores', description: 'El portal debe estar registrado en los principales motores de búsqueda.', verification: 'manual' },
+
+  { id: 'A2-7.1', chapter: 7, title: 'Alternativas textuales', description: 'Todo contenido no textual debe tener una alternativa en texto.', verification: 'automated' },
+  { id: 'A2-7.2', chapter: 7, title: 'Contraste', description: 'El texto debe tener contraste suficiente con el fondo.', verification: 'automated' },
+  { id: 'A2-7.3', chapter: 7, title: 'Acceso por teclado', description: 'Toda la funcionalidad debe poder usarse con el teclado.', verification: 'automated' },
+  { id: 'A2-7.4', chapter: 7, title: 'Formularios accesibles', description: 'Los campos de formulario deben tener etiquetas asociadas.', verification: 'automated' },
+  { id: 'A2-7.5', chapter: 7, title: 'Estructura y roles', description: 'La página debe usar regiones, encabezados y roles ARIA correctos.', verification: 'automated' },
+  { id: 'A2-7.6', chapter: 7, title: 'Conformidad WCAG 2.1 AA', description: 'El portal debe cumplir los criterios de conformidad WCAG 2.1 de nivel A y AA.', verification: 'automated' },
+  { id: 'A2-7.7', chapter: 7, title: 'Contenido multimedia', description: 'Los audios y videos deben tener subtítulos o transcripciones.', verification: 'manual' }
+];
+
+// Pruebas que respaldan cada requisito, según lo que declara cada módulo registrado
+export function getRequirementCoverage(): Map<string, { categoryId: string; testName: string }[]> {
+  const coverage = new Map<string, { categoryId: string; testName: string }[]>();
+
+  for (const definition of testerRegistry.list()) {
+    for (const [testName, requirementIds] of Object.entries(definition.requirements)) {
+      for (const requirementId of requirementIds) {
+        if (!coverage.has(requirementId)) {
+          coverage.set(requirementId, []);
+        }
+        coverage.get(requirementId)!.push({ categoryId: definition.id, testName });
+      }
+    }
+  }
+
+  return coverage;
+}
+
+const statusRank: { [status: string]: number } = { passed: 0, skipped: 0, warning: 1, failed: 2 };
+
+// The worst evidence decides the requirement status; categories that didn't run leave it not_evaluated
+export function evaluateRequirements(testResults: TestResult[]): {
+  summary: RequirementsSummary;
+  requirements: RequirementCompliance[];
+} {
+  const coverage = getRequirementCoverage();
+
+  const requirements = REQUIREMENTS_CATALOG.map(requirement => {
+    const coveredBy = coverage.get(requirement.id) || [];
+
+    const evidence: RequirementEvidence[] = testResults
+      .filter(result => coveredBy.some(test =>
+        test.testName === result.test_name && (result.category_id ? result.category_id === test.categoryId : true)
+      ))
+      .map(result => ({
+        categoryId: result.category_id || coveredBy.find(test => test.testName === result.test_name)!.categoryId,
+        testName: result.test_name,
+        status: result.status,
+        score: result.score ?? null,
+        message: result.message ?? null,
+        pageId: result.page_id ?? null,
+        suppression: result.suppression ?? null
+      }));
+    // Evidence with an active suppression is listed but does not decide the status or the score
+    const counted = evidence.filter(item => !isSuppressed(item));
+
+    let status: RequirementStatus;
+    if (requirement.verification === 'manual') {
+      status = 'manual_review';
+    } else if (evidence.length === 0) {
+      status = 'not_evaluated';
+    } else {
+      const worst = Math.max(0, ...counted.map(item => statusRank[item.status] ?? 2));
+      status = worst === 2 ? 'failed' : worst === 1 ? 'warning' : 'passed';
+    }
+
+    const scored = counted.filter(item => item.score !== null);
+    const score = scored.length > 0
+      ? Math.round(scored.reduce((sum, item) => sum + (item.score as number), 0) / scored.length)
+      : null;
+
+    return { ...requirement, status, score, coveredBy, evidence };
+  });
+
+  const summary: RequirementsSummary = {
+    total: requirements.length,
+    passed: requirements.filter(r => r.status === 'passed').length,
+    warning: requirements.filter(r => r.status === 'warning').length,
+    failed: requirements.filter(r => r.status === 'failed').length,
+    notEvaluated: requirements.filter(r => r.status === 'not_evaluated').length,
+    manualReview: requirements.filter(r => r.status === 'manual_review').length
+  };
+
+  return { summary, requirements };
+}
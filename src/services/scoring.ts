@@ -0,0 +1,155 @@
+import { ScoringProfile, TestResult } from '../models/database';
+import { testerRegistry } from '../tests/registry';
+
+export type ScoreStatus = 'passed' | 'warning' | 'failed';
+
+// Perfil usado cuando no se elige otro; reproduce el cálculo original (promedio simple, 80/60 y bandas 90/80/60)
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'default',
+  name: 'NORTIC A2 (predeterminado)',
+  description: 'Promedio simple de categorías y pruebas',
+  category_weights: {},
+  test_weights: {},
+  thresholds: { passed: 80, warning: 60 },
+  compliance_bands: [
+    { min_score: 90, label: 'Excelente' },
+    { min_score: 80, label: 'Cumple' },
+    { min_score: 60, label: 'Parcial' },
+    { min_score: 0, label: 'No Cumple' }
+  ],
+  is_default: true
+};
+
+export type ScoringProfileInput = Partial<Omit<ScoringProfile, 'created_at' | 'updated_at'>>;
+
+export type ScoringProfileValidation =
+  | { valid: true; profile: Omit<ScoringProfile, 'created_at' | 'updated_at'> }
+  | { valid: false; errors: string[] };
+
+export function statusForScore(score: number, profile: ScoringProfile): ScoreStatus {
+  if (score >= profile.thresholds.passed) return 'passed';
+  if (score >= profile.thresholds.warning) return 'warning';
+  return 'failed';
+}
+
+export function complianceLevelFor(score: number, profile: ScoringProfile): string {
+  const bands = [...profile.compliance_bands].sort((a, b) => b.min_score - a.min_score);
+  const band = bands.find(b => score >= b.min_score);
+  return band ? band.label : bands[bands.length - 1].label;
+}
+
+const weightOf = (weights: { [key: string]: number }, key: string): number =>
+  weights[key] !== undefined ? weights[key] : 1;
+
+// Sin pesos por prueba se respeta la puntuación del módulo (usabilidad usa proporción de aprobadas);
+// con supresiones vigentes se pasa `rescore`, el mismo método del módulo, aplicado solo a las pruebas que siguen contando
+export function weightedCategoryScore(
+  testerScore: number,
+  tests: TestResult[],
+  profile: ScoringProfile,
+  rescore: ((tests: TestResult[]) => number) | null = null
+): number {
+  const scored = tests.filter(test => !test.suppression || test.suppression.expired);
+  const weighted = scored.filter(test => profile.test_weights[test.test_name] !== undefined);
+  if (weighted.length === 0) {
+    if (!rescore) return testerScore;
+    return scored.length > 0 ? rescore(scored) : 100;
+  }
+
+  let total = 0;
+  let weightSum = 0;
+  for (const test of scored) {
+    const weight = weightOf(profile.test_weights, test.test_name);
+    total += (test.score || 0) * weight;
+    weightSum += weight;
+  }
+  return weightSum > 0 ? Math.round(total / weightSum) : 0;
+}
+
+export function weightedOverallScore(categoryScores: { [categoryId: string]: number }, profile: ScoringProfile): number {
+  let total = 0;
+  let weightSum = 0;
+  for (const [categoryId, score] of Object.entries(categoryScores)) {
+    const weight = weightOf(profile.category_weights, categoryId);
+    total += score * weight;
+    weightSum += weight;
+  }
+  return weightSum > 0 ? Math.round(total / weightSum) : 0;
+}
+
+const isWeight = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+const isPercent = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 100;
+
+// Completes missing fields from the default profile and normalizes category aliases to canonical ids
+export function validateScoringProfile(input: ScoringProfileInput): ScoringProfileValidation {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object') {
+    return { valid: false, errors: ['Profile must be an object'] };
+  }
+
+  const id = typeof input.id === 'string' ? input.id.trim() : '';
+  if (!/^[a-z0-9][a-z0-9_-]*$/i.test(id)) {
+    errors.push('id is required and may only contain letters, numbers, "-" and "_"');
+  }
+
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    errors.push('name is required');
+  }
+
+  const categoryWeights: { [categoryId: string]: number } = {};
+  for (const [key, weight] of Object.entries(input.category_weights || {})) {
+    const definition = testerRegistry.get(key);
+    if (!definition) {
+      errors.push(`Unknown category in category_weights: ${key}`);
+    } else if (!isWeight(weight)) {
+      errors.push(`Weight for category ${key} must be a number >= 0`);
+    } else {
+      categoryWeights[definition.id] = weight;
+    }
+  }
+
+  const testWeights: { [testName: string]: number } = {};
+  for (const [testName, weight] of Object.entries(input.test_weights || {})) {
+    if (!isWeight(weight)) {
+      errors.push(`Weight for test "${testName}" must be a number >= 0`);
+    } else {
+      testWeights[testName] = weight;
+    }
+  }
+
+  const thresholds = input.thresholds || DEFAULT_SCORING_PROFILE.thresholds;
+  if (!isPercent(thresholds.passed) || !isPercent(thresholds.warning)) {
+    errors.push('thresholds.passed and thresholds.warning must be numbers between 0 and 100');
+  } else if (thresholds.warning > thresholds.passed) {
+    errors.push('thresholds.warning cannot be higher than thresholds.passed');
+  }
+
+  const complianceBands = input.compliance_bands || DEFAULT_SCORING_PROFILE.compliance_bands;
+  if (!Array.isArray(complianceBands) || complianceBands.length === 0) {
+    errors.push('compliance_bands must include at least one band');
+  } else if (complianceBands.some(band => !band || !isPercent(band.min_score) || typeof band.label !== 'string' || !band.label.trim())) {
+    errors.push('Each compliance band needs a min_score between 0 and 100 and a label');
+  } else if (!complianceBands.some(band => band.min_score === 0)) {
+    errors.push('compliance_bands must include a band with min_score 0');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    profile: {
+      id,
+      name,
+      description: input.description || null,
+      category_weights: categoryWeights,
+      test_weights: testWeights,
+      thresholds: { passed: thresholds.passed, warning: thresholds.warning },
+      compliance_bands: complianceBands.map(band => ({ min_score: band.min_score, label: band.label.trim() })),
+      is_default: !!input.is_default
+    }
+  };
+}
@@ -0,0 +1,220 @@
+import { BrowserContext, Page } from 'playwright';
+import { Logger } from './logger';
+
+export interface CrawlOptions {
+  maxPages?: number;
+  maxDepth?: number;
+  sameOrigin?: boolean;
+  include?: string[];
+  exclude?: string[];
+  useSitemap?: boolean;
+}
+
+export interface CrawlEntry {
+  url: string;
+  depth: number;
+  source: 'start' | 'link' | 'sitemap';
+}
+
+const DEFAULT_MAX_PAGES = 10;
+const DEFAULT_MAX_DEPTH = 2;
+const MAX_PAGES_LIMIT = 100;
+const MAX_DEPTH_LIMIT = 10;
+const MAX_SITEMAPS = 5;
+
+// Enlaces a documentos y recursos que no son páginas HTML
+const NON_HTML_EXTENSIONS = /\.(pdf|docx?|xlsx?|pptx?|zip|rar|7z|jpe?g|png|gif|svg|webp|ico|mp3|mp4|avi|mov|css|js|json|xml|txt|csv)$/i;
+
+// Convierte un patrón con comodines (*) en expresión regular sobre ruta + query
+const toPattern = (pattern: string): RegExp => {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+};
+
+const stripWww = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+export type CrawlOptionsValidation =
+  | { valid: true; crawl: CrawlOptions }
+  | { valid: false; errors: string[] };
+
+// Rechaza opciones que el rastreador no puede usar, antes de encolar el análisis
+export function validateCrawlOptions(raw: unknown): CrawlOptionsValidation {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { valid: false, errors: ['crawl must be an object'] };
+  }
+
+  const options = raw as { [key: string]: unknown };
+  const errors: string[] = [];
+
+  const checkInteger = (key: 'maxPages' | 'maxDepth', min: number, max: number) => {
+    const value = options[key];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < min || (value as number) > max)) {
+      errors.push(`${key} must be an integer between ${min} and ${max}`);
+    }
+  };
+  checkInteger('maxPages', 1, MAX_PAGES_LIMIT);
+  checkInteger('maxDepth', 0, MAX_DEPTH_LIMIT);
+
+  for (const key of ['sameOrigin', 'useSitemap']) {
+    if (options[key] !== undefined && typeof options[key] !== 'boolean') {
+      errors.push(`${key} must be a boolean`);
+    }
+  }
+
+  // Los patrones solo admiten el comodín *, así que cualquier texto no vacío produce una expresión válida
+  for (const key of ['include', 'exclude']) {
+    const patterns = options[key];
+    if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || !pattern.trim()))) {
+      errors.push(`${key} must be an array of non-empty path patterns`);
+    }
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return { valid: true, crawl: options as CrawlOptions };
+}
+
+export class SiteCrawler {
+  private context: BrowserContext;
+  private startUrl: URL;
+  private maxPages: number;
+  readonly maxDepth: number;
+  private sameOrigin: boolean;
+  private useSitemap: boolean;
+  private include: RegExp[];
+  private exclude: RegExp[];
+  private queue: CrawlEntry[] = [];
+  private seen: Set<string> = new Set();
+  private dispatched = 0;
+  private logger: Logger;
+
+  constructor(context: BrowserContext, startUrl: string, options: CrawlOptions = {}, logger: Logger = console) {
+    this.context = context;
+    this.logger = logger;
+    this.startUrl = new URL(startUrl);
+    this.maxPages = Math.min(Math.max(1, Math.floor(options.maxPages || DEFAULT_MAX_PAGES)), MAX_PAGES_LIMIT);
+    this.maxDepth = Math.max(0, Math.floor(options.maxDepth ?? DEFAULT_MAX_DEPTH));
+    this.sameOrigin = options.sameOrigin !== false;
+    this.useSitemap = options.useSitemap !== false;
+    this.include = (options.include || []).map(toPattern);
+    this.exclude = (options.exclude || []).map(toPattern);
+
+    // La página inicial siempre se analiza, aunque no cumpla los patrones
+    const start = this.normalize(startUrl);
+    if (start) {
+      this.seen.add(start);
+      this.queue.push({ url: start, depth: 0, source: 'start' });
+    }
+  }
+
+  // Páginas que se analizarán como máximo con lo descubierto hasta ahora
+  plannedPages(): number {
+    return Math.min(this.maxPages, this.dispatched + this.queue.length);
+  }
+
+  next(): CrawlEntry | null {
+    if (this.dispatched >= this.maxPages) return null;
+    const entry = this.queue.shift();
+    if (!entry) return null;
+    this.dispatched++;
+    return entry;
+  }
+
+  addUrls(urls: string[], depth: number, source: CrawlEntry['source']): number {
+    if (depth > this.maxDepth) return 0;
+
+    let added = 0;
+    for (const raw of urls) {
+      const url = this.normalize(raw);
+      if (!url || this.seen.has(url) || !this.isInScope(url)) continue;
+      this.seen.add(url);
+      this.queue.push({ url, depth, source });
+      added++;
+    }
+    return added;
+  }
+
+  async discoverSitemap(): Promise<number> {
+    if (!this.useSitemap) return 0;
+
+    const sitemapUrls = new Set<string>([`${this.startUrl.origin}/sitemap.xml`]);
+
+    // robots.txt puede declarar sitemaps en otra ubicación
+    try {
+      const robots = await this.context.request.get(`${this.startUrl.origin}/robots.txt`, { timeout: 15000 });
+      if (robots.ok()) {
+        const text = await robots.text();
+        for (const match of text.matchAll(/^\s*sitemap:\s*(\S+)/gim)) {
+          sitemapUrls.add(match[1]);
+        }
+      }
+    } catch {
+      // Sin robots.txt: se intenta solo /sitemap.xml
+    }
+
+    const pending = Array.from(sitemapUrls);
+    const pageUrls: string[] = [];
+    let fetched = 0;
+
+    while (pending.length > 0 && fetched < MAX_SITEMAPS) {
+      const sitemapUrl = pending.shift()!;
+      fetched++;
+      try {
+        const response = await this.context.request.get(sitemapUrl, { timeout: 15000 });
+        if (!response.ok()) continue;
+
+        const xml = await response.text();
+        const locations = Array.from(xml.matchAll(/<loc>\s*([^<]+?)\s*<\/loc>/gi))
+          .map(match => match[1].replace(/&amp;/g, '&'));
+
+        // Un índice de sitemaps apunta a otros sitemaps, no a páginas
+        if (/<sitemapindex[\s>]/i.test(xml)) {
+          pending.push(...locations);
+        } else {
+          pageUrls.push(...locations);
+        }
+      } catch (error: any) {
+        this.logger.log(`[WARNING] Could not read sitemap ${sitemapUrl}: ${error.message || error}`);
+      }
+    }
+
+    return this.addUrls(pageUrls, Math.min(1, this.maxDepth), 'sitemap');
+  }
+
+  static async extractLinks(page: Page): Promise<string[]> {
+    return page.evaluate(() =>
+      Array.from(document.querySelectorAll('a[href]'))
+        .map(anchor => (anchor as HTMLAnchorElement).href)
+        .filter(Boolean)
+    );
+  }
+
+  private normalize(raw: string): string | null {
+    try {
+      const url = new URL(raw, this.startUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+      if (NON_HTML_EXTENSIONS.test(url.pathname)) return null;
+      url.hash = '';
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private isInScope(url: string): boolean {
+    const parsed = new URL(url);
+
+    if (this.sameOrigin) {
+      if (parsed.protocol !== this.startUrl.protocol) return false;
+      if (stripWww(parsed.host) !== stripWww(this.startUrl.host)) return false;
+    }
+
+    const path = `${parsed.pathname}${parsed.search}`;
+    if (this.include.length > 0 && !this.include.some(pattern => pattern.test(path))) return false;
+    if (this.exclude.some(pattern => pattern.test(path))) return false;
+
+    return true;
+  }
+}
@@ -0,0 +1,206 @@
+import { AccessibilityViolation, Suppression, SuppressionMark, TestResult } from '../models/database';
+import { AXE_AUDIT_TEST, axeAuditOutcome } from '../tests/accessibility';
+import { normalizeAnalysisUrl } from './trends';
+
+export type SuppressionInput = Partial<Omit<Suppression, 'id' | 'created_at' | 'updated_at'>>;
+
+export type SuppressionValidation =
+  | { valid: true; suppression: Omit<Suppression, 'id' | 'created_at' | 'updated_at'> }
+  | { valid: false; errors: string[] };
+
+const IMPACT_ORDER: AccessibilityViolation['impact'][] = ['critical', 'serious', 'moderate', 'minor'];
+
+// A bare "mopc.gob.do/servicios" is read as an https URL
+export function normalizeSuppressionUrl(value: string): string | null {
+  const trimmed = value.trim();
+  return normalizeAnalysisUrl(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+}
+
+// expires_at is the last day the suppression applies (UTC)
+export function isSuppressionExpired(suppression: Pick<Suppression, 'expires_at'>, now: Date = new Date()): boolean {
+  return suppression.expires_at < now.toISOString().slice(0, 10);
+}
+
+// API representation: the stored rule plus whether it has already expired
+export function withExpiry<T extends Suppression>(suppression: T): T & { expired: boolean } {
+  return { ...suppression, expired: isSuppressionExpired(suppression) };
+}
+
+// Only active suppressions take a finding out of the score; expired ones are kept as a marker
+export function isSuppressed(finding: { suppression?: SuppressionMark | null }): boolean {
+  return !!finding.suppression && !finding.suppression.expired;
+}
+
+const optionalText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+// Missing fields are taken from the existing suppression when updating; a new expires_at may be today but not earlier
+export function validateSuppression(input: SuppressionInput, existing?: Suppression, now: Date = new Date()): SuppressionValidation {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object') {
+    return { valid: false, errors: ['Suppression must be an object'] };
+  }
+
+  const pick = <K extends keyof SuppressionInput>(key: K) => (input[key] !== undefined ? input[key] : existing?.[key]);
+
+  const rawInstitutionId = pick('institution_id');
+  const institutionId = rawInstitutionId === null || rawInstitutionId === undefined ? null : Number(rawInstitutionId);
+  if (institutionId !== null && (!Number.isInteger(institutionId) || institutionId <= 0)) {
+    errors.push('institution_id must be a positive integer');
+  }
+
+  const rawUrl = optionalText(pick('url'));
+  const url = rawUrl ? normalizeSuppressionUrl(rawUrl) : null;
+  if (rawUrl && !url) {
+    errors.push(`Invalid url: ${rawUrl}`);
+  }
+
+  if ((institutionId === null) === (rawUrl === null)) {
+    errors.push('Exactly one of institution_id or url is required');
+  }
+
+  const testName = optionalText(pick('test_name'));
+  const ruleId = optionalText(pick('rule_id'));
+  const selector = optionalText(pick('selector'));
+  if (testName && (ruleId || selector)) {
+    errors.push('test_name cannot be combined with rule_id or selector');
+  } else if (!testName && !ruleId && !selector) {
+    errors.push('One of test_name, rule_id or selector is required');
+  }
+
+  const justification = optionalText(pick('justification'));
+  if (!justification) {
+    errors.push('justification is required');
+  }
+
+  const author = optionalText(pick('author'));
+  if (!author) {
+    errors.push('author is required');
+  }
+
+  const expiresAt = optionalText(pick('expires_at'));
+  if (!expiresAt || !/^\d{4}-\d{2}-\d{2}$/.test(expiresAt) || Number.isNaN(new Date(`${expiresAt}T00:00:00Z`).getTime())) {
+    errors.push('expires_at must be a date (YYYY-MM-DD)');
+  } else if (input.expires_at !== undefined && isSuppressionExpired({ expires_at: expiresAt }, now)) {
+    // An update that keeps the stored date may still edit a suppression that has since expired
+    errors.push('expires_at cannot be in the past');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    suppression: {
+      institution_id: institutionId,
+      url,
+      test_name: testName,
+      rule_id: ruleId,
+      selector,
+      justification: justification as string,
+      author: author as string,
+      expires_at: expiresAt as string
+    }
+  };
+}
+
+// Institution suppressions come pre-filtered by the analysis' institution; URL ones cover the page and everything below it
+function appliesToPage(suppression: Suppression, pageUrl: string): boolean {
+  if (!suppression.url) return true;
+  const page = normalizeAnalysisUrl(pageUrl);
+  return !!page && (page === suppression.url || page.startsWith(`${suppression.url}/`));
+}
+
+function matchesTest(suppression: Suppression, test: TestResult): boolean {
+  return !!suppression.test_name && suppression.test_name === test.test_name;
+}
+
+function matchesViolation(suppression: Suppression, violation: AccessibilityViolation): boolean {
+  return !suppression.test_name &&
+    (!suppression.rule_id || suppression.rule_id === violation.rule_id) &&
+    (!suppression.selector || suppression.selector === violation.selector);
+}
+
+// An active match wins over an expired one
+function findMark(suppressions: Suppression[], matches: (suppression: Suppression) => boolean, now: Date): SuppressionMark | null {
+  const matching = suppressions.filter(matches);
+  const suppression = matching.find(candidate => !isSuppressionExpired(candidate, now)) || matching[0];
+  if (!suppression) return null;
+
+  return {
+    id: suppression.id,
+    justification: suppression.justification,
+    author: suppression.author,
+    expires_at: suppression.expires_at,
+    expired: isSuppressionExpired(suppression, now)
+  };
+}
+
+// The axe audit penalizes each violated rule once; a rule stops counting when all its elements are suppressed
+function rescoreAxeAudit(test: TestResult, violations: AccessibilityViolation[]): TestResult {
+  const remaining = violations.filter(violation => !isSuppressed(violation));
+  const suppressedCount = violations.length - remaining.length;
+
+  const ruleImpacts = new Map<string, string>();
+  for (const violation of remaining) {
+    const ruleImpact = test.details?.violatedRules?.find((rule: { id: string }) => rule.id === violation.rule_id)?.impact;
+    const current = ruleImpacts.get(violation.rule_id);
+    const impact = ruleImpact || violation.impact;
+    if (!current || IMPACT_ORDER.indexOf(impact) < IMPACT_ORDER.indexOf(current as AccessibilityViolation['impact'])) {
+      ruleImpacts.set(violation.rule_id, impact);
+    }
+  }
+
+  const { score, status } = axeAuditOutcome(Array.from(ruleImpacts.values()));
+  return {
+    ...test,
+    score,
+    status,
+    message: `${test.message} (${suppressedCount} ${suppressedCount === 1 ? 'elemento suprimido' : 'elementos suprimidos'})`,
+    details: { ...test.details, suppressedElements: suppressedCount }
+  };
+}
+
+/**
+ * Marks the failed and warning tests and the axe violations of one page that match a suppression.
+ * `changed` tells the caller that the category score has to be recomputed without the suppressed findings.
+ */
+export function applySuppressions(
+  suppressions: Suppression[],
+  pageUrl: string,
+  tests: TestResult[],
+  violations: AccessibilityViolation[],
+  now: Date = new Date()
+): { tests: TestResult[]; violations: AccessibilityViolation[]; changed: boolean } {
+  const candidates = suppressions.filter(suppression => appliesToPage(suppression, pageUrl));
+  if (candidates.length === 0) {
+    return { tests, violations, changed: false };
+  }
+
+  const markedViolations = violations.map(violation => {
+    const suppression = findMark(candidates, candidate => matchesViolation(candidate, violation), now);
+    return suppression ? { ...violation, suppression } : violation;
+  });
+
+  let rescored = false;
+  const markedTests = tests.map(test => {
+    if (test.status === 'failed' || test.status === 'warning') {
+      const suppression = findMark(candidates, candidate => matchesTest(candidate, test), now);
+      if (suppression) test = { ...test, suppression };
+    }
+
+    if (test.test_name === AXE_AUDIT_TEST && !isSuppressed(test) && markedViolations.some(isSuppressed)) {
+      rescored = true;
+      return rescoreAxeAudit(test, markedViolations);
+    }
+    return test;
+  });
+
+  return {
+    tests: markedTests,
+    violations: markedViolations,
+    changed: rescored || markedTests.some(isSuppressed)
+  };
+}
@@ -0,0 +1,143 @@
+import { dbManager, ScoreHistoryEntry } from '../models/database';
+import { normalizeDomain } from './institutions';
+
+export type TrendGrouping = 'day' | 'week' | 'month';
+
+export const TREND_GROUPINGS: TrendGrouping[] = ['day', 'week', 'month'];
+
+export interface TrendPoint {
+  // 2025-03-14, 2025-W11 or 2025-03
+  period: string;
+  // First day of the period (UTC); weeks start on Monday
+  start: string;
+  analysisCount: number;
+  // Averages of the analyses completed in the period, rounded
+  overallScore: number | null;
+  minScore: number | null;
+  maxScore: number | null;
+  categories: { [categoryId: string]: number };
+  latestAnalysisId: string;
+}
+
+export interface ScoreTrend {
+  institution: { id: number; name: string; acronym: string | null } | null;
+  url: string | null;
+  groupBy: TrendGrouping;
+  categories: { categoryId: string; label: string }[];
+  points: TrendPoint[];
+}
+
+export type TrendSubject = { institutionId: number } | { url: string };
+
+// Same page regardless of scheme, "www.", port, query or trailing slash: mopc.gob.do/servicios
+export function normalizeAnalysisUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (!['http:', 'https:'].includes(parsed.protocol)) return null;
+    return normalizeDomain(parsed.hostname) + parsed.pathname.replace(/\/+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function periodOf(timestamp: string, groupBy: TrendGrouping): { period: string; start: string } {
+  const date = new Date(timestamp);
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+  if (groupBy === 'day') {
+    return { period: isoDate(day), start: isoDate(day) };
+  }
+
+  if (groupBy === 'month') {
+    const start = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+    return { period: isoDate(start).slice(0, 7), start: isoDate(start) };
+  }
+
+  // ISO 8601 week: the week belongs to the year of its Thursday
+  const monday = new Date(day);
+  monday.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  const thursday = new Date(monday);
+  thursday.setUTCDate(monday.getUTCDate() + 3);
+  const firstOfYear = new Date(Date.UTC(thursday.getUTCFullYear(), 0, 1));
+  const week = Math.floor((thursday.getTime() - firstOfYear.getTime()) / (7 * 24 * 60 * 60 * 1000)) + 1;
+  return { period: `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`, start: isoDate(monday) };
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+function buildPoints(entries: ScoreHistoryEntry[], groupBy: TrendGrouping): TrendPoint[] {
+  const groups = new Map<string, { start: string; entries: ScoreHistoryEntry[] }>();
+  for (const entry of entries) {
+    const { period, start } = periodOf(entry.completed_at, groupBy);
+    const group = groups.get(period) || { start, entries: [] };
+    group.entries.push(entry);
+    groups.set(period, group);
+  }
+
+  return Array.from(groups.entries()).map(([period, group]) => {
+    const scores = group.entries
+      .map(entry => entry.overall_score)
+      .filter((score): score is number => score !== null && score !== undefined);
+
+    const categoryIds = new Set(group.entries.flatMap(entry => Object.keys(entry.categories)));
+    const categories: { [categoryId: string]: number } = {};
+    for (const categoryId of categoryIds) {
+      categories[categoryId] = average(
+        group.entries.filter(entry => entry.categories[categoryId]).map(entry => entry.categories[categoryId].score)
+      ) as number;
+    }
+
+    return {
+      period,
+      start: group.start,
+      analysisCount: group.entries.length,
+      overallScore: average(scores),
+      minScore: scores.length > 0 ? Math.min(...scores) : null,
+      maxScore: scores.length > 0 ? Math.max(...scores) : null,
+      categories,
+      latestAnalysisId: group.entries[group.entries.length - 1].analysis_id
+    };
+  });
+}
+
+// Null when the institution does not exist; periods without completed analyses are left out
+export async function getScoreTrend(
+  subject: TrendSubject,
+  groupBy: TrendGrouping,
+  range: { dateFrom?: string; dateTo?: string } = {}
+): Promise<ScoreTrend | null> {
+  let entries: ScoreHistoryEntry[];
+  let institution: ScoreTrend['institution'] = null;
+  let url: string | null = null;
+
+  if ('institutionId' in subject) {
+    const found = await dbManager.getInstitution(subject.institutionId);
+    if (!found) return null;
+    institution = { id: found.id, name: found.name, acronym: found.acronym ?? null };
+    entries = await dbManager.getScoreHistory({ institutionId: found.id, ...range });
+  } else {
+    url = normalizeAnalysisUrl(subject.url);
+    entries = url
+      ? (await dbManager.getScoreHistory({ urlContains: url.split('/')[0], ...range }))
+          .filter(entry => normalizeAnalysisUrl(entry.url) === url)
+      : [];
+  }
+
+  const labels = new Map<string, string>();
+  for (const entry of entries) {
+    for (const [categoryId, category] of Object.entries(entry.categories)) {
+      labels.set(categoryId, category.label);
+    }
+  }
+
+  return {
+    institution,
+    url,
+    groupBy,
+    categories: Array.from(labels.entries()).map(([categoryId, label]) => ({ categoryId, label })),
+    points: buildPoints(entries, groupBy)
+  };
+}
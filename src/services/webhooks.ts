@@ -0,0 +1,251 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { dbManager, NorticAnalysis, Webhook, WebhookEvent, WebhookRetry } from '../models/database';
+import { norticAnalyzer, AnalysisResult, ProgressUpdate } from './nortic-analyzer';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = ['analysis.completed', 'analysis.failed', 'analysis.cancelled'];
+
+const EVENT_BY_STATUS: { [status: string]: WebhookEvent } = {
+  completed: 'analysis.completed',
+  failed: 'analysis.failed',
+  cancelled: 'analysis.cancelled'
+};
+
+const MIN_SECRET_LENGTH = 16;
+
+// Body sent to the subscriber; id is the delivery id, repeated on every retry
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  analysisId: string;
+  url: string;
+  status: NorticAnalysis['status'];
+  error: string | null;
+  // Only analyses that completed have a result
+  result: AnalysisResult | null;
+}
+
+export type WebhookInput = Partial<Omit<Webhook, 'created_at' | 'updated_at'>>;
+
+export type WebhookValidation =
+  | { valid: true; webhook: Omit<Webhook, 'created_at' | 'updated_at'> }
+  | { valid: false; errors: string[] };
+
+// HMAC-SHA256 of the raw request body, sent as X-Nortic-Signature
+export function signWebhookPayload(secret: string, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+// Missing fields are taken from the existing webhook (updates) or defaulted: every event, a generated secret, active
+export function validateWebhook(input: WebhookInput, existing?: Webhook): WebhookValidation {
+  const errors: string[] = [];
+
+  if (!input || typeof input !== 'object') {
+    return { valid: false, errors: ['Webhook must be an object'] };
+  }
+
+  const url = input.url ?? existing?.url;
+  let parsedUrl: URL | null = null;
+  try {
+    parsedUrl = typeof url === 'string' ? new URL(url) : null;
+  } catch {
+    parsedUrl = null;
+  }
+  if (!parsedUrl || !['http:', 'https:'].includes(parsedUrl.protocol)) {
+    errors.push('url is required and must be an http or https URL');
+  }
+
+  const events = input.events ?? existing?.events ?? WEBHOOK_EVENTS;
+  if (!Array.isArray(events) || events.length === 0) {
+    errors.push(`events must include at least one of: ${WEBHOOK_EVENTS.join(', ')}`);
+  } else {
+    const unknown = events.filter(event => !WEBHOOK_EVENTS.includes(event));
+    if (unknown.length > 0) {
+      errors.push(`Unknown webhook events: ${unknown.join(', ')}`);
+    }
+  }
+
+  const secret = input.secret ?? existing?.secret ?? crypto.randomBytes(24).toString('hex');
+  if (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH) {
+    errors.push(`secret must be a string of at least ${MIN_SECRET_LENGTH} characters`);
+  }
+
+  const active = input.active ?? existing?.active ?? true;
+  if (typeof active !== 'boolean') {
+    errors.push('active must be a boolean');
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+
+  return {
+    valid: true,
+    webhook: {
+      id: existing?.id || uuidv4(),
+      url: parsedUrl!.toString(),
+      secret,
+      events: Array.from(new Set(events)),
+      description: input.description ?? existing?.description ?? null,
+      active
+    }
+  };
+}
+
+// The secret is only shown when the webhook is created
+export function withoutSecret(webhook: Webhook): Omit<Webhook, 'secret'> {
+  const { secret, ...rest } = webhook;
+  return rest;
+}
+
+export class WebhookDispatcher {
+  private maxAttempts: number;
+  private retryBaseMs: number;
+  private timeoutMs: number;
+
+  constructor() {
+    const envAttempts = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '', 10);
+    const envRetryBase = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '', 10);
+    const envTimeout = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '', 10);
+    this.maxAttempts = Number.isNaN(envAttempts) ? 5 : Math.max(1, envAttempts);
+    this.retryBaseMs = Number.isNaN(envRetryBase) ? 5000 : Math.max(0, envRetryBase);
+    this.timeoutMs = Number.isNaN(envTimeout) ? 10000 : Math.max(1000, envTimeout);
+  }
+
+  // Receives every progress update; only terminal statuses trigger deliveries
+  handleProgress(update: ProgressUpdate): void {
+    const event = EVENT_BY_STATUS[update.status];
+    if (!event) return;
+
+    this.dispatch(update.analysisId, event, update.error).catch(error => {
+      console.error(`[ERROR] Failed to dispatch ${event} webhooks for analysis ${update.analysisId}:`, error);
+    });
+  }
+
+  async dispatch(analysisId: string, event: WebhookEvent, error?: string): Promise<void> {
+    const webhooks = (await dbManager.getWebhooks()).filter(webhook => webhook.active && webhook.events.includes(event));
+    if (webhooks.length === 0) return;
+
+    const analysis = await dbManager.getAnalysis(analysisId);
+    if (!analysis) return;
+
+    const result = analysis.status === 'completed' ? await norticAnalyzer.getAnalysisResult(analysisId) : null;
+
+    for (const webhook of webhooks) {
+      const payload: WebhookPayload = {
+        id: uuidv4(),
+        event,
+        createdAt: new Date().toISOString(),
+        analysisId,
+        url: analysis.url,
+        status: analysis.status,
+        error: error || null,
+        result
+      };
+
+      // Each subscriber retries on its own schedule
+      this.deliver(webhook, payload, 1);
+    }
+  }
+
+  private async deliver(webhook: Webhook, payload: WebhookPayload, attempt: number): Promise<void> {
+    const body = JSON.stringify(payload);
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'NORTIC-Validator-Webhooks',
+          'X-Nortic-Event': payload.event,
+          'X-Nortic-Delivery': payload.id,
+          'X-Nortic-Signature': signWebhookPayload(webhook.secret, body)
+        },
+        body,
+        signal: AbortSignal.timeout(this.timeoutMs)
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (requestError: any) {
+      error = requestError?.message || 'Unknown error';
+    }
+
+    await dbManager.createWebhookDelivery({
+      delivery_id: payload.id,
+      webhook_id: webhook.id,
+      analysis_id: payload.analysisId,
+      event: payload.event,
+      attempt,
+      status: error ? 'failed' : 'success',
+      response_status: responseStatus,
+      error,
+      duration_ms: Date.now() - startedAt
+    }).catch(logError => {
+      console.error(`[ERROR] Failed to log webhook delivery ${payload.id}:`, logError);
+    });
+
+    if (!error) {
+      console.log(`[SUCCESS] Webhook ${payload.event} delivered to ${webhook.url} (attempt ${attempt})`);
+      return;
+    }
+
+    if (attempt >= this.maxAttempts) {
+      console.error(`[ERROR] Webhook delivery ${payload.id} to ${webhook.url} failed after ${attempt} attempts: ${error}`);
+      return;
+    }
+
+    const delay = this.retryBaseMs * 2 ** (attempt - 1);
+    console.log(`[WARNING] Webhook delivery ${payload.id} to ${webhook.url} failed (${error}); retrying in ${delay}ms`);
+
+    const retry: WebhookRetry = {
+      delivery_id: payload.id,
+      webhook_id: webhook.id,
+      analysis_id: payload.analysisId,
+      attempt: attempt + 1,
+      payload: body,
+      next_attempt_at: new Date(Date.now() + delay).toISOString()
+    };
+    try {
+      await dbManager.createWebhookRetry(retry);
+    } catch (saveError) {
+      console.error(`[ERROR] Failed to schedule retry for webhook delivery ${payload.id}:`, saveError);
+      return;
+    }
+    this.scheduleRetry(retry);
+  }
+
+  // Retries saved before a restart are picked up again, overdue ones right away
+  async resumePendingRetries(): Promise<void> {
+    const retries = await dbManager.getWebhookRetries();
+    if (retries.length > 0) {
+      console.log(`[INFO] Resuming ${retries.length} pending webhook retries`);
+    }
+    retries.forEach(retry => this.scheduleRetry(retry));
+  }
+
+  private scheduleRetry(retry: WebhookRetry): void {
+    const delay = Math.max(0, new Date(retry.next_attempt_at).getTime() - Date.now());
+
+    setTimeout(async () => {
+      try {
+        // Deleting the webhook or the analysis drops the retry
+        if (!(await dbManager.takeWebhookRetry(retry.delivery_id))) return;
+
+        // The webhook may have been changed or disabled while waiting
+        const current = await dbManager.getWebhook(retry.webhook_id);
+        if (!current || !current.active) return;
+        await this.deliver(current, JSON.parse(retry.payload), retry.attempt);
+      } catch (retryError) {
+        console.error(`[ERROR] Webhook retry for delivery ${retry.delivery_id} failed:`, retryError);
+      }
+    }, delay);
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
@@ -0,0 +1,262 @@
+import zlib from 'zlib';
+import { once } from 'events';
+import { Writable } from 'stream';
+
+export type CellValue = string | number | null | undefined;
+
+interface ZipEntry {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function updateCrc(crc: number, data: Buffer): number {
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+// Waits until a stream wants more data; fails if it closes first (e.g. the client went away), so the caller stops producing
+export function waitForDrain(output: Writable): Promise<void> {
+  if (output.destroyed) {
+    return Promise.reject(new Error('Output closed before the export finished'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const settle = (error?: Error) => {
+      output.off('drain', onDrain);
+      output.off('close', onClose);
+      output.off('error', onError);
+      if (error) reject(error); else resolve();
+    };
+    const onDrain = () => settle();
+    const onClose = () => settle(new Error('Output closed before the export finished'));
+    const onError = (error: Error) => settle(error);
+
+    output.on('drain', onDrain);
+    output.on('close', onClose);
+    output.on('error', onError);
+  });
+}
+
+// Characters XML 1.0 does not allow, even escaped
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Excel rejects longer cells
+const MAX_CELL_LENGTH = 32767;
+
+function cellXml(value: CellValue, style: number = 0): string {
+  const styleAttribute = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') {
+    return `<c${styleAttribute}/>`;
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return `<c${styleAttribute}><v>${value}</v></c>`;
+  }
+  const text = escapeXml(String(value).slice(0, MAX_CELL_LENGTH));
+  return `<c t="inlineStr"${styleAttribute}><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Sheet 1 style is the bold header row
+const STYLES_XML = XML_HEADER +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+/**
+ * Writes an .xlsx workbook straight to a stream, one sheet at a time, without holding the rows in memory.
+ * Entries are deflated as they are written and sized afterwards in ZIP data descriptors.
+ */
+export class XlsxWriter {
+  private entries: ZipEntry[] = [];
+  private sheetNames: string[] = [];
+  private offset = 0;
+  private modified = dosDateTime(new Date());
+
+  constructor(private output: Writable) {}
+
+  async addSheet(name: string, header: string[], rows: AsyncIterable<CellValue[]> | Iterable<CellValue[]>): Promise<void> {
+    // Sheet names are limited to 31 characters and cannot contain []:*?/\
+    this.sheetNames.push(name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+    const sheetNumber = this.sheetNames.length;
+
+    async function* sheetXml() {
+      yield XML_HEADER + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+        '<sheetData>';
+      yield `<row>${header.map(title => cellXml(title, 1)).join('')}</row>`;
+      for await (const row of rows) {
+        yield `<row>${row.map(value => cellXml(value)).join('')}</row>`;
+      }
+      yield '</sheetData></worksheet>';
+    }
+
+    await this.writeEntry(`xl/worksheets/sheet${sheetNumber}.xml`, sheetXml());
+  }
+
+  async finish(): Promise<void> {
+    const sheets = this.sheetNames;
+
+    await this.writeEntry('[Content_Types].xml', [XML_HEADER +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets.map((_, index) =>
+        `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+      ).join('') +
+      '</Types>']);
+
+    await this.writeEntry('_rels/.rels', [XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      '</Relationships>']);
+
+    await this.writeEntry('xl/workbook.xml', [XML_HEADER +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      sheets.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+      '</sheets></workbook>']);
+
+    await this.writeEntry('xl/_rels/workbook.xml.rels', [XML_HEADER +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets.map((_, index) =>
+        `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+      ).join('') +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      '</Relationships>']);
+
+    await this.writeEntry('xl/styles.xml', [STYLES_XML]);
+
+    await this.writeCentralDirectory();
+  }
+
+  private async write(data: Buffer): Promise<void> {
+    this.offset += data.length;
+    if (this.output.destroyed) {
+      throw new Error('Output closed before the export finished');
+    }
+    if (!this.output.write(data)) {
+      await waitForDrain(this.output);
+    }
+  }
+
+  private async writeEntry(name: string, chunks: AsyncIterable<string> | Iterable<string>): Promise<void> {
+    const entry: ZipEntry = { name: Buffer.from(name, 'utf8'), crc: 0, compressedSize: 0, size: 0, offset: this.offset };
+
+    // Bit 3: sizes and CRC follow the data; bit 11: UTF-8 names
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(0x0808, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(this.modified.time, 10);
+    header.writeUInt16LE(this.modified.date, 12);
+    header.writeUInt16LE(entry.name.length, 26);
+    await this.write(Buffer.concat([header, entry.name]));
+
+    const deflate = zlib.createDeflateRaw();
+    const compressed: Buffer[] = [];
+    deflate.on('data', (data: Buffer) => compressed.push(data));
+
+    const flushCompressed = async () => {
+      while (compressed.length > 0) {
+        const data = compressed.shift()!;
+        entry.compressedSize += data.length;
+        await this.write(data);
+      }
+    };
+
+    for await (const chunk of chunks) {
+      const data = Buffer.from(chunk, 'utf8');
+      entry.crc = updateCrc(entry.crc, data);
+      entry.size += data.length;
+      if (!deflate.write(data)) {
+        await once(deflate, 'drain');
+      }
+      await flushCompressed();
+    }
+
+    const ended = once(deflate, 'end');
+    deflate.end();
+    await ended;
+    await flushCompressed();
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressedSize, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    await this.write(descriptor);
+
+    this.entries.push(entry);
+  }
+
+  private async writeCentralDirectory(): Promise<void> {
+    const start = this.offset;
+
+    for (const entry of this.entries) {
+      const header = Buffer.alloc(46);
+      header.writeUInt32LE(0x02014b50, 0);
+      header.writeUInt16LE(20, 4);
+      header.writeUInt16LE(20, 6);
+      header.writeUInt16LE(0x0808, 8);
+      header.writeUInt16LE(8, 10);
+      header.writeUInt16LE(this.modified.time, 12);
+      header.writeUInt16LE(this.modified.date, 14);
+      header.writeUInt32LE(entry.crc, 16);
+      header.writeUInt32LE(entry.compressedSize, 20);
+      header.writeUInt32LE(entry.size, 24);
+      header.writeUInt16LE(entry.name.length, 28);
+      header.writeUInt32LE(entry.offset, 42);
+      await this.write(Buffer.concat([header, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - start, 12);
+    end.writeUInt32LE(start, 16);
+    await this.write(end);
+  }
+}
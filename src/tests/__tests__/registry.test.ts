@@ -0,0 +1,69 @@
+import { plannedTestCount, testerRegistry, validateTestCategories } from '../registry';
+
+describe('validateTestCategories', () => {
+  it('selects every category when none are given', () => {
+    expect(validateTestCategories(undefined)).toEqual({ valid: true, categories: testerRegistry.ids() });
+    expect(validateTestCategories(null)).toEqual({ valid: true, categories: testerRegistry.ids() });
+  });
+
+  it('maps aliases to canonical ids without duplicates', () => {
+    expect(validateTestCategories(['Usability', 'usabilidad', ' layout ', 'diseño'])).toEqual({
+      valid: true,
+      categories: ['usabilidad', 'diseno']
+    });
+  });
+
+  it('rejects values that are not an array of strings', () => {
+    const result = validateTestCategories(['seo', 3]);
+    expect(result).toMatchObject({ valid: false, error: 'testCategories must be an array of strings' });
+    expect(validateTestCategories('seo')).toMatchObject({ valid: false });
+  });
+
+  it('rejects an empty list', () => {
+    expect(validateTestCategories([])).toMatchObject({
+      valid: false,
+      error: 'testCategories must include at least one category'
+    });
+  });
+
+  it('lists the unknown categories and the accepted keys', () => {
+    expect(validateTestCategories(['seo', 'performance', 'colores'])).toMatchObject({
+      valid: false,
+      error: 'Unknown test categories: performance, colores',
+      validValues: expect.arrayContaining(['seo', 'accesibilidad', 'accessibility'])
+    });
+  });
+});
+
+describe('testerRegistry', () => {
+  it('counts one test per requirements entry', () => {
+    for (const definition of testerRegistry.list()) {
+      expect(definition.testCount).toBe(Object.keys(definition.requirements).length);
+    }
+    expect(testerRegistry.get('accessibility')?.testCount).toBe(7);
+  });
+
+  it('refuses a key that another tester already owns', () => {
+    expect(() => testerRegistry.register({
+      id: 'rendimiento',
+      aliases: ['SEO'],
+      displayName: 'Rendimiento',
+      chapter: 8,
+      requirements: {},
+      scoreTests: () => 100,
+      create: () => ({ runAllTests: async () => ({ category: 'Rendimiento', tests: [], score: 100 }) })
+    })).toThrow('Tester key "seo" is already registered by "seo"');
+  });
+});
+
+describe('plannedTestCount', () => {
+  it('adds the tests of the selected categories', () => {
+    expect(plannedTestCount(['seo', 'accesibilidad'])).toBe(13);
+  });
+
+  it('falls back to every category for missing or invalid selections', () => {
+    const total = testerRegistry.countTests(testerRegistry.ids());
+    expect(plannedTestCount(undefined)).toBe(total);
+    expect(plannedTestCount(['unknown'])).toBe(total);
+  });
+});
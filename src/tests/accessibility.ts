@@ -1,53 +1,164 @@
 import { Page } from 'playwright';
-import { TestResult } from '../models/database';
+import AxeBuilder from '@axe-core/playwright';
+import axeCore from 'axe-core';
+import axeLocaleEs from 'axe-core/locales/es.json';
+import { TestResult, AccessibilityViolation } from '../models/database';
+import { Tester, TestRequirements, TestProgressListener, runReportedTest, averageTestScore } from './tester';
 
 export interface AccessibilityTestResult {
   category: string;
   tests: TestResult[];
   score: number;
+  violations: AccessibilityViolation[];
 }
 
-export class AccessibilityTester {
+// Reglas evaluadas por axe-core: WCAG 2.0 y 2.1, niveles A y AA
+const WCAG_TAGS = ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'];
+
+// Penalización por regla incumplida según su impacto
+const IMPACT_PENALTIES: { [impact: string]: number } = {
+  critical: 25,
+  serious: 15,
+  moderate: 8,
+  minor: 3
+};
+
+export const AXE_AUDIT_TEST = 'Auditoría Automática WCAG 2.1 (axe-core)';
+
+// Puntuación de la auditoría axe a partir del impacto de cada regla incumplida (una penalización por regla)
+export function axeAuditOutcome(ruleImpacts: string[]): { score: number; status: TestResult['status'] } {
+  let score = 100;
+  for (const impact of ruleImpacts) {
+    score -= IMPACT_PENALTIES[impact] ?? IMPACT_PENALTIES.minor;
+  }
+  score = Math.max(0, score);
+
+  const status = ruleImpacts.includes('critical') ? 'failed' :
+                score >= 80 ? 'passed' : score >= 60 ? 'warning' : 'failed';
+  return { score, status };
+}
+
+// axe-core con los mensajes traducidos al español
+const AXE_SOURCE_ES = `${axeCore.source}\naxe.configure({ locale: ${JSON.stringify(axeLocaleEs)} });`;
+
+export class AccessibilityTester implements Tester {
+  static readonly requirements: TestRequirements = {
+    'Accesibilidad de Imágenes': ['A2-7.1', 'A2-6.5'],
+    'Contraste de Colores': ['A2-7.2'],
+    'Navegación por Teclado': ['A2-7.3'],
+    'Accesibilidad de Formularios': ['A2-7.4', 'A2-2.5'],
+    'Etiquetas y Roles ARIA': ['A2-7.5'],
+    'Estructura del Documento': ['A2-7.5', 'A2-6.4'],
+    [AXE_AUDIT_TEST]: ['A2-7.6', 'A2-7.1', 'A2-7.2']
+  };
+
   private page: Page;
   private analysisId: string;
+  private onTestProgress?: TestProgressListener;
+  private violations: AccessibilityViolation[] = [];
 
-  constructor(page: Page, analysisId: string) {
+  constructor(page: Page, analysisId: string, onTestProgress?: TestProgressListener) {
     this.page = page;
     this.analysisId = analysisId;
+    this.onTestProgress = onTestProgress;
   }
 
   async runAllTests(): Promise<AccessibilityTestResult> {
     const tests: TestResult[] = [];
 
     // Test 1: Keyboard Navigation
-    tests.push(await this.testKeyboardNavigation());
+    tests.push(await runReportedTest('Navegación por Teclado', () => this.testKeyboardNavigation(), this.onTestProgress));
 
     // Test 2: Color Contrast
-    tests.push(await this.testColorContrast());
+    tests.push(await runReportedTest('Contraste de Colores', () => this.testColorContrast(), this.onTestProgress));
 
     // Test 3: ARIA Labels and Roles
-    tests.push(await this.testARIAImplementation());
+    tests.push(await runReportedTest('Etiquetas y Roles ARIA', () => this.testARIAImplementation(), this.onTestProgress));
 
     // Test 4: Form Accessibility
-    tests.push(await this.testFormAccessibility());
+    tests.push(await runReportedTest('Accesibilidad de Formularios', () => this.testFormAccessibility(), this.onTestProgress));
 
     // Test 5: Image Accessibility
-    tests.push(await this.testImageAccessibility());
+    tests.push(await runReportedTest('Accesibilidad de Imágenes', () => this.testImageAccessibility(), this.onTestProgress));
 
     // Test 6: Document Structure
-    tests.push(await this.testDocumentStructure());
+    tests.push(await runReportedTest('Estructura del Documento', () => this.testDocumentStructure(), this.onTestProgress));
+
+    // Test 7: Automated WCAG 2.1 A/AA audit (axe-core)
+    tests.push(await runReportedTest(AXE_AUDIT_TEST, () => this.testAxeAudit(), this.onTestProgress));
 
     // Calculate overall score
-    const totalScore = tests.reduce((sum, test) => sum + (test.score || 0), 0);
-    const score = Math.round(totalScore / tests.length);
+    const score = averageTestScore(tests);
 
     return {
       category: 'Accesibilidad',
       tests,
-      score
+      score,
+      violations: this.violations
     };
   }
 
+  private async testAxeAudit(): Promise<TestResult> {
+    try {
+      const results = await new AxeBuilder({ page: this.page, axeSource: AXE_SOURCE_ES })
+        .withTags(WCAG_TAGS)
+        .analyze();
+
+      // One row per affected element so each failing node can be located
+      this.violations = results.violations.flatMap(violation =>
+        violation.nodes.map(node => ({
+          analysis_id: this.analysisId,
+          rule_id: violation.id,
+          impact: (node.impact || violation.impact || 'minor') as AccessibilityViolation['impact'],
+          description: violation.help,
+          help_url: violation.helpUrl,
+          selector: node.target.map(target => Array.isArray(target) ? target.join(' ') : String(target)).join(' >> '),
+          html: node.html,
+          created_at: new Date().toISOString()
+        }))
+      );
+
+      const impactCounts = { critical: 0, serious: 0, moderate: 0, minor: 0 };
+      for (const violation of results.violations) {
+        impactCounts[violation.impact || 'minor']++;
+      }
+      const { score, status } = axeAuditOutcome(results.violations.map(violation => violation.impact || 'minor'));
+
+      return {
+        analysis_id: this.analysisId,
+        category: 'Accesibilidad',
+        test_name: AXE_AUDIT_TEST,
+        status,
+        score,
+        message: results.violations.length === 0
+          ? `Sin violaciones WCAG 2.1 A/AA detectadas (${results.passes.length} reglas superadas)`
+          : `${results.violations.length} reglas WCAG incumplidas en ${this.violations.length} elementos`,
+        details: {
+          tags: WCAG_TAGS,
+          violatedRules: results.violations.map(v => ({ id: v.id, impact: v.impact, nodes: v.nodes.length })),
+          impactCounts,
+          passedRules: results.passes.length,
+          incompleteRules: results.incomplete.length,
+          inapplicableRules: results.inapplicable.length,
+          axeVersion: results.testEngine.version
+        },
+        created_at: new Date().toISOString()
+      };
+    } catch (error) {
+      this.violations = [];
+      return {
+        analysis_id: this.analysisId,
+        category: 'Accesibilidad',
+        test_name: AXE_AUDIT_TEST,
+        status: 'failed',
+        score: 0,
+        message: `Error al ejecutar axe-core: ${error}`,
+        details: { error: error.toString() },
+        created_at: new Date().toISOString()
+      };
+    }
+  }
+
   private async testKeyboardNavigation(): Promise<TestResult> {
     try {
       const keyboardInfo = await this.page.evaluate(() => {
@@ -1,5 +1,6 @@
 import { Page } from 'playwright';
 import { TestResult } from '../models/database';
+import { Tester, TestRequirements, TestProgressListener, runReportedTest, averageTestScore } from './tester';
 
 export interface ContentTestResult {
   category: string;
@@ -7,39 +8,49 @@ export interface ContentTestResult {
   score: number;
 }
 
-export class ContentTester {
+export class ContentTester implements Tester {
+  static readonly requirements: TestRequirements = {
+    'Información Institucional': ['A2-4.1'],
+    'Información de Servicios': ['A2-4.2'],
+    'Sección de Transparencia': ['A2-4.3'],
+    'Noticias y Comunicaciones': ['A2-4.4'],
+    'Información de Contacto': ['A2-4.5'],
+    'Información Legal Requerida': ['A2-4.6']
+  };
+
   private page: Page;
   private analysisId: string;
+  private onTestProgress?: TestProgressListener;
 
-  constructor(page: Page, analysisId: string) {
+  constructor(page: Page, analysisId: string, onTestProgress?: TestProgressListener) {
     this.page = page;
     this.analysisId = analysisId;
+    this.onTestProgress = onTestProgress;
   }
 
   async runAllTests(): Promise<ContentTestResult> {
     const tests: TestResult[] = [];
 
     // Test 1: Institutional Information
-    tests.push(await this.testInstitutionalInformation());
+    tests.push(await runReportedTest('Información Institucional', () => this.testInstitutionalInformation(), this.onTestProgress));
 
     // Test 2: Transparency Section
-    tests.push(await this.testTransparencySection());
+    tests.push(await runReportedTest('Sección de Transparencia', () => this.testTransparencySection(), this.onTestProgress));
 
     // Test 3: Services Information
-    tests.push(await this.testServicesInformation());
+    tests.push(await runReportedTest('Información de Servicios', () => this.testServicesInformation(), this.onTestProgress));
 
     // Test 4: Contact Information
-    tests.push(await this.testContactInformation());
+    tests.push(await runReportedTest('Información de Contacto', () => this.testContactInformation(), this.onTestProgress));
 
     // Test 5: News and Communications
-    tests.push(await this.testNewsSection());
+    tests.push(await runReportedTest('Noticias y Comunicaciones', () => this.testNewsSection(), this.onTestProgress));
 
     // Test 6: Required Legal Information
-    tests.push(await this.testLegalInformation());
+    tests.push(await runReportedTest('Información Legal Requerida', () => this.testLegalInformation(), this.onTestProgress));
 
     // Calculate overall score
-    const totalScore = tests.reduce((sum, test) => sum + (test.score || 0), 0);
-    const score = Math.round(totalScore / tests.length);
+    const score = averageTestScore(tests);
 
     return {
       category: 'Contenido',
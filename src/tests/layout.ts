@@ -1,5 +1,6 @@
 import { Page } from 'playwright';
 import { TestResult } from '../models/database';
+import { Tester, TestRequirements, TestProgressListener, runReportedTest, averageTestScore } from './tester';
 
 export interface LayoutTestResult {
   category: string;
@@ -7,39 +8,49 @@ export interface LayoutTestResult {
   score: number;
 }
 
-export class LayoutTester {
+export class LayoutTester implements Tester {
+  static readonly requirements: TestRequirements = {
+    'Estructura del Header': ['A2-3.1'],
+    'Elementos de Identidad Gubernamental': ['A2-3.1'],
+    'Estructura del Footer': ['A2-3.2'],
+    'Menú de Navegación': ['A2-3.3', 'A2-2.3'],
+    'Área de Contenido Principal': ['A2-3.4'],
+    'Layout Responsivo': ['A2-3.5', 'A2-2.2']
+  };
+
   private page: Page;
   private analysisId: string;
+  private onTestProgress?: TestProgressListener;
 
-  constructor(page: Page, analysisId: string) {
+  constructor(page: Page, analysisId: string, onTestProgress?: TestProgressListener) {
     this.page = page;
     this.analysisId = analysisId;
+    this.onTestProgress = onTestProgress;
   }
 
   async runAllTests(): Promise<LayoutTestResult> {
     const tests: TestResult[] = [];
 
     // Test 1: Header Structure
-    tests.push(await this.testHeaderStructure());
+    tests.push(await runReportedTest('Estructura del Header', () => this.testHeaderStructure(), this.onTestProgress));
 
     // Test 2: Navigation Menu
-    tests.push(await this.testNavigationMenu());
+    tests.push(await runReportedTest('Menú de Navegación', () => this.testNavigationMenu(), this.onTestProgress));
 
     // Test 3: Main Content Area
-    tests.push(await this.testMainContentArea());
+    tests.push(await runReportedTest('Área de Contenido Principal', () => this.testMainContentArea(), this.onTestProgress));
 
     // Test 4: Footer Structure
-    tests.push(await this.testFooterStructure());
+    tests.push(await runReportedTest('Estructura del Footer', () => this.testFooterStructure(), this.onTestProgress));
 
     // Test 5: Government Identity Elements
-    tests.push(await this.testGovernmentIdentity());
+    tests.push(await runReportedTest('Elementos de Identidad Gubernamental', () => this.testGovernmentIdentity(), this.onTestProgress));
 
     // Test 6: Responsive Layout
-    tests.push(await this.testResponsiveLayout());
+    tests.push(await runReportedTest('Layout Responsivo', () => this.testResponsiveLayout(), this.onTestProgress));
 
     // Calculate overall score
-    const totalScore = tests.reduce((sum, test) => sum + (test.score || 0), 0);
-    const score = Math.round(totalScore / tests.length);
+    const score = averageTestScore(tests);
 
     return {
       category: 'Diseño y Layout',
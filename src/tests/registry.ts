@@ -0,0 +1,159 @@
+import { TesterDefinition, averageTestScore } from './tester';
+import { UsabilityTester } from './usability';
+import { LayoutTester } from './layout';
+import { ContentTester } from './content';
+import { SecurityTester } from './security';
+import { SEOTester } from './seo';
+import { AccessibilityTester } from './accessibility';
+
+export class TesterRegistry {
+  private definitions: Map<string, TesterDefinition> = new Map();
+  private keys: Map<string, string> = new Map();
+
+  // testCount is derived from the tester's requirements map, which lists every test it runs
+  register(entry: Omit<TesterDefinition, 'testCount'>): void {
+    const definition: TesterDefinition = { ...entry, testCount: Object.keys(entry.requirements).length };
+    const keys = [definition.id, ...definition.aliases].map(key => key.toLowerCase());
+    for (const key of keys) {
+      const owner = this.keys.get(key);
+      if (owner && owner !== definition.id) {
+        throw new Error(`Tester key "${key}" is already registered by "${owner}"`);
+      }
+    }
+
+    this.definitions.set(definition.id, definition);
+    for (const key of keys) {
+      this.keys.set(key, definition.id);
+    }
+  }
+
+  // Accepts the canonical id or any alias, case-insensitive
+  get(key: string): TesterDefinition | undefined {
+    const id = this.keys.get(key.trim().toLowerCase());
+    return id ? this.definitions.get(id) : undefined;
+  }
+
+  list(): TesterDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  ids(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  // Number of tests the given categories run on each page
+  countTests(categoryIds: string[]): number {
+    return categoryIds.reduce((total, id) => total + (this.get(id)?.testCount || 0), 0);
+  }
+
+  // Canonical ids and aliases, as accepted in testCategories
+  acceptedKeys(): string[] {
+    return Array.from(this.keys.keys());
+  }
+}
+
+export type CategoryValidation =
+  | { valid: true; categories: string[] }
+  | { valid: false; error: string; validValues: string[] };
+
+// Maps requested categories (Spanish or English) to canonical ids, without duplicates
+export function validateTestCategories(raw: unknown): CategoryValidation {
+  const validValues = testerRegistry.acceptedKeys();
+
+  if (raw === undefined || raw === null) {
+    return { valid: true, categories: testerRegistry.ids() };
+  }
+
+  if (!Array.isArray(raw) || raw.some(value => typeof value !== 'string')) {
+    return { valid: false, error: 'testCategories must be an array of strings', validValues };
+  }
+
+  if (raw.length === 0) {
+    return { valid: false, error: 'testCategories must include at least one category', validValues };
+  }
+
+  const categories: string[] = [];
+  const unknown: string[] = [];
+  for (const value of raw as string[]) {
+    const definition = testerRegistry.get(value);
+    if (!definition) {
+      unknown.push(value);
+    } else if (!categories.includes(definition.id)) {
+      categories.push(definition.id);
+    }
+  }
+
+  if (unknown.length > 0) {
+    return { valid: false, error: `Unknown test categories: ${unknown.join(', ')}`, validValues };
+  }
+
+  return { valid: true, categories };
+}
+
+// Tests per page for an analysis' stored testCategories (all categories when missing or invalid)
+export function plannedTestCount(testCategories: unknown): number {
+  const validation = validateTestCategories(testCategories);
+  return testerRegistry.countTests(validation.valid ? validation.categories : testerRegistry.ids());
+}
+
+export const testerRegistry = new TesterRegistry();
+
+testerRegistry.register({
+  id: 'usabilidad',
+  aliases: ['usability'],
+  displayName: 'Usabilidad',
+  chapter: 2,
+  requirements: UsabilityTester.requirements,
+  scoreTests: UsabilityTester.scoreTests,
+  create: (page, analysisId, onTestProgress) => new UsabilityTester(page, analysisId, onTestProgress)
+});
+
+testerRegistry.register({
+  id: 'diseno',
+  aliases: ['diseño', 'layout', 'design'],
+  displayName: 'Diseño y Layout',
+  chapter: 3,
+  requirements: LayoutTester.requirements,
+  scoreTests: averageTestScore,
+  create: (page, analysisId, onTestProgress) => new LayoutTester(page, analysisId, onTestProgress)
+});
+
+testerRegistry.register({
+  id: 'contenido',
+  aliases: ['content'],
+  displayName: 'Contenido',
+  chapter: 4,
+  requirements: ContentTester.requirements,
+  scoreTests: averageTestScore,
+  create: (page, analysisId, onTestProgress) => new ContentTester(page, analysisId, onTestProgress)
+});
+
+testerRegistry.register({
+  id: 'seguridad',
+  aliases: ['security'],
+  displayName: 'Seguridad',
+  chapter: 5,
+  requirements: SecurityTester.requirements,
+  scoreTests: averageTestScore,
+  create: (page, analysisId, onTestProgress) => new SecurityTester(page, analysisId, onTestProgress)
+});
+
+testerRegistry.register({
+  id: 'seo',
+  aliases: [],
+  displayName: 'SEO',
+  chapter: 6,
+  requirements: SEOTester.requirements,
+  scoreTests: averageTestScore,
+  create: (page, analysisId, onTestProgress) => new SEOTester(page, analysisId, onTestProgress)
+});
+
+testerRegistry.register({
+  id: 'accesibilidad',
+  aliases: ['accessibility'],
+  displayName: 'Accesibilidad',
+  chapter: 7,
+  requirements: AccessibilityTester.requirements,
+  scoreTests: averageTestScore,
+  create: (page, analysisId, onTestProgress) => new AccessibilityTester(page, analysisId, onTestProgress)
+});
@@ -1,5 +1,6 @@
 import { Page } from 'playwright';
 import { TestResult } from '../models/database';
+import { Tester, TestRequirements, TestProgressListener, runReportedTest, averageTestScore } from './tester';
 
 export interface SecurityTestResult {
   category: string;
@@ -7,39 +8,49 @@ export interface SecurityTestResult {
   score: number;
 }
 
-export class SecurityTester {
+export class SecurityTester implements Tester {
+  static readonly requirements: TestRequirements = {
+    'Implementación HTTPS': ['A2-5.1'],
+    'Cabeceras de Seguridad': ['A2-5.2'],
+    'Política de Seguridad de Contenido': ['A2-5.2'],
+    'Seguridad de Formularios': ['A2-5.3'],
+    'Seguridad de Cookies': ['A2-5.4'],
+    'Seguridad de Recursos Externos': ['A2-5.5']
+  };
+
   private page: Page;
   private analysisId: string;
+  private onTestProgress?: TestProgressListener;
 
-  constructor(page: Page, analysisId: string) {
+  constructor(page: Page, analysisId: string, onTestProgress?: TestProgressListener) {
     this.page = page;
     this.analysisId = analysisId;
+    this.onTestProgress = onTestProgress;
   }
 
   async runAllTests(): Promise<SecurityTestResult> {
     const tests: TestResult[] = [];
 
     // Test 1: HTTPS Implementation
-    tests.push(await this.testHTTPSImplementation());
+    tests.push(await runReportedTest('Implementación HTTPS', () => this.testHTTPSImplementation(), this.onTestProgress));
 
     // Test 2: Security Headers
-    tests.push(await this.testSecurityHeaders());
+    tests.push(await runReportedTest('Cabeceras de Seguridad', () => this.testSecurityHeaders(), this.onTestProgress));
 
     // Test 3: Form Security
-    tests.push(await this.testFormSecurity());
+    tests.push(await runReportedTest('Seguridad de Formularios', () => this.testFormSecurity(), this.onTestProgress));
 
     // Test 4: Content Security Policy
-    tests.push(await this.testContentSecurityPolicy());
+    tests.push(await runReportedTest('Política de Seguridad de Contenido', () => this.testContentSecurityPolicy(), this.onTestProgress));
 
     // Test 5: Cookie Security
-    tests.push(await this.testCookieSecurity());
+    tests.push(await runReportedTest('Seguridad de Cookies', () => this.testCookieSecurity(), this.onTestProgress));
 
     // Test 6: External Resources Security
-    tests.push(await this.testExternalResourcesSecurity());
+    tests.push(await runReportedTest('Seguridad de Recursos Externos', () => this.testExternalResourcesSecurity(), this.onTestProgress));
 
     // Calculate overall score
-    const totalScore = tests.reduce((sum, test) => sum + (test.score || 0), 0);
-    const score = Math.round(totalScore / tests.length);
+    const score = averageTestScore(tests);
 
     return {
       category: 'Seguridad',
@@ -1,5 +1,6 @@
 import { Page } from 'playwright';
 import { TestResult } from '../models/database';
+import { Tester, TestRequirements, TestProgressListener, runReportedTest, averageTestScore } from './tester';
 
 export interface SEOTestResult {
   category: string;
@@ -7,39 +8,49 @@ export interface SEOTestResult {
   score: number;
 }
 
-export class SEOTester {
+export class SEOTester implements Tester {
+  static readonly requirements: TestRequirements = {
+    'Optimización de Etiqueta Title': ['A2-6.1'],
+    'Meta Descripción': ['A2-6.2'],
+    'Estructura de URL': ['A2-6.3'],
+    'Estructura de Encabezados': ['A2-6.4'],
+    'Atributos Alt de Imágenes': ['A2-6.5'],
+    'Enlaces Internos': ['A2-6.6']
+  };
+
   private page: Page;
   private analysisId: string;
+  private onTestProgress?: TestProgressListener;
 
-  constructor(page: Page, analysisId: string) {
+  constructor(page: Page, analysisId: string, onTestProgress?: TestProgressListener) {
     this.page = page;
     this.analysisId = analysisId;
+    this.onTestProgress = onTestProgress;
   }
 
   async runAllTests(): Promise<SEOTestResult> {
     const tests: TestResult[] = [];
 
     // Test 1: Title Tag Optimization
-    tests.push(await this.testTitleTag());
+    tests.push(await runReportedTest('Optimización de Etiqueta Title', () => this.testTitleTag(), this.onTestProgress));
 
     // Test 2: Meta Description
-    tests.push(await this.testMetaDescription());
+    tests.push(await runReportedTest('Meta Descripción', () => this.testMetaDescription(), this.onTestProgress));
 
     // Test 3: Heading Structure
-    tests.push(await this.testHeadingStructure());
+    tests.push(await runReportedTest('Estructura de Encabezados', () => this.testHeadingStructure(), this.onTestProgress));
 
     // Test 4: Image Alt Attributes
-    tests.push(await this.testImageAltAttributes());
+    tests.push(await runReportedTest('Atributos Alt de Imágenes', () => this.testImageAltAttributes(), this.onTestProgress));
 
     // Test 5: URL Structure
-    tests.push(await this.testURLStructure());
+    tests.push(await runReportedTest('Estructura de URL', () => this.testURLStructure(), this.onTestProgress));
 
     // Test 6: Internal Linking
-    tests.push(await this.testInternalLinking());
+    tests.push(await runReportedTest('Enlaces Internos', () => this.testInternalLinking(), this.onTestProgress));
 
     // Calculate overall score
-    const totalScore = tests.reduce((sum, test) => sum + (test.score || 0), 0);
-    const score = Math.round(totalScore / tests.length);
+    const score = averageTestScore(tests);
 
     return {
       category: 'SEO',
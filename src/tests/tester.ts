@@ -0,0 +1,57 @@
+import { Page } from 'playwright';
+import { TestResult, AccessibilityViolation } from '../models/database';
+
+export interface TesterResult {
+  category: string;
+  tests: TestResult[];
+  score: number;
+  violations?: AccessibilityViolation[];
+}
+
+// Contrato común de los módulos de prueba: se construyen sobre una página ya cargada
+export interface Tester {
+  runAllTests(): Promise<TesterResult>;
+}
+
+// Ids del catálogo de requisitos NORTIC A2 (src/services/requirements-catalog.ts) respaldados por cada prueba, por nombre de prueba
+export type TestRequirements = { [testName: string]: string[] };
+
+export interface TesterDefinition {
+  id: string;
+  aliases: string[];
+  displayName: string;
+  chapter: number;
+  // Pruebas por página: una por entrada de requirements (lo calcula el registro)
+  testCount: number;
+  requirements: TestRequirements;
+  // Método con el que el módulo calcula la puntuación de la categoría; se reutiliza al quitar pruebas suprimidas
+  scoreTests(tests: TestResult[]): number;
+  create(page: Page, analysisId: string, onTestProgress?: TestProgressListener): Tester;
+}
+
+// Puntuación de categoría habitual: promedio simple de las puntuaciones de las pruebas
+export function averageTestScore(tests: TestResult[]): number {
+  const totalScore = tests.reduce((sum, test) => sum + (test.score || 0), 0);
+  return Math.round(totalScore / tests.length);
+}
+
+// Aviso que emite un módulo al iniciar ('running') y al terminar cada prueba
+export interface TestProgressEvent {
+  testName: string;
+  status: 'running' | TestResult['status'];
+  score: number | null;
+}
+
+export type TestProgressListener = (event: TestProgressEvent) => void;
+
+// Ejecuta una prueba avisando su inicio y su resultado; el nombre final es el que devuelve la prueba
+export async function runReportedTest(
+  testName: string,
+  run: () => Promise<TestResult>,
+  onTestProgress?: TestProgressListener
+): Promise<TestResult> {
+  onTestProgress?.({ testName, status: 'running', score: null });
+  const result = await run();
+  onTestProgress?.({ testName: result.test_name, status: result.status, score: result.score ?? null });
+  return result;
+}
@@ -1,5 +1,6 @@
 import { Page } from 'playwright';
 import { TestResult } from '../models/database';
+import { Tester, TestRequirements, TestProgressListener, runReportedTest } from './tester';
 
 export interface UsabilityTestResult {
   category: string;
@@ -7,39 +8,55 @@ export interface UsabilityTestResult {
   score: number;
 }
 
-export class UsabilityTester {
+export class UsabilityTester implements Tester {
+  static readonly requirements: TestRequirements = {
+    'Tiempo de Carga de Página': ['A2-2.1'],
+    'Diseño Responsivo': ['A2-2.2'],
+    'Consistencia de Navegación': ['A2-2.3'],
+    'Compatibilidad del Navegador': ['A2-2.4'],
+    'Usabilidad de Formularios': ['A2-2.5'],
+    'Funcionalidad de Búsqueda': ['A2-2.6']
+  };
+
+  // Usability scores the share of passed tests rather than averaging their scores
+  static scoreTests(tests: TestResult[]): number {
+    const passedTests = tests.filter(t => t.status === 'passed').length;
+    return Math.round((passedTests / tests.length) * 100);
+  }
+
   private page: Page;
   private analysisId: string;
+  private onTestProgress?: TestProgressListener;
 
-  constructor(page: Page, analysisId: string) {
+  constructor(page: Page, analysisId: string, onTestProgress?: TestProgressListener) {
     this.page = page;
     this.analysisId = analysisId;
+    this.onTestProgress = onTestProgress;
   }
 
   async runAllTests(): Promise<UsabilityTestResult> {
     const tests: TestResult[] = [];
 
     // Test 1: Page Load Time
-    tests.push(await this.testPageLoadTime());
+    tests.push(await runReportedTest('Tiempo de Carga de Página', () => this.testPageLoadTime(), this.onTestProgress));
 
     // Test 2: Responsive Design
-    tests.push(await this.testResponsiveDesign());
+    tests.push(await runReportedTest('Diseño Responsivo', () => this.testResponsiveDesign(), this.onTestProgress));
 
     // Test 3: Navigation Consistency
-    tests.push(await this.testNavigationConsistency());
+    tests.push(await runReportedTest('Consistencia de Navegación', () => this.testNavigationConsistency(), this.onTestProgress));
 
     // Test 4: Browser Compatibility
-    tests.push(await this.testBrowserCompatibility());
+    tests.push(await runReportedTest('Compatibilidad del Navegador', () => this.testBrowserCompatibility(), this.onTestProgress));
 
     // Test 5: Form Usability
-    tests.push(await this.testFormUsability());
+    tests.push(await runReportedTest('Usabilidad de Formularios', () => this.testFormUsability(), this.onTestProgress));
 
     // Test 6: Search Functionality
-    tests.push(await this.testSearchFunctionality());
+    tests.push(await runReportedTest('Funcionalidad de Búsqueda', () => this.testSearchFunctionality(), this.onTestProgress));
 
     // Calculate overall score
-    const passedTests = tests.filter(t => t.status === 'passed').length;
-    const score = Math.round((passedTests / tests.length) * 100);
+    const score = UsabilityTester.scoreTests(tests);
 
     return {
       category: 'Usabilidad',